@@ -0,0 +1,8 @@
+-- Conversation History: rolling summary of turns that no longer fit the prompt window
+-- Migration: 0007_conversation_history.sql
+-- Purpose: Track which messages have already been folded into context_summary
+
+-- Highest messages.id already folded into context_summary (0 = nothing summarized yet)
+ALTER TABLE conversation_context ADD COLUMN summarized_through_id INTEGER DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_context_session_latest ON conversation_context(session_id, id DESC);
@@ -0,0 +1,42 @@
+-- Usage Ledger: per-request token, speech and cost accounting
+-- Migration: 0008_usage_ledger.sql
+-- Purpose: Price subscriptions against real provider cost per subscription_type
+
+-- One row per billable provider call
+CREATE TABLE IF NOT EXISTS usage_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  subscription_type TEXT NOT NULL DEFAULT 'free', -- Captured at request time
+  usage_type TEXT NOT NULL CHECK (usage_type IN ('llm', 'stt', 'tts')),
+  operation TEXT NOT NULL, -- 'chat', 'chat_stream', 'summary', 'transcribe', 'synthesize'...
+  provider TEXT,
+  model TEXT,
+  prompt_tokens INTEGER DEFAULT 0,
+  completion_tokens INTEGER DEFAULT 0,
+  stt_seconds REAL DEFAULT 0,
+  tts_characters INTEGER DEFAULT 0,
+  estimated_cost_usd REAL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Per user per day totals, rebuilt from the ledger by the rollup job
+CREATE TABLE IF NOT EXISTS usage_daily_rollups (
+  day TEXT NOT NULL, -- YYYY-MM-DD (UTC)
+  user_id TEXT NOT NULL,
+  subscription_type TEXT NOT NULL,
+  requests INTEGER DEFAULT 0,
+  prompt_tokens INTEGER DEFAULT 0,
+  completion_tokens INTEGER DEFAULT 0,
+  stt_seconds REAL DEFAULT 0,
+  tts_characters INTEGER DEFAULT 0,
+  estimated_cost_usd REAL DEFAULT 0,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (day, user_id, subscription_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_user_created ON usage_ledger(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_session ON usage_ledger(session_id);
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_created ON usage_ledger(created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_rollups_type_day ON usage_daily_rollups(subscription_type, day);
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Memory Embeddings: semantic retrieval for relationship memories
+-- Migration: 0009_memory_embeddings.sql
+-- Purpose: Store a unit-length embedding per memory for in-Worker cosine search
+
+-- Float32 little-endian vector; NULL until embedded (backfilled lazily on retrieval)
+ALTER TABLE relationship_memory ADD COLUMN embedding BLOB;
+ALTER TABLE relationship_memory ADD COLUMN embedding_model TEXT;
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Memory Management: user-facing view/edit/forget controls
+-- Migration: 0010_memory_management.sql
+-- Purpose: Let users pin memories so their importance is kept as set
+
+-- 1 = importance_score was set by the user and must not be changed automatically
+ALTER TABLE relationship_memory ADD COLUMN pinned INTEGER DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_memory_user_type_created ON relationship_memory(user_id, memory_type, created_at DESC);
\ No newline at end of file
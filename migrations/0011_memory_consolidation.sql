@@ -0,0 +1,9 @@
+-- Memory Consolidation: scheduled merge, decay and summarization of memories
+-- Migration: 0011_memory_consolidation.sql
+-- Purpose: Track when a memory's importance was last decayed so decay is paced per run
+
+-- Last time the consolidation job lowered importance_score (NULL = never)
+ALTER TABLE relationship_memory ADD COLUMN decayed_at DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_memory_decay ON relationship_memory(pinned, last_referenced);
+CREATE INDEX IF NOT EXISTS idx_memory_user_created ON relationship_memory(user_id, created_at);
\ No newline at end of file
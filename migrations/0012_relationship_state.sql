@@ -0,0 +1,29 @@
+-- Relationship Stage Engine: persisted stage per user with engagement score
+-- Migration: 0012_relationship_state.sql
+-- Purpose: Track stage progression/regression over time instead of recomputing from fixed thresholds
+
+CREATE TABLE IF NOT EXISTS relationship_state (
+  user_id TEXT PRIMARY KEY,
+  stage TEXT NOT NULL DEFAULT 'new' CHECK (stage IN ('new', 'getting_to_know', 'close', 'intimate', 'long_term')),
+  score REAL DEFAULT 0, -- 0-100 engagement score at the last evaluation
+  signals TEXT, -- JSON snapshot of the signals behind the score
+  stage_changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_evaluated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- Every stage change, for the UI timeline and analytics
+CREATE TABLE IF NOT EXISTS relationship_stage_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  from_stage TEXT NOT NULL,
+  to_stage TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('progress', 'regress')),
+  score REAL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stage_history_user ON relationship_stage_history(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_session_role_created ON messages(session_id, role, created_at);
\ No newline at end of file
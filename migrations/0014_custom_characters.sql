@@ -0,0 +1,21 @@
+-- Custom Characters: user-built companions
+-- Migration: 0014_custom_characters.sql
+-- Purpose: Let users define their own companion and select it through sessions.persona
+
+CREATE TABLE IF NOT EXISTS custom_characters (
+  id TEXT PRIMARY KEY, -- char_* ids, stored in sessions.persona
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  age INTEGER NOT NULL CHECK (age >= 18 AND age <= 60),
+  hometown TEXT,
+  region TEXT CHECK (region IN ('north', 'central', 'south')), -- derived from hometown for Viet Vibes
+  traits TEXT, -- JSON array of personality traits
+  hobbies TEXT, -- JSON array of hobbies
+  backstory TEXT,
+  system_prompt TEXT NOT NULL, -- Compiled and content-filtered personality prompt
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_characters_user ON custom_characters(user_id, created_at);
\ No newline at end of file
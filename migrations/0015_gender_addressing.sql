@@ -0,0 +1,10 @@
+-- Gender-Aware Addressing: user gender, preferred form of address and companion gender
+-- Migration: 0015_gender_addressing.sql
+-- Purpose: Stop assuming a male user ("anh") in prompts, pronouns and canned replies
+
+ALTER TABLE user_profile ADD COLUMN user_gender TEXT DEFAULT 'unspecified' CHECK (user_gender IN ('male', 'female', 'other', 'unspecified'));
+ALTER TABLE user_profile ADD COLUMN address_form TEXT CHECK (address_form IN ('anh', 'chị', 'bạn', 'custom')); -- NULL: derive from genders
+ALTER TABLE user_profile ADD COLUMN address_nickname TEXT; -- Used when address_form = 'custom'
+
+ALTER TABLE personas ADD COLUMN companion_gender TEXT DEFAULT 'female' CHECK (companion_gender IN ('female', 'male'));
+ALTER TABLE custom_characters ADD COLUMN companion_gender TEXT DEFAULT 'female' CHECK (companion_gender IN ('female', 'male'));
\ No newline at end of file
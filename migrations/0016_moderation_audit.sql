@@ -0,0 +1,35 @@
+-- Moderation Audit: stored moderation decisions and operator review
+-- Migration: 0016_moderation_audit.sql
+-- Purpose: Tune the moderation pipeline from reviewed decisions instead of console warnings
+
+-- One row per soften/block decision
+CREATE TABLE IF NOT EXISTS moderation_decisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('input', 'output', 'character')),
+  action TEXT NOT NULL CHECK (action IN ('soften', 'block')),
+  categories TEXT NOT NULL, -- JSON array of flagged categories
+  scores TEXT NOT NULL, -- JSON category -> score (0-1)
+  matched_rules TEXT NOT NULL, -- JSON array: "lexicon:<category>:<term>" or "openai:<category>"
+  redacted_text TEXT, -- Flagged words masked, truncated
+  review_status TEXT NOT NULL DEFAULT 'pending' CHECK (review_status IN ('pending', 'confirmed', 'false_positive')),
+  review_note TEXT,
+  reviewed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Operator-approved phrases hidden from the lexicons, on top of the built-in allowlist
+CREATE TABLE IF NOT EXISTS moderation_allowlist (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  phrase TEXT NOT NULL UNIQUE, -- Normalized: lowercase, single spaces
+  note TEXT,
+  decision_id INTEGER, -- Reviewed decision that motivated the entry
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (decision_id) REFERENCES moderation_decisions(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_decisions_status_created ON moderation_decisions(review_status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_decisions_session ON moderation_decisions(session_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_decisions_created ON moderation_decisions(created_at);
\ No newline at end of file
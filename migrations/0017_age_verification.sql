@@ -0,0 +1,7 @@
+-- Age Verification: onboarding age gate and minor protection
+-- Migration: 0017_age_verification.sql
+-- Purpose: Record user age so under-18 users get a non-romantic companion, the strictest filter and no payments
+
+ALTER TABLE users ADD COLUMN birth_date TEXT; -- YYYY-MM-DD, entered at the age gate
+ALTER TABLE users ADD COLUMN age_group TEXT CHECK (age_group IN ('teen', 'young_adult', 'adult', 'elder')); -- NULL until verified; 'teen' = under 18
+ALTER TABLE users ADD COLUMN age_verified_at DATETIME;
\ No newline at end of file
@@ -0,0 +1,20 @@
+-- Voice Profiles: per-persona prosody for emotion-aware speech
+-- Migration: 0018_voice_profiles.sql
+-- Purpose: Let each persona sound different and shift prosody with the mood of the reply
+
+CREATE TABLE IF NOT EXISTS voice_profiles (
+  persona_id TEXT PRIMARY KEY, -- personas.id or a custom character's char_* id
+  pitch REAL DEFAULT 2.0 CHECK (pitch >= -20 AND pitch <= 20), -- Base pitch in semitones
+  volume_gain_db REAL DEFAULT 0.0 CHECK (volume_gain_db >= -96 AND volume_gain_db <= 16),
+  sentence_pause_ms INTEGER DEFAULT 300 CHECK (sentence_pause_ms >= 0 AND sentence_pause_ms <= 2000),
+  expressiveness REAL DEFAULT 0.6 CHECK (expressiveness >= 0 AND expressiveness <= 1), -- How strongly the mood shifts prosody
+  emoji_mode TEXT DEFAULT 'cue' CHECK (emoji_mode IN ('strip', 'cue')), -- 'cue' reads 😂 as "haha", 😘 as "chụt"...
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Built-in personas
+INSERT OR IGNORE INTO voice_profiles (persona_id, pitch, volume_gain_db, sentence_pause_ms, expressiveness, emoji_mode) VALUES
+('caring_girlfriend', 1.5, 0.0, 350, 0.6, 'cue'),
+('playful_girlfriend', 3.0, 1.0, 250, 0.9, 'cue'),
+('shy_girlfriend', 2.0, -2.0, 450, 0.4, 'strip');
\ No newline at end of file
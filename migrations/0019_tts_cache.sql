@@ -0,0 +1,31 @@
+-- TTS Cache: content-addressed synthesized audio
+-- Migration: 0019_tts_cache.sql
+-- Purpose: Reuse audio for identical replies instead of synthesizing them again
+
+-- One row per distinct (provider, voice, rate, prosody, text/SSML); audio lives in R2 or in the row
+CREATE TABLE IF NOT EXISTS tts_cache (
+  cache_key TEXT PRIMARY KEY, -- SHA-256 hex of the synthesis parameters
+  provider TEXT NOT NULL,
+  voice_id TEXT,
+  speaking_rate REAL,
+  mime_type TEXT NOT NULL,
+  extension TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  storage TEXT NOT NULL CHECK (storage IN ('r2', 'd1')),
+  audio BLOB, -- Only when storage = 'd1'
+  hit_count INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_accessed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Daily lookup counters for the hit rate
+CREATE TABLE IF NOT EXISTS tts_cache_stats (
+  day TEXT PRIMARY KEY, -- YYYY-MM-DD (UTC)
+  hits INTEGER DEFAULT 0,
+  misses INTEGER DEFAULT 0,
+  stores INTEGER DEFAULT 0,
+  evictions INTEGER DEFAULT 0,
+  evicted_bytes INTEGER DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_tts_cache_last_accessed ON tts_cache(last_accessed_at);
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- Audio Storage: owned reply audio with a D1 fallback when R2 isn't bound
+-- Migration: 0020_audio_storage.sql
+-- Purpose: Serve audio only to its owner via signed URLs and delete it with the chat history
+
+-- One row per stored audio file, whichever backend holds the bytes
+CREATE TABLE IF NOT EXISTS audio_objects (
+  object_key TEXT PRIMARY KEY, -- e.g. audio/1757230000000-abc123.mp3
+  user_id TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  storage TEXT NOT NULL CHECK (storage IN ('r2', 'd1')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Audio bytes split into fixed-size chunks when stored in D1
+CREATE TABLE IF NOT EXISTS audio_chunks (
+  object_key TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  data BLOB NOT NULL,
+
+  PRIMARY KEY (object_key, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_objects_user_created ON audio_objects(user_id, created_at);
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Audio Cache References: owned reply audio that reuses a TTS cache entry
+-- Migration: 0021_audio_cache_refs.sql
+-- Purpose: Serve cached replies through /audio without storing the bytes again for every user
+
+-- Set when the bytes live in tts_cache; such rows have no R2 object or audio_chunks of their own
+ALTER TABLE audio_objects ADD COLUMN cache_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audio_objects_cache_key ON audio_objects(cache_key);
\ No newline at end of file
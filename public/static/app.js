@@ -669,6 +669,19 @@ class AIGirlfriendApp {
     localStorage.setItem('speakingRate', speakingRate);
     localStorage.setItem('persona', persona);
     
+    // Voice replies use the settings stored on the server
+    if (this.sessionId) {
+      axios.put('/api/voice-settings', {
+        voiceId,
+        speakingRate: parseFloat(speakingRate)
+      }, {
+        headers: { 'X-Session-Id': this.sessionId }
+      }).catch((error) => {
+        console.error('Failed to save voice settings:', error);
+        this.showMessage(error.response?.data?.error || 'Không thể lưu cài đặt giọng nói');
+      });
+    }
+    
     // Update status display
     const personaNames = {
       'caring_girlfriend': 'Chế Độ Quan Tâm',
@@ -0,0 +1,34 @@
+import { Bindings } from './types';
+import { Logger } from './utils/logger';
+import { MemoryConsolidationService } from './services/memory-consolidation';
+import { UsageService } from './services/usage';
+
+// Cron Worker entry (see wrangler.cron.jsonc). Cloudflare Pages has no cron triggers,
+// so scheduled jobs run in this small companion Worker bound to the same D1 database.
+export async function runScheduledJobs(env: Bindings, cron: string): Promise<void> {
+  const sessionId = `cron_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  logger.info('Scheduled jobs started', { cron });
+
+  // Consolidate and decay relationship memories
+  try {
+    const consolidation = new MemoryConsolidationService(env, sessionId);
+    await consolidation.runConsolidation();
+  } catch (error) {
+    logger.error('Memory consolidation job failed', error);
+  }
+
+  // Close out yesterday's usage rollup and refresh today's
+  const usage = new UsageService(env, sessionId);
+  const today = new Date();
+  const yesterday = new Date(today.getTime() - 86_400_000);
+  await usage.rollupDailyUsage(yesterday.toISOString().substring(0, 10));
+  await usage.rollupDailyUsage(today.toISOString().substring(0, 10));
+}
+
+export default {
+  async scheduled(controller: ScheduledController, env: Bindings, ctx: ExecutionContext) {
+    ctx.waitUntil(runScheduledJobs(env, controller.cron));
+  }
+};
\ No newline at end of file
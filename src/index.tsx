@@ -13,6 +13,13 @@ import audio from './routes/audio';
 import subscription from './routes/subscription';
 import privateMode from './routes/private-mode';
 import zalo from './routes/zalo';
+import usage from './routes/usage';
+import memory from './routes/memory';
+import relationship from './routes/relationship';
+import personas from './routes/personas';
+import characters from './routes/characters';
+import moderation from './routes/moderation';
+import voiceSettings from './routes/voice-settings';
 
 // Import video call placeholder
 import { VideoCallManager, IMPLEMENTATION_ROADMAP } from './realtime/placeholder';
@@ -34,8 +41,8 @@ app.use('/api/*', cors({
     ];
     return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
   },
-  allowMethods: ['GET', 'POST', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-Session-Id'],
+  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Session-Id', 'X-User-Id'],
   maxAge: 3600
 }));
 
@@ -47,6 +54,13 @@ app.route('/api/message', message);   // Complete pipeline endpoint
 app.route('/api/subscription', subscription); // Subscription and payment endpoints
 app.route('/api/private', privateMode);       // Private mode and stealth features
 app.route('/api/zalo', zalo);         // Zalo Mini App integration
+app.route('/api/usage', usage);       // Token, speech and cost accounting
+app.route('/api/memory', memory);     // View, edit and forget stored memories
+app.route('/api/relationship', relationship); // Relationship stage and progress
+app.route('/api/personas', personas); // Persona registry listing
+app.route('/api/characters', characters); // User-created companion characters
+app.route('/api/moderation', moderation); // Operator review of moderation decisions
+app.route('/api/voice-settings', voiceSettings); // Session voice, speaking rate and language
 app.route('/audio', audio);           // Audio file serving
 
 // Video call placeholder endpoint
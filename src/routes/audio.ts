@@ -1,43 +1,77 @@
-import { Hono } from 'hono';
+import { Hono, Context } from 'hono';
 import { Bindings } from '../types';
+import { AudioStorageService } from '../services/audio-storage';
+import { ByteRange, parseRangeHeader } from '../utils/audio';
+import { verifyAudioSignature } from '../utils/audio-url';
 import { Logger } from '../utils/logger';
 
 const audio = new Hono<{ Bindings: Bindings }>();
 
-// Serve audio files from R2 storage
+// Every link is signed for one user and expires (see utils/audio-url); 403 otherwise
+async function rejectUnsigned(c: Context<{ Bindings: Bindings }>, path: string): Promise<Response | null> {
+  const check = await verifyAudioSignature(c.env, path, c.req.query());
+  if (check === 'valid') return null;
+
+  new Logger('audio-serve').warn('Rejected audio request', { path, check });
+  return c.json({ error: check === 'expired' ? 'Audio link expired' : 'Invalid audio link' }, 403);
+}
+
+// Whole file or a single byte range; browsers may only cache it until the link expires
+async function serveAudio(
+  c: Context<{ Bindings: Bindings }>,
+  size: number,
+  contentType: string,
+  read: (range?: ByteRange) => Promise<ReadableStream | ArrayBuffer | null>
+): Promise<Response> {
+  const range = parseRangeHeader(c.req.header('range'), size);
+
+  if (range === 'unsatisfiable') {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${size}`, 'Accept-Ranges': 'bytes' }
+    });
+  }
+
+  const body = await read(range ?? undefined);
+  if (!body) {
+    return c.notFound();
+  }
+
+  const maxAge = Math.max(0, parseInt(c.req.query('exp') || '0') - Math.floor(Date.now() / 1000));
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Content-Length': (range ? range.length : size).toString(),
+    'Cache-Control': `private, max-age=${maxAge}`,
+    'Accept-Ranges': 'bytes'
+  };
+
+  if (range) {
+    headers['Content-Range'] = `bytes ${range.offset}-${range.offset + range.length - 1}/${size}`;
+  }
+
+  return new Response(body, { status: range ? 206 : 200, headers });
+}
+
+// Serve reply audio (R2 or D1) to the user it belongs to
 audio.get('/:filename', async (c) => {
   const filename = c.req.param('filename');
   const logger = new Logger('audio-serve');
 
   try {
-    if (!filename) {
-      return c.notFound();
+    const rejected = await rejectUnsigned(c, filename);
+    if (rejected) {
+      return rejected;
     }
 
-    // Check if R2 is available
-    if (!c.env.R2) {
-      logger.warn('R2 storage not configured', { filename });
-      return c.notFound();
-    }
+    const storage = new AudioStorageService(c.env, 'audio-serve');
+    const object = await storage.getObject(filename);
 
-    // Get audio file from R2 storage
-    const audioKey = `audio/${filename}`;
-    const audioObject = await c.env.R2.get(audioKey);
-
-    if (!audioObject) {
+    if (!object || object.userId !== c.req.query('u')) {
       logger.warn('Audio file not found', { filename });
       return c.notFound();
     }
 
-    // Return audio stream with proper headers
-    return new Response(audioObject.body, {
-      headers: {
-        'Content-Type': audioObject.httpMetadata?.contentType || 'audio/mpeg',
-        'Content-Length': audioObject.size.toString(),
-        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
-        'Accept-Ranges': 'bytes'
-      }
-    });
+    return serveAudio(c, object.sizeBytes, object.contentType, range => storage.read(object, range));
 
   } catch (error) {
     logger.error('Error serving audio file', error);
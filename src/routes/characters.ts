@@ -0,0 +1,116 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { Bindings } from '../types';
+import { CustomCharacterService, CustomCharacter, CustomCharacterInput, CharacterValidationError } from '../services/custom-character';
+import { Logger } from '../utils/logger';
+
+const characters = new Hono<{ Bindings: Bindings }>();
+
+// Enable CORS for frontend requests
+characters.use('*', cors({
+  origin: (origin, c) => {
+    const allowedOrigins = c.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'];
+    return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+  },
+  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'x-user-id'],
+  maxAge: 3600
+}));
+
+// The compiled prompt stays server-side
+function toResponse(character: CustomCharacter) {
+  const { systemPrompt, ...publicFields } = character;
+  return publicFields;
+}
+
+// List the user's custom characters
+characters.get('/', async (c) => {
+  const sessionId = `characters_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const service = new CustomCharacterService(c.env, sessionId);
+    const list = await service.listCharacters(userId);
+
+    return c.json({ characters: list.map(toResponse) });
+
+  } catch (error) {
+    logger.error('Error listing custom characters', error);
+    return c.json({ error: 'Không thể lấy danh sách nhân vật' }, 500);
+  }
+});
+
+// Create a character; use its id as "persona" when starting a chat
+characters.post('/', async (c) => {
+  const sessionId = `characters_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const input = await c.req.json() as CustomCharacterInput;
+
+    const service = new CustomCharacterService(c.env, sessionId);
+    const character = await service.createCharacter(userId, input);
+
+    return c.json({ character: toResponse(character) }, 201);
+
+  } catch (error) {
+    if (error instanceof CharacterValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    logger.error('Error creating custom character', error);
+    return c.json({ error: 'Không thể tạo nhân vật' }, 500);
+  }
+});
+
+// Replace a character's definition
+characters.put('/:id', async (c) => {
+  const sessionId = `characters_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const input = await c.req.json() as CustomCharacterInput;
+
+    const service = new CustomCharacterService(c.env, sessionId);
+    const character = await service.updateCharacter(c.req.param('id'), userId, input);
+
+    if (!character) {
+      return c.json({ error: 'Không tìm thấy nhân vật' }, 404);
+    }
+
+    return c.json({ character: toResponse(character) });
+
+  } catch (error) {
+    if (error instanceof CharacterValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    logger.error('Error updating custom character', error);
+    return c.json({ error: 'Không thể cập nhật nhân vật' }, 500);
+  }
+});
+
+// Delete a character; its sessions continue with the default persona
+characters.delete('/:id', async (c) => {
+  const sessionId = `characters_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const service = new CustomCharacterService(c.env, sessionId);
+    const deleted = await service.deleteCharacter(c.req.param('id'), userId);
+
+    if (!deleted) {
+      return c.json({ error: 'Không tìm thấy nhân vật' }, 404);
+    }
+
+    return c.json({ success: true });
+
+  } catch (error) {
+    logger.error('Error deleting custom character', error);
+    return c.json({ error: 'Không thể xóa nhân vật' }, 500);
+  }
+});
+
+export default characters;
\ No newline at end of file
@@ -1,16 +1,43 @@
-import { Hono } from 'hono';
+import { Hono, Context } from 'hono';
 import { cors } from 'hono/cors';
-import { Bindings, ChatRequest, ChatResponse } from '../types';
-import { OpenAIClient } from '../services/openai';
+import { streamSSE } from 'hono/streaming';
+import { Bindings, ChatRequest, ChatResponse, Session, SubscriptionStatus } from '../types';
+import { OpenAIClient, MemoryAndVibesRequest } from '../services/openai';
+import { isLLMConfigured } from '../services/llm-provider';
+import { LLMExhaustedError } from '../services/llm-fallback';
 import { DatabaseService } from '../services/database';
 import { SubscriptionService } from '../services/subscription';
 import { MemoryPlusService } from '../services/memory-plus';
+import { RelationshipStageEngine } from '../services/relationship-stage';
 import { VietVibesService } from '../services/viet-vibes';
 import { StickerService } from '../services/sticker';
+import { Persona, PersonaRegistry, DEFAULT_PERSONA_ID } from '../services/persona';
+import { CrisisDetector, CrisisResponse } from '../services/crisis';
 import { Logger } from '../utils/logger';
+import { Addressing, DEFAULT_ADDRESSING, basePronouns, cannedReply } from '../utils/addressing';
+import { isMinor, minorProtectedBindings } from '../utils/age';
 
 const chat = new Hono<{ Bindings: Bindings }>();
 
+// Services and state shared by the JSON and streaming chat handlers
+interface ChatTurn {
+  userId: string;
+  sessionId: string;
+  logger: Logger;
+  session: Session;
+  persona: Persona;
+  addressing: Addressing;
+  crisis: CrisisResponse | null; // Set when the user's message shows self-harm or crisis risk
+  minor: boolean; // Under 18: friends-only companion and the strictest content filter
+  subscriptionStatus: SubscriptionStatus;
+  subService: SubscriptionService;
+  db: DatabaseService;
+  openai: OpenAIClient;
+  memoryService: MemoryPlusService;
+  stageEngine: RelationshipStageEngine;
+  vietVibesService: VietVibesService;
+}
+
 // Enable CORS for frontend requests
 chat.use('*', cors({
   origin: (origin, c) => {
@@ -22,233 +49,446 @@ chat.use('*', cors({
   maxAge: 3600
 }));
 
-chat.post('/', async (c) => {
-  let sessionId = 'anonymous';
-  
+// Validate the request, check subscription, resolve the session and save the user message.
+// Returns a Response when the request must be rejected; crisis messages are never rejected.
+async function startChatTurn(
+  c: Context<{ Bindings: Bindings }>,
+  body: ChatRequest,
+  userId: string,
+  requestedSessionId: string
+): Promise<ChatTurn | Response> {
+  let sessionId = requestedSessionId;
+  const logger = new Logger(sessionId);
+
+  // Validate input
+  if (!body.text || body.text.trim().length === 0) {
+    logger.warn('Empty message received');
+    return c.json({ error: 'Tin nhắn không được để trống' }, 400);
+  }
+
+  if (body.text.length > 1000) {
+    logger.warn('Message too long', { length: body.text.length });
+    return c.json({ error: 'Tin nhắn quá dài (tối đa 1000 ký tự)' }, 400);
+  }
+
+  // Crisis language skips the persona and subscription gates and doesn't use up a free message
+  const crisisDetector = new CrisisDetector(sessionId);
+  const inCrisis = crisisDetector.detect(body.text).level !== 'none';
+
+  // Requested persona must be an active persona or one of the user's own characters
+  const personaRegistry = new PersonaRegistry(c.env, sessionId);
+  if (!inCrisis && body.persona && !(await personaRegistry.isValidPersona(body.persona, userId))) {
+    logger.warn('Unknown persona requested', { persona: body.persona });
+    return c.json({ error: 'Tính cách không hợp lệ' }, 400);
+  }
+
+  // Initialize services; under-18 users always get the strictest content filter
+  const subService = new SubscriptionService(c.env, userId);
+  const minor = isMinor(await subService.getAgeGroup(userId));
+  const openai = new OpenAIClient(minor ? minorProtectedBindings(c.env) : c.env, sessionId);
+  const db = new DatabaseService(c.env, sessionId);
+  const memoryService = new MemoryPlusService(c.env, sessionId);
+  const stageEngine = new RelationshipStageEngine(c.env, sessionId);
+  const vietVibesService = new VietVibesService(c.env, sessionId);
+
+  // Check subscription status (bypass for demo)
+  let subscriptionStatus: SubscriptionStatus;
   try {
-    const body = await c.req.json() as ChatRequest;
-    const userId = c.req.header('x-user-id') || 'anonymous';
-    sessionId = body.sessionId || `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-    
-    const logger = new Logger(sessionId);
+    subscriptionStatus = await subService.getSubscriptionStatus(userId);
 
-    // Validate input
-    if (!body.text || body.text.trim().length === 0) {
-      logger.warn('Empty message received');
-      return c.json({ error: 'Tin nhắn không được để trống' }, 400);
+    if (!subscriptionStatus.canChat && !inCrisis) {
+      logger.warn('User cannot chat - subscription limit reached', { userId });
+      return c.json({
+        error: 'Bạn đã hết lượt tin nhắn miễn phí',
+        needsPayment: true,
+        showPaywall: true,
+        messagesLeft: 0,
+        subscriptionStatus
+      }, 403);
     }
+  } catch (error) {
+    // Fallback: Allow chat if subscription service fails
+    logger.warn('Subscription service failed, allowing chat', error);
+    subscriptionStatus = {
+      canChat: true,
+      messagesLeft: 10,
+      subscriptionType: 'free',
+      needsPayment: false,
+      showPaywall: false
+    };
+  }
 
-    if (body.text.length > 1000) {
-      logger.warn('Message too long', { length: body.text.length });
-      return c.json({ error: 'Tin nhắn quá dài (tối đa 1000 ký tự)' }, 400);
-    }
+  logger.info('Processing chat request', {
+    userId,
+    textLength: body.text.length,
+    persona: body.persona || DEFAULT_PERSONA_ID,
+    messagesLeft: subscriptionStatus.messagesLeft
+  });
 
-    // Initialize services
-    const subService = new SubscriptionService(c.env, userId);
-    const openai = new OpenAIClient(c.env, sessionId);
-    const db = new DatabaseService(c.env, sessionId);
-    const memoryService = new MemoryPlusService(c.env, sessionId);
-    const vietVibesService = new VietVibesService(c.env, sessionId);
+  // Get or create session (with error handling)
+  let session: Session | null;
+  const requestedPersona = await personaRegistry.resolvePersona(body.persona, userId);
+  try {
+    session = await db.getSession(sessionId);
+    if (!session) {
+      session = await db.createSession(userId, requestedPersona.id, {
+        voiceId: requestedPersona.ttsVoice,
+        speakingRate: requestedPersona.speakingRate
+      });
+      sessionId = session.id;
+    }
+  } catch (error) {
+    logger.warn('Database session error, using fallback', error);
+    // Fallback session
+    session = {
+      id: sessionId || `session_${Date.now()}`,
+      user_id: userId,
+      persona: requestedPersona.id,
+      created_at: new Date().toISOString(),
+      last_active: new Date().toISOString()
+    };
+    sessionId = session.id;
+  }
+  const persona = await personaRegistry.resolvePersona(session.persona, userId);
+  const addressing = await memoryService.getAddressing(userId, persona.companionGender);
 
-    // Check subscription status (bypass for demo)
-    let subscriptionStatus;
-    try {
-      subscriptionStatus = await subService.getSubscriptionStatus(userId);
-      
-      if (!subscriptionStatus.canChat) {
-        logger.warn('User cannot chat - subscription limit reached', { userId });
-        return c.json({
-          error: 'Bạn đã hết lượt tin nhắn miễn phí',
-          needsPayment: true,
-          showPaywall: true,
-          messagesLeft: 0,
-          subscriptionStatus
-        }, 403);
-      }
-    } catch (error) {
-      // Fallback: Allow chat if subscription service fails
-      logger.warn('Subscription service failed, allowing chat', error);
-      subscriptionStatus = {
-        canChat: true,
-        messagesLeft: 10,
-        subscriptionType: 'free',
-        needsPayment: false,
-        showPaywall: false
-      };
+  // Increment message count for free users (with error handling)
+  try {
+    if (subscriptionStatus.subscriptionType === 'free' && !inCrisis) {
+      await subService.incrementMessageCount(userId);
     }
+  } catch (error) {
+    logger.warn('Failed to increment message count', error);
+  }
+
+  // Save user message (with error handling)
+  try {
+    await db.saveMessage(sessionId, body.text, 'user');
+  } catch (error) {
+    logger.warn('Failed to save user message', error);
+  }
 
-    logger.info('Processing chat request', { 
+  // Crisis language bypasses the persona and generation for a safe-response script
+  const crisis = inCrisis ? crisisDetector.assess(body.text, addressing) : null;
+  if (crisis) {
+    await db.logEvent(sessionId, 'crisis_detected', {
       userId,
-      textLength: body.text.length,
-      persona: body.persona || 'caring_girlfriend',
-      messagesLeft: subscriptionStatus.messagesLeft
+      level: crisis.level,
+      signals: crisis.signals
     });
+  }
 
-    // Get or create session (with error handling)
-    let session;
-    try {
-      session = await db.getSession(sessionId);
-      if (!session) {
-        session = await db.createSession(userId, body.persona || 'caring_girlfriend');
-        sessionId = session.id;
-      }
-    } catch (error) {
-      logger.warn('Database session error, using fallback', error);
-      // Fallback session
-      session = {
-        id: sessionId || `session_${Date.now()}`,
-        user_id: userId,
-        persona: body.persona || 'caring_girlfriend',
-        created_at: new Date().toISOString(),
-        last_active: new Date().toISOString()
-      };
-      sessionId = session.id;
-    }
+  // Check LLM provider credentials (the crisis script doesn't need them)
+  if (!crisis && !isLLMConfigured(c.env)) {
+    logger.error('OpenAI API key not configured');
+    throw new Error('OpenAI API key missing');
+  }
 
-    // Increment message count for free users (with error handling)
-    try {
-      if (subscriptionStatus.subscriptionType === 'free') {
-        await subService.incrementMessageCount(userId);
+  return {
+    userId,
+    sessionId,
+    logger,
+    session,
+    persona,
+    addressing,
+    crisis,
+    minor,
+    subscriptionStatus,
+    subService,
+    db,
+    openai,
+    memoryService,
+    stageEngine,
+    vietVibesService
+  };
+}
+
+// Run Viet Vibes analysis and Memory Plus bookkeeping ahead of generation.
+// Memories are extracted once per turn, after the reply (see processConversationForMemories).
+async function prepareEnhancedRequest(turn: ChatTurn, text: string): Promise<MemoryAndVibesRequest> {
+  // Analyze Vietnamese linguistic patterns in user input
+  const vietAnalysis = await turn.vietVibesService.analyzeVietnamesePatterns(text, turn.userId);
+
+  // Update relationship stage
+  const relationshipStage = await turn.stageEngine.updateStage(turn.sessionId, turn.userId);
+
+  // Update Viet Vibes preferences based on detected patterns
+  await turn.vietVibesService.updatePreferencesFromUsage(turn.userId, vietAnalysis);
+
+  return {
+    text,
+    sessionId: turn.sessionId,
+    persona: turn.session.persona,
+    userId: turn.userId,
+    memoryService: turn.memoryService,
+    vietVibesService: turn.vietVibesService,
+    relationshipStage,
+    vietAnalysis,
+    addressing: turn.addressing,
+    minor: turn.minor
+  };
+}
+
+// Memory extraction makes its own LLM and embedding calls, so it finishes after the response is sent.
+// Outside Workers there is no execution context and the promise is left to settle on its own.
+function extractMemoriesAfterResponse(c: Context<{ Bindings: Bindings }>, turn: ChatTurn, text: string, reply: string): void {
+  const extraction = turn.memoryService.processConversationForMemories(turn.userId, text, reply);
+  try {
+    c.executionCtx.waitUntil(extraction);
+  } catch {
+    // No execution context
+  }
+}
+
+// Attach a sticker (never on crisis replies), persist the reply, log analytics and refresh subscription status
+async function finishChatTurn(
+  turn: ChatTurn,
+  userText: string,
+  reply: string,
+  analytics: Record<string, unknown> = {}
+) {
+  const { logger, db, subService, sessionId, userId } = turn;
+
+  // Check if AI should send a sticker with the response
+  let stickerUrl: string | null = null;
+  try {
+    const stickerService = new StickerService();
+    if (!turn.crisis && stickerService.shouldSendSticker(reply)) {
+      const sticker = await stickerService.findStickerForMessage(reply, turn.persona.stickerPack);
+      if (sticker) {
+        stickerUrl = sticker.file;
+        logger.info('Adding sticker to response', { sticker: sticker.id });
       }
-    } catch (error) {
-      logger.warn('Failed to increment message count', error);
     }
+  } catch (error) {
+    logger.warn('Failed to process sticker', error);
+  }
 
-    // Save user message (with error handling)
-    try {
-      await db.saveMessage(sessionId, body.text, 'user');
-    } catch (error) {
-      logger.warn('Failed to save user message', error);
+  // Save assistant message (with error handling)
+  try {
+    await db.saveMessage(sessionId, reply, 'assistant', 'text', stickerUrl || undefined);
+  } catch (error) {
+    logger.warn('Failed to save assistant message', error);
+  }
+
+  // Log analytics (with error handling)
+  try {
+    await db.logEvent(sessionId, 'chat_message', {
+      userId,
+      userMessageLength: userText.length,
+      assistantMessageLength: reply.length,
+      persona: turn.session.persona,
+      subscriptionType: turn.subscriptionStatus.subscriptionType,
+      crisisLevel: turn.crisis?.level,
+      ...analytics
+    });
+  } catch (error) {
+    logger.warn('Failed to log analytics', error);
+  }
+
+  // Get updated subscription status (with error handling)
+  let newStatus = turn.subscriptionStatus;
+  try {
+    newStatus = await subService.getSubscriptionStatus(userId);
+  } catch (error) {
+    logger.warn('Failed to get updated subscription status', error);
+  }
+
+  logger.info('Chat completed successfully', {
+    responseLength: reply.length,
+    newMessagesLeft: newStatus.messagesLeft
+  });
+
+  return {
+    reply,
+    sessionId,
+    subscriptionStatus: newStatus,
+    showPaywall: newStatus.showPaywall,
+    stickerUrl,
+    ...(turn.crisis && { crisis: { level: turn.crisis.level, hotlines: turn.crisis.hotlines } })
+  };
+}
+
+chat.post('/', async (c) => {
+  let sessionId = 'anonymous';
+  const userId = c.req.header('x-user-id') || 'anonymous';
+  let addressing = DEFAULT_ADDRESSING;
+
+  try {
+    const body = await c.req.json() as ChatRequest;
+    sessionId = body.sessionId || `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+    const turn = await startChatTurn(c, body, userId, sessionId);
+    if (turn instanceof Response) {
+      return turn;
     }
+    sessionId = turn.sessionId;
+    addressing = turn.addressing;
+    const { logger, openai } = turn;
 
-    // Check OpenAI API key
-    if (!c.env.OPENAI_API_KEY) {
-      logger.error('OpenAI API key not configured');
-      throw new Error('OpenAI API key missing');
+    if (turn.crisis) {
+      return c.json(await finishChatTurn(turn, body.text, turn.crisis.reply));
     }
 
     // Generate AI response with Memory Plus + Viet Vibes enhancement
-    let chatResponse;
+    let chatResponse: ChatResponse;
     try {
-      // Analyze Vietnamese linguistic patterns in user input
-      const vietAnalysis = await vietVibesService.analyzeVietnamesePatterns(body.text, userId);
-      
-      // Process conversation for memories (extract important info from user message)
-      await memoryService.processConversationForMemories(userId, body.text, '');
-      
-      // Update relationship stage
-      const relationshipStage = await memoryService.updateRelationshipStage(sessionId, userId);
-      
-      // Update Viet Vibes preferences based on detected patterns
-      await vietVibesService.updatePreferencesFromUsage(userId, vietAnalysis);
-      
+      const enhancedRequest = await prepareEnhancedRequest(turn, body.text);
+
       // Generate Viet Vibes + Memory enhanced response
-      chatResponse = await openai.generateResponseWithMemoryAndVibes({
-        text: body.text,
-        sessionId: sessionId,
-        persona: session.persona,
-        userId: userId,
-        memoryService: memoryService,
-        vietVibesService: vietVibesService,
-        relationshipStage: relationshipStage,
-        vietAnalysis: vietAnalysis
-      });
-      
+      chatResponse = await openai.generateResponseWithMemoryAndVibes(enhancedRequest);
+
       // After AI response, store any new memories from the conversation
-      await memoryService.processConversationForMemories(userId, body.text, chatResponse.reply);
-      
+      extractMemoriesAfterResponse(c, turn, body.text, chatResponse.reply);
+
       logger.info('Memory Plus + Viet Vibes enhanced response', {
-        relationshipStage,
+        relationshipStage: enhancedRequest.relationshipStage,
         memoriesUsed: true,
-        vietRegion: vietAnalysis.detectedRegion,
-        emotionalTone: vietAnalysis.emotionalTone,
-        culturalRefs: vietAnalysis.culturalReferences.length
+        vietRegion: enhancedRequest.vietAnalysis.detectedRegion,
+        emotionalTone: enhancedRequest.vietAnalysis.emotionalTone,
+        culturalRefs: enhancedRequest.vietAnalysis.culturalReferences.length
       });
-      
+
     } catch (enhancementError) {
-      logger.warn('Enhanced services failed, falling back to basic response', enhancementError);
-      
-      // Fallback to basic response if enhanced services fail
-      chatResponse = await openai.generateResponse({
-        text: body.text,
-        sessionId: sessionId,
-        persona: session.persona
-      });
-    }
+      if (enhancementError instanceof LLMExhaustedError) {
+        // Every model in the fallback chain already failed; don't hit them again
+        logger.warn('LLM providers exhausted, returning canned reply', enhancementError);
+        chatResponse = openai.technicalDifficultyResponse(sessionId, turn.addressing);
+      } else {
+        logger.warn('Enhanced services failed, falling back to basic response', enhancementError);
 
-    // Check if AI should send a sticker with the response
-    let stickerUrl = null;
-    try {
-      const stickerService = new StickerService();
-      if (stickerService.shouldSendSticker(chatResponse.reply)) {
-        const sticker = await stickerService.findStickerForMessage(chatResponse.reply);
-        if (sticker) {
-          stickerUrl = sticker.file;
-          logger.info('Adding sticker to response', { sticker: sticker.id });
-        }
+        // Fallback to basic response if enhanced services fail
+        chatResponse = await openai.generateResponse({
+          text: body.text,
+          sessionId: sessionId,
+          persona: turn.session.persona,
+          userId,
+          addressing: turn.addressing,
+          minor: turn.minor
+        });
       }
-    } catch (error) {
-      logger.warn('Failed to process sticker', error);
     }
 
-    // Save assistant message (with error handling)
-    try {
-      await db.saveMessage(sessionId, chatResponse.reply, 'assistant', 'text', stickerUrl);
-    } catch (error) {
-      logger.warn('Failed to save assistant message', error);
-    }
-
-    // Log analytics (with error handling)
-    try {
-      await db.logEvent(sessionId, 'chat_message', {
-        userId,
-        userMessageLength: body.text.length,
-        assistantMessageLength: chatResponse.reply.length,
-        persona: session.persona,
-        subscriptionType: subscriptionStatus.subscriptionType
-      });
-    } catch (error) {
-      logger.warn('Failed to log analytics', error);
-    }
-
-    // Get updated subscription status (with error handling)
-    let newStatus = subscriptionStatus;
-    try {
-      newStatus = await subService.getSubscriptionStatus(userId);
-    } catch (error) {
-      logger.warn('Failed to get updated subscription status', error);
-    }
-
-    const response = {
-      reply: chatResponse.reply,
-      sessionId: sessionId,
-      subscriptionStatus: newStatus,
-      showPaywall: newStatus.showPaywall,
-      stickerUrl: stickerUrl
-    };
-
-    logger.info('Chat completed successfully', {
-      responseLength: chatResponse.reply.length,
-      newMessagesLeft: newStatus.messagesLeft
-    });
-
+    const response = await finishChatTurn(turn, body.text, chatResponse.reply);
     return c.json(response);
 
   } catch (error) {
     const logger = new Logger(sessionId);
     logger.error('Chat endpoint error', {
-      error: error.message,
-      stack: error.stack,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
       userId
     });
-    
+
     // Return user-friendly error message
-    return c.json({ 
-      error: 'Em đang gặp khó khăn trong việc phản hồi. Anh thử lại nhé! 💕',
-      reply: 'Xin lỗi anh, em gặp sự cố. Anh gửi lại tin nhắn được không! ❤️',
+    return c.json({
+      error: cannedReply('chat_error', basePronouns(addressing)),
+      reply: cannedReply('chat_error_reply', basePronouns(addressing)),
+      sessionId: sessionId
+    }, 500);
+  }
+});
+
+// Streaming variant: emits `token` events as the reply is generated, `reset` if the
+// content filter replaced the streamed text, and a final `done` event whose `reply`
+// is authoritative (it includes Vietnamese post-processing).
+chat.post('/stream', async (c) => {
+  let sessionId = 'anonymous';
+  const userId = c.req.header('x-user-id') || 'anonymous';
+
+  let body: ChatRequest;
+  let turn: ChatTurn | Response;
+  try {
+    body = await c.req.json() as ChatRequest;
+    sessionId = body.sessionId || `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+    turn = await startChatTurn(c, body, userId, sessionId);
+    if (turn instanceof Response) {
+      return turn;
+    }
+  } catch (error) {
+    const logger = new Logger(sessionId);
+    logger.error('Chat stream endpoint error', error);
+    return c.json({
+      error: cannedReply('chat_error', basePronouns(DEFAULT_ADDRESSING)),
+      reply: cannedReply('chat_error_reply', basePronouns(DEFAULT_ADDRESSING)),
       sessionId: sessionId
     }, 500);
   }
+
+  const chatTurn = turn;
+  const { logger, openai } = chatTurn;
+
+  return streamSSE(c, async (stream) => {
+    if (chatTurn.crisis) {
+      const response = await finishChatTurn(chatTurn, body.text, chatTurn.crisis.reply);
+      await stream.writeSSE({ event: 'done', data: JSON.stringify(response) });
+      return;
+    }
+
+    let reply: string;
+    let filtered = false;
+    let streamedTokens = 0;
+
+    try {
+      const enhancedRequest = await prepareEnhancedRequest(chatTurn, body.text);
+
+      const streamed = await openai.streamResponseWithMemoryAndVibes(enhancedRequest, async (token) => {
+        streamedTokens++;
+        await stream.writeSSE({ event: 'token', data: JSON.stringify({ text: token }) });
+      });
+      reply = streamed.reply;
+      filtered = streamed.filtered;
+
+      if (filtered && streamedTokens > 0) {
+        await stream.writeSSE({ event: 'reset', data: JSON.stringify({ reply }) });
+      }
+
+      // After AI response, store any new memories from the conversation
+      extractMemoriesAfterResponse(c, chatTurn, body.text, reply);
+
+    } catch (enhancementError) {
+      let chatResponse: ChatResponse;
+      if (enhancementError instanceof LLMExhaustedError) {
+        logger.warn('LLM providers exhausted, returning canned reply', enhancementError);
+        chatResponse = openai.technicalDifficultyResponse(chatTurn.sessionId, chatTurn.addressing);
+      } else {
+        logger.warn('Streaming enhanced response failed, falling back to basic response', enhancementError);
+
+        // Fallback to a complete basic response sent in one piece
+        chatResponse = await openai.generateResponse({
+          text: body.text,
+          sessionId: chatTurn.sessionId,
+          persona: chatTurn.session.persona,
+          userId,
+          addressing: chatTurn.addressing,
+          minor: chatTurn.minor
+        });
+      }
+      reply = chatResponse.reply;
+
+      if (streamedTokens > 0) {
+        await stream.writeSSE({ event: 'reset', data: JSON.stringify({ reply }) });
+      }
+    }
+
+    const response = await finishChatTurn(chatTurn, body.text, reply, {
+      streamed: true,
+      filtered
+    });
+    await stream.writeSSE({ event: 'done', data: JSON.stringify(response) });
+
+  }, async (error, stream) => {
+    logger.error('Chat stream error', error);
+    await stream.writeSSE({
+      event: 'error',
+      data: JSON.stringify({
+        error: cannedReply('chat_error', basePronouns(chatTurn.addressing)),
+        reply: cannedReply('chat_error_reply', basePronouns(chatTurn.addressing)),
+        sessionId: chatTurn.sessionId
+      })
+    });
+  });
 });
 
 export default chat;
\ No newline at end of file
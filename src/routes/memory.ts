@@ -0,0 +1,255 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { Bindings } from '../types';
+import { MemoryPlusService, RelationshipMemory } from '../services/memory-plus';
+import { PrivateModeService } from '../services/private-mode';
+import { Logger } from '../utils/logger';
+import { AddressForm, UserGender, ADDRESS_FORMS, USER_GENDERS } from '../utils/addressing';
+
+const memory = new Hono<{ Bindings: Bindings }>();
+
+const MEMORY_TYPES: RelationshipMemory['memory_type'][] = ['personal', 'preference', 'event', 'emotion', 'milestone'];
+
+// Enable CORS for frontend requests
+memory.use('*', cors({
+  origin: (origin, c) => {
+    const allowedOrigins = c.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'];
+    return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+  },
+  allowMethods: ['GET', 'PUT', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'x-user-id'],
+  maxAge: 3600
+}));
+
+function parseMemoryId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) || id <= 0 ? null : id;
+}
+
+// List stored memories (optionally ?type=personal|preference|event|emotion|milestone) and the profile
+memory.get('/', async (c) => {
+  const sessionId = `memory_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const type = c.req.query('type') as RelationshipMemory['memory_type'] | undefined;
+
+    if (type && !MEMORY_TYPES.includes(type)) {
+      return c.json({ error: `Loại ký ức không hợp lệ. Hỗ trợ: ${MEMORY_TYPES.join(', ')}` }, 400);
+    }
+
+    const memoryService = new MemoryPlusService(c.env, sessionId);
+    const privateModeService = new PrivateModeService(c.env, sessionId);
+
+    const memories = await memoryService.listMemories(userId, type);
+    const profile = await memoryService.getUserProfile(userId);
+
+    await privateModeService.logPrivacyEvent(userId, 'memory_view', {
+      memoryType: type || 'all',
+      count: memories.length
+    });
+
+    return c.json({ memories, profile, types: MEMORY_TYPES });
+
+  } catch (error) {
+    logger.error('Error listing memories', error);
+    return c.json({ error: 'Không thể lấy danh sách ký ức' }, 500);
+  }
+});
+
+// Set the user's gender and how the companion should address them (anh/chị/bạn/custom nickname)
+memory.put('/profile', async (c) => {
+  const sessionId = `memory_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const { gender, addressForm, nickname } = await c.req.json() as {
+      gender?: UserGender,
+      addressForm?: AddressForm | null,
+      nickname?: string | null
+    };
+
+    if (gender !== undefined && !USER_GENDERS.includes(gender)) {
+      return c.json({ error: `Giới tính không hợp lệ. Hỗ trợ: ${USER_GENDERS.join(', ')}` }, 400);
+    }
+
+    if (addressForm !== undefined && addressForm !== null && !ADDRESS_FORMS.includes(addressForm)) {
+      return c.json({ error: `Cách xưng hô không hợp lệ. Hỗ trợ: ${ADDRESS_FORMS.join(', ')}` }, 400);
+    }
+
+    // The nickname goes into the prompt, so keep it to one plain line
+    const cleanNickname = typeof nickname === 'string'
+      ? nickname.replace(/[\u0000-\u001f"]/g, ' ').replace(/\s+/g, ' ').trim()
+      : null;
+    if (addressForm === 'custom' && (!cleanNickname || cleanNickname.length > 30)) {
+      return c.json({ error: 'Biệt danh phải từ 1 đến 30 ký tự' }, 400);
+    }
+
+    const memoryService = new MemoryPlusService(c.env, sessionId);
+    const privateModeService = new PrivateModeService(c.env, sessionId);
+
+    // A nickname only applies to the custom form; choosing another form clears it
+    let storedNickname: string | null | undefined;
+    if (addressForm === 'custom') {
+      storedNickname = cleanNickname;
+    } else if (addressForm !== undefined) {
+      storedNickname = null;
+    }
+
+    await memoryService.updateAddressing(userId, {
+      userGender: gender,
+      addressForm,
+      nickname: storedNickname
+    });
+
+    await privateModeService.logPrivacyEvent(userId, 'memory_edit', {
+      field: 'addressing',
+      gender,
+      addressForm
+    });
+
+    const profile = await memoryService.getUserProfile(userId);
+    return c.json({ success: true, profile });
+
+  } catch (error) {
+    logger.error('Error updating addressing preferences', error);
+    return c.json({ error: 'Không thể cập nhật cách xưng hô' }, 500);
+  }
+});
+
+// Correct the content of one memory
+memory.put('/:id', async (c) => {
+  const sessionId = `memory_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const memoryId = parseMemoryId(c.req.param('id'));
+    const { content } = await c.req.json() as { content?: string };
+
+    if (!memoryId) {
+      return c.json({ error: 'ID ký ức không hợp lệ' }, 400);
+    }
+
+    if (!content || content.trim().length === 0 || content.length > 300) {
+      return c.json({ error: 'Nội dung ký ức phải từ 1 đến 300 ký tự' }, 400);
+    }
+
+    const memoryService = new MemoryPlusService(c.env, sessionId);
+    const privateModeService = new PrivateModeService(c.env, sessionId);
+
+    const updated = await memoryService.updateMemory(memoryId, userId, { content: content.trim() });
+    if (!updated) {
+      return c.json({ error: 'Không tìm thấy ký ức' }, 404);
+    }
+
+    await privateModeService.logPrivacyEvent(userId, 'memory_edit', { memoryId });
+
+    logger.info('Memory edited by user', { userId, memoryId });
+    return c.json({ success: true });
+
+  } catch (error) {
+    logger.error('Error editing memory', error);
+    return c.json({ error: 'Không thể sửa ký ức' }, 500);
+  }
+});
+
+// Pin a memory at a fixed importance (default 10), or unpin it
+memory.put('/:id/pin', async (c) => {
+  const sessionId = `memory_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const memoryId = parseMemoryId(c.req.param('id'));
+    const { pinned = true, importance } = await c.req.json() as { pinned?: boolean, importance?: number };
+
+    if (!memoryId) {
+      return c.json({ error: 'ID ký ức không hợp lệ' }, 400);
+    }
+
+    if (importance !== undefined && (!Number.isInteger(importance) || importance < 1 || importance > 10)) {
+      return c.json({ error: 'Mức độ quan trọng phải là số nguyên từ 1 đến 10' }, 400);
+    }
+
+    const memoryService = new MemoryPlusService(c.env, sessionId);
+    const privateModeService = new PrivateModeService(c.env, sessionId);
+
+    const updated = await memoryService.setMemoryPinned(memoryId, userId, Boolean(pinned), importance);
+    if (!updated) {
+      return c.json({ error: 'Không tìm thấy ký ức' }, 404);
+    }
+
+    await privateModeService.logPrivacyEvent(userId, 'memory_pin', {
+      memoryId,
+      pinned: Boolean(pinned),
+      importance
+    });
+
+    logger.info('Memory pin changed by user', { userId, memoryId, pinned });
+    return c.json({ success: true });
+
+  } catch (error) {
+    logger.error('Error pinning memory', error);
+    return c.json({ error: 'Không thể ghim ký ức' }, 500);
+  }
+});
+
+// Delete one memory
+memory.delete('/:id', async (c) => {
+  const sessionId = `memory_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const memoryId = parseMemoryId(c.req.param('id'));
+
+    if (!memoryId) {
+      return c.json({ error: 'ID ký ức không hợp lệ' }, 400);
+    }
+
+    const memoryService = new MemoryPlusService(c.env, sessionId);
+    const privateModeService = new PrivateModeService(c.env, sessionId);
+
+    const deleted = await memoryService.deleteMemory(memoryId, userId);
+    if (!deleted) {
+      return c.json({ error: 'Không tìm thấy ký ức' }, 404);
+    }
+
+    await privateModeService.logPrivacyEvent(userId, 'memory_delete', { memoryId });
+
+    logger.info('Memory deleted by user', { userId, memoryId });
+    return c.json({ success: true });
+
+  } catch (error) {
+    logger.error('Error deleting memory', error);
+    return c.json({ error: 'Không thể xóa ký ức' }, 500);
+  }
+});
+
+// Forget everything: all memories, the profile and conversation summaries
+memory.delete('/', async (c) => {
+  const sessionId = `memory_${Date.now()}`;
+  const logger = new Logger(sessionId);
+
+  try {
+    const userId = c.req.header('x-user-id') || 'anonymous';
+    const memoryService = new MemoryPlusService(c.env, sessionId);
+    const privateModeService = new PrivateModeService(c.env, sessionId);
+
+    const removed = await memoryService.forgetAll(userId);
+
+    await privateModeService.logPrivacyEvent(userId, 'memory_forget_all', removed, 'medium');
+
+    logger.info('All memories forgotten by user', { userId, ...removed });
+    return c.json({ success: true, removed });
+
+  } catch (error) {
+    logger.error('Error forgetting memories', error);
+    return c.json({ error: 'Không thể xóa toàn bộ ký ức' }, 500);
+  }
+});
+
+export default memory;
\ No newline at end of file
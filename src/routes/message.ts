@@ -1,167 +1,545 @@
-import { Hono } from 'hono';
+import { Hono, Context } from 'hono';
 import { cors } from 'hono/cors';
-import { Bindings, MessageRequest, MessageResponse } from '../types';
+import { streamSSE } from 'hono/streaming';
+import { Bindings, MessageRequest, MessageResponse, TTSRequest, VoiceProfile } from '../types';
 import { OpenAIClient } from '../services/openai';
-import { GoogleCloudClient } from '../services/google-cloud';
+import { TextToSpeechProvider, UnsupportedAudioError, createSpeechToTextProvider, createTextToSpeechProvider } from '../services/speech-provider';
 import { DatabaseService } from '../services/database';
+import { UsageService } from '../services/usage';
+import { PersonaRegistry } from '../services/persona';
+import { MemoryPlusService } from '../services/memory-plus';
+import { SubscriptionService } from '../services/subscription';
+import { CrisisDetector, CrisisResponse } from '../services/crisis';
+import { VietVibesService } from '../services/viet-vibes';
+import { VoiceSettingsService } from '../services/voice-settings';
+import { TTSCacheService } from '../services/tts-cache';
+import { AudioStorageService } from '../services/audio-storage';
+import { DEFAULT_VOICE_PROFILE, SpeechMood, buildSpeech, detectSpeechMood, profileAudioConfig } from '../services/prosody';
 import { Logger } from '../utils/logger';
-import { isValidAudioFormat, validateAudioSize, generateAudioFilename } from '../utils/audio';
+import { Addressing, DEFAULT_ADDRESSING, basePronouns, cannedReply } from '../utils/addressing';
+import { isMinor, minorProtectedBindings } from '../utils/age';
+import { isValidAudioFormat, validateAudioSize, getAudioDuration, getMaxRecordingSeconds, parseAudioMetadata, concatAudioSegments } from '../utils/audio';
+import { splitIntoSentences } from '../utils/sentences';
+import { createSignedAudioUrl } from '../utils/audio-url';
 
 const message = new Hono<{ Bindings: Bindings }>();
 
+// Services and state shared by the JSON and streaming message handlers
+interface MessageTurn {
+  sessionId: string;
+  userId: string;
+  logger: Logger;
+  db: DatabaseService;
+  usage: UsageService;
+  textToSpeech: TextToSpeechProvider;
+  userText: string;
+  inputType: 'voice' | 'text';
+  reply: string;
+  crisis: CrisisResponse | null; // Set when the reply is a crisis safe-response script
+  voiceId: string;
+  speakingRate: number;
+  voiceProfile: Omit<VoiceProfile, 'persona_id'>;
+  mood: SpeechMood; // Prosody for every sentence of the reply
+}
+
+// Filled in as the turn progresses so error replies use the right session and pronouns
+interface MessageErrorContext {
+  sessionId: string;
+  addressing: Addressing;
+}
+
 // Enable CORS for frontend requests
 message.use('*', cors({
   origin: (origin, c) => {
     const allowedOrigins = c.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'];
     return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
   },
-  allowMethods: ['POST', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-Session-Id'],
+  allowMethods: ['GET', 'POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Session-Id', 'X-User-Id'],
   maxAge: 3600
 }));
 
-message.post('/', async (c) => {
-  let sessionId = c.req.header('x-session-id') || `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-  const logger = new Logger(sessionId);
+// Read the text or transcribe the audio, resolve the session and generate the reply.
+// Returns a Response when the request must be rejected.
+async function startMessageTurn(
+  c: Context<{ Bindings: Bindings }>,
+  context: MessageErrorContext
+): Promise<MessageTurn | Response> {
+  const logger = new Logger(context.sessionId);
+  const contentType = c.req.header('content-type') || '';
+  let userText = '';
+  let sttSeconds = 0;
+  let sttProvider = '';
 
-  try {
-    const contentType = c.req.header('content-type') || '';
-    let userText = '';
-
-    // Handle both text and audio inputs
-    if (contentType.includes('application/json')) {
-      // Text input
-      const body = await c.req.json() as MessageRequest;
-      userText = body.text || '';
-      sessionId = body.sessionId || sessionId;
-    } else if (isValidAudioFormat(contentType)) {
-      // Audio input
-      const audioBuffer = await c.req.arrayBuffer();
-      
-      if (!audioBuffer || audioBuffer.byteLength === 0) {
-        return c.json({ error: 'No audio data received' }, 400);
-      }
+  // Handle both text and audio inputs
+  if (contentType.includes('application/json')) {
+    // Text input
+    const body = await c.req.json() as MessageRequest;
+    userText = body.text || '';
+    context.sessionId = body.sessionId || context.sessionId;
+  } else if (isValidAudioFormat(contentType)) {
+    // Audio input
+    const audioBuffer = await c.req.arrayBuffer();
+    
+    if (!audioBuffer || audioBuffer.byteLength === 0) {
+      return c.json({ error: 'No audio data received' }, 400);
+    }
 
-      // Validate audio size
-      const isValidSize = await validateAudioSize(audioBuffer, 5);
-      if (!isValidSize) {
-        return c.json({ error: 'Audio file too large (max 5MB)' }, 400);
-      }
+    // Validate audio size
+    const isValidSize = await validateAudioSize(audioBuffer, 5);
+    if (!isValidSize) {
+      return c.json({ error: 'Audio file too large (max 5MB)' }, 400);
+    }
 
-      // Convert speech to text
-      const googleClient = new GoogleCloudClient(c.env, sessionId);
-      const sttResult = await googleClient.speechToText(audioBuffer);
-      userText = sttResult.text;
-
-      logger.info('Audio converted to text', { 
-        audioSize: audioBuffer.byteLength,
-        textLength: userText.length,
-        confidence: sttResult.confidence
-      });
-    } else {
-      return c.json({ error: 'Invalid content type. Send JSON with text or audio data' }, 400);
+    // Validate recording length
+    const metadata = parseAudioMetadata(audioBuffer);
+    const maxSeconds = getMaxRecordingSeconds(c.env.MAX_RECORDING_SECONDS);
+    if (metadata?.duration && metadata.duration > maxSeconds) {
+      return c.json({ error: `Audio recording too long (max ${maxSeconds} seconds)` }, 400);
     }
 
-    // Validate text
-    if (!userText || userText.trim().length === 0) {
-      return c.json({ 
-        error: 'No text to process',
-        text: '',
-        audioUrl: '',
-        sessionId: sessionId
-      }, 400);
+    // Convert speech to text
+    const speechToText = createSpeechToTextProvider(c.env, context.sessionId);
+    sttProvider = speechToText.name;
+    let sttResult;
+    try {
+      sttResult = await speechToText.speechToText(audioBuffer);
+    } catch (error) {
+      if (error instanceof UnsupportedAudioError) {
+        return c.json({ error: `${error.message}. Supported formats: webm/ogg (Opus), wav, mp3` }, 400);
+      }
+      throw error;
     }
+    userText = sttResult.text;
+    sttSeconds = getAudioDuration(audioBuffer, metadata);
 
-    logger.info('Processing complete message pipeline', { 
+    logger.info('Audio converted to text', { 
+      audioSize: audioBuffer.byteLength,
       textLength: userText.length,
-      sessionId 
+      confidence: sttResult.confidence,
+      languageCode: sttResult.languageCode
     });
+  } else {
+    return c.json({ error: 'Invalid content type. Send JSON with text or audio data' }, 400);
+  }
 
-    // Initialize services
-    const openai = new OpenAIClient(c.env, sessionId);
-    const googleClient = new GoogleCloudClient(c.env, sessionId);
-    const db = new DatabaseService(c.env, sessionId);
+  // Validate text
+  if (!userText || userText.trim().length === 0) {
+    return c.json({ 
+      error: 'No text to process',
+      text: '',
+      audioUrl: '',
+      sessionId: context.sessionId
+    }, 400);
+  }
 
-    // Get or create session
-    let session = await db.getSession(sessionId);
-    if (!session) {
-      session = await db.createSession('anonymous', 'caring_girlfriend');
-      sessionId = session.id;
-    }
+  logger.info('Processing complete message pipeline', { 
+    textLength: userText.length,
+    sessionId: context.sessionId
+  });
+
+  // Initialize services
+  const textToSpeech = createTextToSpeechProvider(c.env, context.sessionId);
+  const db = new DatabaseService(c.env, context.sessionId);
 
-    // Save user message
-    await db.saveMessage(sessionId, userText, 'user', contentType.includes('audio') ? 'voice' : 'text');
+  // Get or create session
+  const personaRegistry = new PersonaRegistry(c.env, context.sessionId);
+  let session = await db.getSession(context.sessionId);
+  if (!session) {
+    const defaultPersona = await personaRegistry.resolvePersona();
+    session = await db.createSession('anonymous', defaultPersona.id, {
+      voiceId: defaultPersona.ttsVoice,
+      speakingRate: defaultPersona.speakingRate
+    });
+    context.sessionId = session.id;
+  }
+  const sessionId = session.id;
+  const persona = await personaRegistry.resolvePersona(session.persona);
+  const addressing = await new MemoryPlusService(c.env, sessionId).getAddressing(session.user_id, persona.companionGender);
+  context.addressing = addressing;
 
-    // Generate AI response
-    const chatResponse = await openai.generateResponse({
+  // Under-18 users always get the strictest content filter
+  const minor = isMinor(await new SubscriptionService(c.env, session.user_id).getAgeGroup(session.user_id));
+  const openai = new OpenAIClient(minor ? minorProtectedBindings(c.env) : c.env, sessionId);
+
+  // Record transcription now that the session (and its user) is known
+  const usage = new UsageService(c.env, sessionId);
+  if (sttSeconds > 0) {
+    await usage.recordUsage({
+      sessionId,
+      usageType: 'stt',
+      operation: 'transcribe',
+      provider: sttProvider,
+      sttSeconds
+    });
+  }
+
+  // Save user message
+  const inputType = contentType.includes('audio') ? 'voice' : 'text';
+  await db.saveMessage(sessionId, userText, 'user', inputType);
+
+  // Crisis language gets a safe-response script instead of the persona
+  const crisis = new CrisisDetector(sessionId).assess(userText, addressing);
+  if (crisis) {
+    await db.logEvent(sessionId, 'crisis_detected', {
+      userId: session.user_id,
+      level: crisis.level,
+      signals: crisis.signals
+    });
+  }
+
+  // Generate AI response
+  const chatResponse = crisis
+    ? { reply: crisis.reply, sessionId }
+    : await openai.generateResponse({
       text: userText,
       sessionId: sessionId,
-      persona: session.persona
+      persona: session.persona,
+      userId: session.user_id,
+      addressing,
+      minor
     });
 
-    // Convert response to speech and handle storage
-    let audioUrl: string | undefined;
-    
+  // Session voice settings, falling back to the persona's voice and then GOOGLE_TTS_VOICE
+  const voice = await new VoiceSettingsService(c.env, sessionId).resolve(sessionId, persona);
+  const voiceProfile = await db.getVoiceProfile(persona.id) || DEFAULT_VOICE_PROFILE;
+
+  // Crisis scripts are always read gently; otherwise the mood follows the user's tone and the reply
+  let mood: SpeechMood = 'comforting';
+  if (!crisis) {
+    const vietAnalysis = await new VietVibesService(c.env, sessionId).analyzeVietnamesePatterns(userText, session.user_id);
+    mood = detectSpeechMood(chatResponse.reply, vietAnalysis.emotionalTone);
+  }
+
+  return {
+    sessionId,
+    userId: session.user_id || 'anonymous',
+    logger,
+    db,
+    usage,
+    textToSpeech,
+    userText,
+    inputType,
+    reply: chatResponse.reply,
+    crisis,
+    voiceId: voice.voiceId,
+    speakingRate: voice.speakingRate,
+    voiceProfile,
+    mood
+  };
+}
+
+// TTS request for part of the reply with the turn's voice, persona profile and mood
+function speechRequest(turn: MessageTurn, text: string): TTSRequest {
+  const speech = buildSpeech(text, turn.mood, turn.voiceProfile);
+
+  return {
+    text: speech.text,
+    ssml: speech.ssml,
+    voiceId: turn.voiceId,
+    speakingRate: turn.speakingRate,
+    ...profileAudioConfig(turn.voiceProfile)
+  };
+}
+
+// Characters the provider bills for: SSML tags count when the provider reads SSML
+function billedCharacters(textToSpeech: TextToSpeechProvider, request: TTSRequest): number {
+  return textToSpeech.supportsSsml && request.ssml ? request.ssml.length : request.text.length;
+}
+
+// Record the reply audio as the user's and return its path under /audio. Audio that is in the
+// TTS cache is referenced rather than stored again; anything else goes to R2 (or D1 without R2).
+async function storeReplyAudio(
+  c: Context<{ Bindings: Bindings }>,
+  turn: MessageTurn,
+  audioBuffer: ArrayBuffer,
+  cacheKey?: string
+): Promise<string> {
+  const storage = new AudioStorageService(c.env, turn.sessionId);
+  const owner = { userId: turn.userId, sessionId: turn.sessionId };
+
+  return cacheKey
+    ? storage.saveCached(cacheKey, audioBuffer.byteLength, turn.textToSpeech.audioFormat, owner)
+    : storage.save(audioBuffer, turn.textToSpeech.audioFormat, owner);
+}
+
+// Record TTS usage, save the assistant message and build the response. History keeps the
+// audio path under /audio; the response gets a link signed for the session's user.
+async function finishMessageTurn(
+  c: Context<{ Bindings: Bindings }>,
+  turn: MessageTurn,
+  audioPath: string | undefined,
+  audioSize: number,
+  ttsCharacters: number,
+  extraAnalytics: Record<string, unknown> = {}
+): Promise<MessageResponse> {
+  const { db, sessionId, reply, crisis } = turn;
+
+  if (ttsCharacters > 0) {
+    await turn.usage.recordUsage({
+      sessionId,
+      usageType: 'tts',
+      operation: 'synthesize',
+      provider: turn.textToSpeech.name,
+      ttsCharacters
+    });
+  }
+
+  // Save assistant message with audio URL (if available)
+  await db.saveMessage(sessionId, reply, 'assistant', 'voice', audioPath);
+
+  let audioUrl: string | undefined;
+  if (audioPath) {
     try {
-      const audioBuffer = await googleClient.textToSpeech({
-        text: chatResponse.reply
-      });
-
-      // Store audio in R2 if available, otherwise skip audio storage
-      if (c.env.R2) {
-        const audioFilename = generateAudioFilename();
-        await c.env.R2.put(audioFilename, audioBuffer, {
-          httpMetadata: {
-            contentType: 'audio/mpeg'
-          }
-        });
-        
-        // Generate public URL for audio
-        audioUrl = `${c.env.APP_BASE_URL}/audio/${audioFilename}`;
-      } else {
-        logger.warn('R2 storage not configured, skipping audio storage');
-      }
-    } catch (audioError) {
-      logger.warn('Failed to generate audio, continuing with text only', audioError);
+      audioUrl = await createSignedAudioUrl(c.env, audioPath, turn.userId);
+    } catch (error) {
+      turn.logger.warn('Failed to sign audio URL, continuing with text only', error);
     }
+  }
 
-    // Save assistant message with audio URL (if available)
-    await db.saveMessage(sessionId, chatResponse.reply, 'assistant', 'voice', audioUrl);
+  // Log analytics
+  await db.logEvent(sessionId, 'complete_message_pipeline', {
+    userTextLength: turn.userText.length,
+    assistantTextLength: reply.length,
+    audioSize,
+    inputType: turn.inputType,
+    crisisLevel: crisis?.level,
+    speechMood: turn.mood,
+    ...extraAnalytics
+  });
 
-    // Log analytics
-    await db.logEvent(sessionId, 'complete_message_pipeline', {
-      userTextLength: userText.length,
-      assistantTextLength: chatResponse.reply.length,
-      audioSize: audioBuffer.byteLength,
-      inputType: contentType.includes('audio') ? 'voice' : 'text'
-    });
+  turn.logger.info('Complete message pipeline completed successfully', {
+    responseTextLength: reply.length,
+    audioSize,
+    audioPath
+  });
 
-    const response: MessageResponse = {
-      text: chatResponse.reply,
-      audioUrl: audioUrl,
-      sessionId: sessionId
-    };
+  return {
+    text: reply,
+    audioUrl: audioUrl || '',
+    sessionId,
+    ...(crisis && { crisis: { level: crisis.level, hotlines: crisis.hotlines } })
+  };
+}
 
-    logger.info('Complete message pipeline completed successfully', {
-      responseTextLength: chatResponse.reply.length,
-      audioSize: audioBuffer.byteLength,
-      audioUrl: audioUrl
-    });
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
 
-    return c.json(response);
+// Audio paths saved with replies, e.g. "1757230000000-abc123.mp3"
+const STORED_AUDIO_PATH = /^[\w-]+\.[a-z0-9]+$/;
+
+function newSessionId(c: Context<{ Bindings: Bindings }>): string {
+  return c.req.header('x-session-id') || `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+}
+
+message.post('/', async (c) => {
+  const context: MessageErrorContext = { sessionId: newSessionId(c), addressing: DEFAULT_ADDRESSING };
+
+  try {
+    const turn = await startMessageTurn(c, context);
+    if (turn instanceof Response) {
+      return turn;
+    }
+
+    // Convert response to speech and handle storage
+    let audioPath: string | undefined;
+    let audioSize = 0;
+    let ttsCharacters = 0;
+    let cachedAudio = false;
+
+    try {
+      const request = speechRequest(turn, turn.reply);
+      const speech = await new TTSCacheService(c.env, turn.sessionId).synthesize(turn.textToSpeech, request);
+      audioSize = speech.audio.byteLength;
+      ttsCharacters = speech.cached ? 0 : billedCharacters(turn.textToSpeech, request);
+      cachedAudio = speech.cached;
+
+      audioPath = await storeReplyAudio(c, turn, speech.audio, speech.cacheKey);
+    } catch (audioError) {
+      turn.logger.warn('Failed to generate audio, continuing with text only', audioError);
+    }
+
+    return c.json(await finishMessageTurn(c, turn, audioPath, audioSize, ttsCharacters, { cachedAudio }));
 
   } catch (error) {
-    const logger = new Logger(sessionId);
+    const logger = new Logger(context.sessionId);
     logger.error('Message endpoint error', error);
     
     // Return user-friendly error response
     return c.json({ 
-      error: 'Em đang gặp khó khăn. Anh thử lại nhé! 💕',
-      text: 'Xin lỗi anh, em gặp sự cố. Anh thử lại được không! ❤️',
+      error: cannedReply('message_error', basePronouns(context.addressing)),
+      text: cannedReply('message_error_reply', basePronouns(context.addressing)),
+      audioUrl: '',
+      sessionId: context.sessionId
+    }, 500);
+  }
+});
+
+// Streaming variant: a `text` event with the reply, then one `audio` event per sentence
+// (base64, in order) as soon as it is synthesized, so playback can start after the first
+// sentence. The final `done` event carries the usual response; its audioUrl points to
+// all segments joined together for the message history.
+message.post('/stream', async (c) => {
+  const context: MessageErrorContext = { sessionId: newSessionId(c), addressing: DEFAULT_ADDRESSING };
+
+  let turn: MessageTurn | Response;
+  try {
+    turn = await startMessageTurn(c, context);
+    if (turn instanceof Response) {
+      return turn;
+    }
+  } catch (error) {
+    const logger = new Logger(context.sessionId);
+    logger.error('Message stream endpoint error', error);
+    return c.json({ 
+      error: cannedReply('message_error', basePronouns(context.addressing)),
+      text: cannedReply('message_error_reply', basePronouns(context.addressing)),
       audioUrl: '',
-      sessionId: sessionId
+      sessionId: context.sessionId
     }, 500);
   }
+
+  const messageTurn = turn;
+  const { logger, textToSpeech } = messageTurn;
+
+  return streamSSE(c, async (stream) => {
+    await stream.writeSSE({
+      event: 'text',
+      data: JSON.stringify({ text: messageTurn.reply, sessionId: messageTurn.sessionId })
+    });
+
+    const sentences = splitIntoSentences(messageTurn.reply);
+    const segments: ArrayBuffer[] = [];
+    let ttsCharacters = 0;
+    let cachedSegments = 0;
+
+    const requests = sentences.map(sentence => speechRequest(messageTurn, sentence));
+    const cache = new TTSCacheService(c.env, messageTurn.sessionId);
+
+    // Marked as handled up front: if sending the current sentence fails, the next one is never awaited
+    const synthesize = (index: number) => {
+      const speech = cache.synthesize(textToSpeech, requests[index]);
+      speech.catch(() => {});
+      return speech;
+    };
+
+    try {
+      // Synthesize the next sentence while the current one is being sent
+      let pending = requests.length > 0 ? synthesize(0) : null;
+
+      for (let index = 0; pending; index++) {
+        const { audio: audioBuffer, cached } = await pending;
+        pending = index + 1 < requests.length ? synthesize(index + 1) : null;
+
+        segments.push(audioBuffer);
+        if (cached) {
+          cachedSegments++;
+        } else {
+          ttsCharacters += billedCharacters(textToSpeech, requests[index]);
+        }
+
+        await stream.writeSSE({
+          event: 'audio',
+          id: String(index),
+          data: JSON.stringify({
+            index,
+            total: sentences.length,
+            text: sentences[index],
+            mimeType: textToSpeech.audioFormat.mimeType,
+            audio: arrayBufferToBase64(audioBuffer)
+          })
+        });
+      }
+    } catch (audioError) {
+      logger.warn('Failed to generate audio, continuing with the segments sent so far', audioError);
+    }
+
+    let audioPath: string | undefined;
+    let audioSize = 0;
+
+    if (segments.length > 0) {
+      try {
+        const fullAudio = concatAudioSegments(segments, textToSpeech.audioFormat.extension);
+        audioSize = fullAudio.byteLength;
+        audioPath = await storeReplyAudio(c, messageTurn, fullAudio);
+      } catch (storageError) {
+        logger.warn('Failed to store joined reply audio', storageError);
+      }
+    }
+
+    const response = await finishMessageTurn(c, messageTurn, audioPath, audioSize, ttsCharacters, {
+      streamed: true,
+      audioSegments: segments.length,
+      cachedSegments
+    });
+    await stream.writeSSE({ event: 'done', data: JSON.stringify(response) });
+
+  }, async (error, stream) => {
+    logger.error('Message stream error', error);
+    await stream.writeSSE({
+      event: 'error',
+      data: JSON.stringify({
+        error: cannedReply('message_error', basePronouns(context.addressing)),
+        text: cannedReply('message_error_reply', basePronouns(context.addressing)),
+        audioUrl: '',
+        sessionId: messageTurn.sessionId
+      })
+    });
+  });
+});
+
+// Recent messages of the caller's own session; reply audio gets a fresh link signed for the caller.
+// Sessions of other users (or without one) are reported as not found.
+message.get('/history', async (c) => {
+  const sessionId = c.req.header('x-session-id');
+  const userId = c.req.header('x-user-id');
+  const logger = new Logger(sessionId || 'anonymous');
+
+  try {
+    if (!sessionId) {
+      return c.json({ error: 'Missing x-session-id' }, 400);
+    }
+
+    const db = new DatabaseService(c.env, sessionId);
+    const session = await db.getSession(sessionId);
+    if (!session || !userId || session.user_id !== userId) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '50') || 50, 1), 200);
+
+    const messages = await Promise.all((await db.getMessages(sessionId, limit)).map(async (row) => {
+      let audioUrl: string | undefined;
+      if (row.message_type === 'voice' && row.audio_url && STORED_AUDIO_PATH.test(row.audio_url)) {
+        try {
+          audioUrl = await createSignedAudioUrl(c.env, row.audio_url, userId);
+        } catch (error) {
+          logger.warn('Failed to sign history audio URL', error);
+        }
+      }
+
+      return {
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        messageType: row.message_type,
+        audioUrl,
+        createdAt: row.created_at
+      };
+    }));
+
+    return c.json({ sessionId, messages });
+
+  } catch (error) {
+    logger.error('Error getting message history', error);
+    return c.json({ error: 'Failed to get message history' }, 500);
+  }
 });
 
 export default message;
\ No newline at end of file
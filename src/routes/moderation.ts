@@ -0,0 +1,232 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { Bindings } from '../types';
+import {
+  ModerationAuditService,
+  ModerationDirection,
+  ModerationReviewStatus,
+  MODERATION_DIRECTIONS,
+  MODERATION_REVIEW_STATUSES
+} from '../services/moderation-audit';
+import { MODERATION_CATEGORIES, ModerationCategory } from '../services/moderation-lexicon';
+import { requireAdmin } from '../utils/admin-auth';
+import { Logger } from '../utils/logger';
+
+const moderation = new Hono<{ Bindings: Bindings }>();
+
+// Enable CORS for the operator console
+moderation.use('*', cors({
+  origin: (origin, c) => {
+    const allowedOrigins = c.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'];
+    return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+  },
+  allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization'],
+  maxAge: 3600
+}));
+
+// Every route here is operator-only
+moderation.use('*', requireAdmin);
+
+const MAX_PHRASE_LENGTH = 60;
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) || id <= 0 ? null : id;
+}
+
+function validatePhrase(phrase: unknown): string | null {
+  if (typeof phrase !== 'string') return null;
+  const normalized = ModerationAuditService.normalizePhrase(phrase);
+  return normalized.length > 0 && normalized.length <= MAX_PHRASE_LENGTH ? normalized : null;
+}
+
+// Browse stored decisions, newest first
+moderation.get('/decisions', async (c) => {
+  const logger = new Logger('moderation_review');
+
+  try {
+    const status = c.req.query('status');
+    const direction = c.req.query('direction');
+    const category = c.req.query('category');
+
+    if (status && !MODERATION_REVIEW_STATUSES.includes(status as ModerationReviewStatus)) {
+      return c.json({ error: `Trạng thái không hợp lệ. Hỗ trợ: ${MODERATION_REVIEW_STATUSES.join(', ')}` }, 400);
+    }
+    if (direction && !MODERATION_DIRECTIONS.includes(direction as ModerationDirection)) {
+      return c.json({ error: `Hướng không hợp lệ. Hỗ trợ: ${MODERATION_DIRECTIONS.join(', ')}` }, 400);
+    }
+    if (category && !MODERATION_CATEGORIES.includes(category as ModerationCategory)) {
+      return c.json({ error: `Danh mục không hợp lệ. Hỗ trợ: ${MODERATION_CATEGORIES.join(', ')}` }, 400);
+    }
+
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '50') || 50, 1), 200);
+    const offset = Math.max(parseInt(c.req.query('offset') || '0') || 0, 0);
+
+    const audit = new ModerationAuditService(c.env, 'moderation_review');
+    const { decisions, total } = await audit.listDecisions({
+      status: status as ModerationReviewStatus | undefined,
+      direction: direction as ModerationDirection | undefined,
+      category,
+      limit,
+      offset
+    });
+
+    return c.json({ decisions, total, limit, offset });
+
+  } catch (error) {
+    logger.error('Error listing moderation decisions', error);
+    return c.json({ error: 'Không thể lấy danh sách quyết định kiểm duyệt' }, 500);
+  }
+});
+
+// Decision counts per category, action and review status
+moderation.get('/decisions/summary', async (c) => {
+  const logger = new Logger('moderation_review');
+
+  try {
+    const days = Math.min(Math.max(parseInt(c.req.query('days') || '30') || 30, 1), 365);
+    const audit = new ModerationAuditService(c.env, 'moderation_review');
+    const summary = await audit.getSummary(days);
+
+    return c.json({ days, summary });
+
+  } catch (error) {
+    logger.error('Error getting moderation summary', error);
+    return c.json({ error: 'Không thể lấy thống kê kiểm duyệt' }, 500);
+  }
+});
+
+moderation.get('/decisions/:id', async (c) => {
+  const logger = new Logger('moderation_review');
+
+  try {
+    const decisionId = parseId(c.req.param('id'));
+    if (!decisionId) {
+      return c.json({ error: 'Mã quyết định không hợp lệ' }, 400);
+    }
+
+    const audit = new ModerationAuditService(c.env, 'moderation_review');
+    const decision = await audit.getDecision(decisionId);
+
+    if (!decision) {
+      return c.json({ error: 'Không tìm thấy quyết định kiểm duyệt' }, 404);
+    }
+
+    return c.json({ decision });
+
+  } catch (error) {
+    logger.error('Error getting moderation decision', error);
+    return c.json({ error: 'Không thể lấy quyết định kiểm duyệt' }, 500);
+  }
+});
+
+// Confirm a decision or mark it a false positive. A false positive can add an
+// allowlist phrase ({ allowlistPhrase }) so the same text passes from now on.
+moderation.post('/decisions/:id/review', async (c) => {
+  const logger = new Logger('moderation_review');
+
+  try {
+    const decisionId = parseId(c.req.param('id'));
+    if (!decisionId) {
+      return c.json({ error: 'Mã quyết định không hợp lệ' }, 400);
+    }
+
+    const body = await c.req.json() as { status?: string, note?: string, allowlistPhrase?: string };
+
+    if (!MODERATION_REVIEW_STATUSES.includes(body.status as ModerationReviewStatus)) {
+      return c.json({ error: `Trạng thái không hợp lệ. Hỗ trợ: ${MODERATION_REVIEW_STATUSES.join(', ')}` }, 400);
+    }
+
+    let phrase: string | null = null;
+    if (body.allowlistPhrase !== undefined) {
+      if (body.status !== 'false_positive') {
+        return c.json({ error: 'Chỉ có thể thêm vào danh sách cho phép khi đánh dấu false_positive' }, 400);
+      }
+      phrase = validatePhrase(body.allowlistPhrase);
+      if (!phrase) {
+        return c.json({ error: `Cụm từ phải có từ 1 đến ${MAX_PHRASE_LENGTH} ký tự` }, 400);
+      }
+    }
+
+    const note = typeof body.note === 'string' ? body.note.substring(0, 500) : undefined;
+
+    const audit = new ModerationAuditService(c.env, 'moderation_review');
+    const decision = await audit.reviewDecision(decisionId, body.status as ModerationReviewStatus, note);
+
+    if (!decision) {
+      return c.json({ error: 'Không tìm thấy quyết định kiểm duyệt' }, 404);
+    }
+
+    const allowlistEntry = phrase ? await audit.addAllowlistPhrase(phrase, note, decisionId) : null;
+
+    return c.json({ decision, allowlistEntry });
+
+  } catch (error) {
+    logger.error('Error reviewing moderation decision', error);
+    return c.json({ error: 'Không thể cập nhật quyết định kiểm duyệt' }, 500);
+  }
+});
+
+// Operator allowlist
+moderation.get('/allowlist', async (c) => {
+  const logger = new Logger('moderation_review');
+
+  try {
+    const audit = new ModerationAuditService(c.env, 'moderation_review');
+    return c.json({ allowlist: await audit.listAllowlist() });
+
+  } catch (error) {
+    logger.error('Error listing moderation allowlist', error);
+    return c.json({ error: 'Không thể lấy danh sách cho phép' }, 500);
+  }
+});
+
+moderation.post('/allowlist', async (c) => {
+  const logger = new Logger('moderation_review');
+
+  try {
+    const body = await c.req.json() as { phrase?: string, note?: string };
+    const phrase = validatePhrase(body.phrase);
+
+    if (!phrase) {
+      return c.json({ error: `Cụm từ phải có từ 1 đến ${MAX_PHRASE_LENGTH} ký tự` }, 400);
+    }
+
+    const note = typeof body.note === 'string' ? body.note.substring(0, 500) : undefined;
+    const audit = new ModerationAuditService(c.env, 'moderation_review');
+    const entry = await audit.addAllowlistPhrase(phrase, note);
+
+    return c.json({ entry }, 201);
+
+  } catch (error) {
+    logger.error('Error adding moderation allowlist phrase', error);
+    return c.json({ error: 'Không thể thêm cụm từ' }, 500);
+  }
+});
+
+moderation.delete('/allowlist/:id', async (c) => {
+  const logger = new Logger('moderation_review');
+
+  try {
+    const entryId = parseId(c.req.param('id'));
+    if (!entryId) {
+      return c.json({ error: 'Mã cụm từ không hợp lệ' }, 400);
+    }
+
+    const audit = new ModerationAuditService(c.env, 'moderation_review');
+    const removed = await audit.removeAllowlistPhrase(entryId);
+
+    if (!removed) {
+      return c.json({ error: 'Không tìm thấy cụm từ' }, 404);
+    }
+
+    return c.json({ success: true });
+
+  } catch (error) {
+    logger.error('Error removing moderation allowlist phrase', error);
+    return c.json({ error: 'Không thể xóa cụm từ' }, 500);
+  }
+});
+
+export default moderation;
\ No newline at end of file
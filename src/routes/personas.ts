@@ -0,0 +1,46 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { Bindings } from '../types';
+import { PersonaRegistry, DEFAULT_PERSONA_ID } from '../services/persona';
+import { Logger } from '../utils/logger';
+
+const personas = new Hono<{ Bindings: Bindings }>();
+
+// Enable CORS for frontend requests
+personas.use('*', cors({
+  origin: (origin, c) => {
+    const allowedOrigins = c.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'];
+    return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+  },
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization'],
+  maxAge: 3600
+}));
+
+// Active personas for the persona picker (system prompts stay server-side)
+personas.get('/', async (c) => {
+  const logger = new Logger('personas');
+
+  try {
+    const registry = new PersonaRegistry(c.env, 'personas');
+    const list = await registry.listPersonas();
+
+    return c.json({
+      personas: list.map(persona => ({
+        id: persona.id,
+        name: persona.name,
+        description: persona.description,
+        stickerPack: persona.stickerPack,
+        ttsVoice: persona.ttsVoice,
+        speakingRate: persona.speakingRate
+      })),
+      defaultPersona: DEFAULT_PERSONA_ID
+    });
+
+  } catch (error) {
+    logger.error('Error listing personas', error);
+    return c.json({ error: 'Không thể lấy danh sách tính cách' }, 500);
+  }
+});
+
+export default personas;
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { Bindings } from '../types';
+import { RelationshipStageEngine } from '../services/relationship-stage';
+import { Logger } from '../utils/logger';
+
+const relationship = new Hono<{ Bindings: Bindings }>();
+
+// Enable CORS for frontend requests
+relationship.use('*', cors({
+  origin: (origin, c) => {
+    const allowedOrigins = c.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'];
+    return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+  },
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'x-user-id'],
+  maxAge: 3600
+}));
+
+// Current relationship stage, engagement score and progress towards the next stage
+relationship.get('/', async (c) => {
+  const userId = c.req.header('x-user-id') || 'anonymous';
+  const logger = new Logger(userId);
+
+  try {
+    const stageEngine = new RelationshipStageEngine(c.env, userId);
+    const status = await stageEngine.getStatus(userId);
+
+    if (!status) {
+      return c.json({ error: 'Không thể lấy trạng thái mối quan hệ' }, 503);
+    }
+
+    return c.json(status);
+
+  } catch (error) {
+    logger.error('Error getting relationship status', error);
+    return c.json({ error: 'Không thể lấy trạng thái mối quan hệ' }, 500);
+  }
+});
+
+export default relationship;
\ No newline at end of file
@@ -1,10 +1,11 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { Bindings, STTResponse } from '../types';
-import { GoogleCloudClient } from '../services/google-cloud';
+import { UnsupportedAudioError, createSpeechToTextProvider } from '../services/speech-provider';
 import { DatabaseService } from '../services/database';
+import { UsageService } from '../services/usage';
 import { Logger } from '../utils/logger';
-import { isValidAudioFormat, validateAudioSize } from '../utils/audio';
+import { isValidAudioFormat, validateAudioSize, getAudioDuration, getMaxRecordingSeconds, parseAudioMetadata } from '../utils/audio';
 
 const stt = new Hono<{ Bindings: Bindings }>();
 
@@ -48,28 +49,52 @@ stt.post('/', async (c) => {
       return c.json({ error: 'Audio file too large (max 5MB)' }, 400);
     }
 
+    // Enforce the recording length from the audio headers
+    const metadata = parseAudioMetadata(audioBuffer);
+    const maxSeconds = getMaxRecordingSeconds(c.env.MAX_RECORDING_SECONDS);
+    if (metadata?.duration && metadata.duration > maxSeconds) {
+      logger.warn('Audio recording too long', { duration: metadata.duration });
+      return c.json({ error: `Audio recording too long (max ${maxSeconds} seconds)` }, 400);
+    }
+
     logger.info('Processing STT request', { 
       audioSize: audioBuffer.byteLength,
-      contentType 
+      contentType,
+      container: metadata?.container,
+      codec: metadata?.codec,
+      duration: metadata?.duration
     });
 
     // Initialize services
-    const googleClient = new GoogleCloudClient(c.env, sessionId);
+    const speechToText = createSpeechToTextProvider(c.env, sessionId);
     const db = new DatabaseService(c.env, sessionId);
 
     // Convert speech to text
-    const sttResult = await googleClient.speechToText(audioBuffer);
+    const sttResult = await speechToText.speechToText(audioBuffer);
+
+    // Record billable audio seconds
+    await new UsageService(c.env, sessionId).recordUsage({
+      sessionId,
+      usageType: 'stt',
+      operation: 'transcribe',
+      provider: speechToText.name,
+      sttSeconds: getAudioDuration(audioBuffer, metadata)
+    });
 
     // Log analytics
     await db.logEvent(sessionId, 'stt_request', {
       audioSize: audioBuffer.byteLength,
       confidence: sttResult.confidence,
-      textLength: sttResult.text.length
+      textLength: sttResult.text.length,
+      languageCode: sttResult.languageCode
     });
 
     const response: STTResponse = {
       text: sttResult.text,
-      confidence: sttResult.confidence
+      confidence: sttResult.confidence,
+      languageCode: sttResult.languageCode,
+      alternatives: sttResult.alternatives,
+      words: sttResult.words
     };
 
     logger.info('STT completed successfully', {
@@ -80,6 +105,14 @@ stt.post('/', async (c) => {
     return c.json(response);
 
   } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      return c.json({ 
+        error: `${error.message}. Supported formats: webm/ogg (Opus), wav, mp3`,
+        text: '',
+        confidence: 0
+      }, 400);
+    }
+
     logger.error('STT endpoint error', error);
     
     // Return user-friendly error message
@@ -1,9 +1,10 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { Bindings } from '../types';
-import { SubscriptionService } from '../services/subscription';
+import { AgeVerificationError, SubscriptionService } from '../services/subscription';
 import { PayOSService } from '../services/payos';
 import { Logger } from '../utils/logger';
+import { currentAgeGroup, isMinor } from '../utils/age';
 
 const subscription = new Hono<{ Bindings: Bindings }>();
 
@@ -49,8 +50,10 @@ subscription.get('/status', async (c) => {
       user: {
         id: user.id,
         referralCode: user.referral_code,
-        subscriptionType: user.subscription_type
+        subscriptionType: user.subscription_type,
+        ageGroup: currentAgeGroup(user.birth_date, user.age_group)
       },
+      needsAgeVerification: !user.age_group,
       subscription: status,
       referral: referralStats
     });
@@ -77,6 +80,37 @@ subscription.get('/status', async (c) => {
   }
 });
 
+// Age gate: record the user's birth date ({ birthDate: 'YYYY-MM-DD' })
+subscription.post('/age', async (c) => {
+  const userId = c.req.header('x-user-id') || 'anonymous';
+  const logger = new Logger(userId);
+
+  try {
+    const { birthDate } = await c.req.json() as { birthDate?: string };
+
+    if (typeof birthDate !== 'string') {
+      return c.json({ error: 'Thiếu ngày sinh' }, 400);
+    }
+
+    const subService = new SubscriptionService(c.env, userId);
+    await subService.getOrCreateUser(userId);
+    const ageGroup = await subService.recordAge(userId, birthDate);
+
+    return c.json({
+      success: true,
+      ageGroup,
+      minor: isMinor(ageGroup)
+    });
+
+  } catch (error) {
+    if (error instanceof AgeVerificationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    logger.error('Error recording user age', error);
+    return c.json({ error: 'Không thể lưu ngày sinh' }, 500);
+  }
+});
+
 // Create payment link
 subscription.post('/payment/create', async (c) => {
   const userId = c.req.header('x-user-id') || 'anonymous';
@@ -94,8 +128,15 @@ subscription.post('/payment/create', async (c) => {
     const payosService = new PayOSService(c.env, userId);
     const subService = new SubscriptionService(c.env, userId);
 
-    // Ensure user exists
-    await subService.getOrCreateUser(userId);
+    // Ensure user exists; payments need a verified age and are closed to minors
+    const user = await subService.getOrCreateUser(userId);
+    const ageGroup = currentAgeGroup(user.birth_date, user.age_group);
+    if (!ageGroup) {
+      return c.json({ error: 'Vui lòng xác minh tuổi trước khi thanh toán', needsAgeVerification: true }, 403);
+    }
+    if (isMinor(ageGroup)) {
+      return c.json({ error: 'Người dùng dưới 18 tuổi không thể thanh toán' }, 403);
+    }
 
     // Calculate price
     const amount = PayOSService.calculatePrice(subscriptionType, c.env);
@@ -1,8 +1,13 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { Bindings, TTSRequest } from '../types';
-import { GoogleCloudClient } from '../services/google-cloud';
+import { createTextToSpeechProvider } from '../services/speech-provider';
 import { DatabaseService } from '../services/database';
+import { UsageService } from '../services/usage';
+import { TTSCacheService } from '../services/tts-cache';
+import { Persona, PersonaRegistry } from '../services/persona';
+import { VoiceSettingsService, MIN_SPEAKING_RATE, MAX_SPEAKING_RATE } from '../services/voice-settings';
+import { DEFAULT_VOICE_PROFILE, buildSpeech, detectSpeechMood, profileAudioConfig } from '../services/prosody';
 import { Logger } from '../utils/logger';
 
 const tts = new Hono<{ Bindings: Bindings }>();
@@ -42,34 +47,63 @@ tts.post('/', async (c) => {
     });
 
     // Initialize services
-    const googleClient = new GoogleCloudClient(c.env, sessionId);
+    const textToSpeech = createTextToSpeechProvider(c.env, sessionId);
     const db = new DatabaseService(c.env, sessionId);
 
-    // Get voice settings for session if available
-    let voiceId = body.voiceId;
-    let speakingRate = body.speakingRate;
+    // Explicit overrides must still be voices and rates the provider accepts
+    const voiceSettings = new VoiceSettingsService(c.env, sessionId);
+    if (body.voiceId && !voiceSettings.findVoice(body.voiceId)) {
+      return c.json({ error: `Unsupported voice: ${body.voiceId}` }, 400);
+    }
+    if (body.speakingRate !== undefined && !(body.speakingRate >= MIN_SPEAKING_RATE && body.speakingRate <= MAX_SPEAKING_RATE)) {
+      return c.json({ error: `Speaking rate must be between ${MIN_SPEAKING_RATE} and ${MAX_SPEAKING_RATE}` }, 400);
+    }
+
+    let persona: Persona | undefined;
+    let voiceProfile = DEFAULT_VOICE_PROFILE;
 
     if (sessionId !== 'anonymous') {
-      const voiceSettings = await db.getVoiceSettings(sessionId);
-      if (voiceSettings) {
-        voiceId = voiceId || voiceSettings.voice_id;
-        speakingRate = speakingRate ?? voiceSettings.speaking_rate;
-      }
+      const session = await db.getSession(sessionId);
+      persona = await new PersonaRegistry(c.env, sessionId).resolvePersona(session?.persona);
+      voiceProfile = await db.getVoiceProfile(persona.id) || DEFAULT_VOICE_PROFILE;
     }
 
-    // Generate speech audio
-    const audioBuffer = await googleClient.textToSpeech({
-      text: body.text,
+    // Session voice settings, then the persona's voice, then GOOGLE_TTS_VOICE
+    const voice = await voiceSettings.resolve(sessionId, persona);
+    const voiceId = body.voiceId || voice.voiceId;
+    const speakingRate = body.speakingRate ?? voice.speakingRate;
+
+    // Prosody follows the mood of the text itself
+    const speech = buildSpeech(body.text, detectSpeechMood(body.text), voiceProfile);
+
+    // Generate speech audio, reusing cached audio for identical requests
+    const { audio: audioBuffer, cached } = await new TTSCacheService(c.env, sessionId).synthesize(textToSpeech, {
+      text: speech.text,
+      ssml: speech.ssml,
       voiceId: voiceId,
-      speakingRate: speakingRate
+      speakingRate: speakingRate,
+      ...profileAudioConfig(voiceProfile)
     });
 
+    // Record billable characters; cache hits cost nothing
+    if (!cached) {
+      await new UsageService(c.env, sessionId).recordUsage({
+        sessionId,
+        usageType: 'tts',
+        operation: 'synthesize',
+        provider: textToSpeech.name,
+        model: voiceId,
+        ttsCharacters: textToSpeech.supportsSsml ? speech.ssml.length : speech.text.length
+      });
+    }
+
     // Log analytics
     await db.logEvent(sessionId, 'tts_request', {
       textLength: body.text.length,
       voiceId: voiceId,
       speakingRate: speakingRate,
-      audioSize: audioBuffer.byteLength
+      audioSize: audioBuffer.byteLength,
+      cached
     });
 
     logger.info('TTS completed successfully', {
@@ -79,9 +113,10 @@ tts.post('/', async (c) => {
     // Return audio stream with proper headers
     return new Response(audioBuffer, {
       headers: {
-        'Content-Type': 'audio/mpeg',
+        'Content-Type': textToSpeech.audioFormat.mimeType,
         'Content-Length': audioBuffer.byteLength.toString(),
         'X-Duration': '5000', // Estimated duration in milliseconds
+        'X-Cache': cached ? 'HIT' : 'MISS',
         'Cache-Control': 'public, max-age=3600' // Cache for 1 hour
       }
     });
@@ -0,0 +1,101 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { Bindings } from '../types';
+import { UsageService } from '../services/usage';
+import { TTSCacheService } from '../services/tts-cache';
+import { requireAdmin } from '../utils/admin-auth';
+import { Logger } from '../utils/logger';
+
+const usage = new Hono<{ Bindings: Bindings }>();
+
+// Enable CORS for frontend requests
+usage.use('*', cors({
+  origin: (origin, c) => {
+    const allowedOrigins = c.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'];
+    return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+  },
+  allowMethods: ['GET', 'POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'x-user-id'],
+  maxAge: 3600
+}));
+
+// Clamp the ?days= window to something the ledger queries can handle
+function parseDays(value: string | undefined): number {
+  const days = parseInt(value || '');
+  return isNaN(days) ? 30 : Math.min(Math.max(days, 1), 365);
+}
+
+// Current user's token, speech and cost usage
+usage.get('/', async (c) => {
+  const userId = c.req.header('x-user-id') || 'anonymous';
+  const logger = new Logger(userId);
+
+  try {
+    const days = parseDays(c.req.query('days'));
+    const usageService = new UsageService(c.env, userId);
+    const { totals, daily } = await usageService.getUserUsage(userId, days);
+
+    return c.json({ userId, days, totals, daily });
+
+  } catch (error) {
+    logger.error('Error getting usage', error);
+    return c.json({ error: 'Không thể lấy thông tin sử dụng' }, 500);
+  }
+});
+
+// Daily cost per subscription_type, operator-only. Read-only: the cron Worker refreshes
+// today's and yesterday's rollups.
+usage.get('/rollups', requireAdmin, async (c) => {
+  const logger = new Logger('usage_rollups');
+
+  try {
+    const days = parseDays(c.req.query('days'));
+    const usageService = new UsageService(c.env, 'usage_rollups');
+
+    const rollups = await usageService.getSubscriptionRollups(days);
+    return c.json({ days, rollups });
+
+  } catch (error) {
+    logger.error('Error getting usage rollups', error);
+    return c.json({ error: 'Failed to get usage rollups' }, 500);
+  }
+});
+
+// Rebuild the rollup for a specific UTC day, e.g. after backfilling the ledger
+usage.post('/rollups/:day', requireAdmin, async (c) => {
+  const logger = new Logger('usage_rollups');
+  const day = c.req.param('day');
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+    return c.json({ error: 'Day must be YYYY-MM-DD' }, 400);
+  }
+
+  try {
+    const usageService = new UsageService(c.env, 'usage_rollups');
+    const rows = await usageService.rollupDailyUsage(day);
+
+    return c.json({ success: true, day, rows });
+
+  } catch (error) {
+    logger.error('Error rebuilding usage rollup', error);
+    return c.json({ error: 'Failed to rebuild usage rollup' }, 500);
+  }
+});
+
+// Synthesized audio cache hit rate, evictions and current size, operator-only
+usage.get('/tts-cache', requireAdmin, async (c) => {
+  const logger = new Logger('tts_cache');
+
+  try {
+    const days = parseDays(c.req.query('days'));
+    const stats = await new TTSCacheService(c.env, 'tts_cache').getStats(days);
+
+    return c.json({ days, ...stats });
+
+  } catch (error) {
+    logger.error('Error getting TTS cache stats', error);
+    return c.json({ error: 'Failed to get TTS cache stats' }, 500);
+  }
+});
+
+export default usage;
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { Hono, Context } from 'hono';
+import { cors } from 'hono/cors';
+import { Bindings } from '../types';
+import { DatabaseService } from '../services/database';
+import { Persona, PersonaRegistry } from '../services/persona';
+import {
+  VoiceSettingsService,
+  VoiceSettingsError,
+  VoiceSettingsUpdate,
+  SUPPORTED_VOICE_LANGUAGES,
+  MIN_SPEAKING_RATE,
+  MAX_SPEAKING_RATE
+} from '../services/voice-settings';
+import { Logger } from '../utils/logger';
+
+const voiceSettings = new Hono<{ Bindings: Bindings }>();
+
+// Enable CORS for frontend requests
+voiceSettings.use('*', cors({
+  origin: (origin, c) => {
+    const allowedOrigins = c.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'];
+    return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+  },
+  allowMethods: ['GET', 'PUT', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Session-Id'],
+  maxAge: 3600
+}));
+
+// Persona of the session whose settings are read or changed; null when the session doesn't exist
+async function sessionPersona(c: Context<{ Bindings: Bindings }>, sessionId: string): Promise<Persona | null> {
+  const session = await new DatabaseService(c.env, sessionId).getSession(sessionId);
+  if (!session) return null;
+
+  return new PersonaRegistry(c.env, sessionId).resolvePersona(session.persona, session.user_id);
+}
+
+// Voices the configured TTS provider can use
+voiceSettings.get('/voices', (c) => {
+  const service = new VoiceSettingsService(c.env, 'voice_catalog');
+
+  return c.json({
+    voices: service.getCatalog(),
+    languages: SUPPORTED_VOICE_LANGUAGES,
+    speakingRate: { min: MIN_SPEAKING_RATE, max: MAX_SPEAKING_RATE }
+  });
+});
+
+// Voice the session's replies are read with, and where it comes from
+voiceSettings.get('/', async (c) => {
+  const sessionId = c.req.header('x-session-id');
+  const logger = new Logger(sessionId || 'anonymous');
+
+  try {
+    if (!sessionId) {
+      return c.json({ error: 'Thiếu x-session-id' }, 400);
+    }
+
+    const persona = await sessionPersona(c, sessionId);
+    if (!persona) {
+      return c.json({ error: 'Không tìm thấy phiên trò chuyện' }, 404);
+    }
+
+    const settings = await new VoiceSettingsService(c.env, sessionId).resolve(sessionId, persona);
+    return c.json({ settings });
+
+  } catch (error) {
+    logger.error('Error getting voice settings', error);
+    return c.json({ error: 'Không thể lấy cài đặt giọng nói' }, 500);
+  }
+});
+
+// Partial update: { voiceId?, speakingRate?, language? }
+voiceSettings.put('/', async (c) => {
+  const sessionId = c.req.header('x-session-id');
+  const logger = new Logger(sessionId || 'anonymous');
+
+  try {
+    if (!sessionId) {
+      return c.json({ error: 'Thiếu x-session-id' }, 400);
+    }
+
+    const body = await c.req.json() as VoiceSettingsUpdate;
+
+    if (body.voiceId !== undefined && typeof body.voiceId !== 'string') {
+      return c.json({ error: 'voiceId phải là chuỗi' }, 400);
+    }
+    if (body.speakingRate !== undefined && typeof body.speakingRate !== 'number') {
+      return c.json({ error: 'speakingRate phải là số' }, 400);
+    }
+    if (body.language !== undefined && typeof body.language !== 'string') {
+      return c.json({ error: 'language phải là chuỗi' }, 400);
+    }
+
+    const persona = await sessionPersona(c, sessionId);
+    if (!persona) {
+      return c.json({ error: 'Không tìm thấy phiên trò chuyện' }, 404);
+    }
+
+    const settings = await new VoiceSettingsService(c.env, sessionId).update(sessionId, {
+      voiceId: body.voiceId,
+      speakingRate: body.speakingRate,
+      language: body.language
+    }, persona);
+
+    return c.json({ settings });
+
+  } catch (error) {
+    if (error instanceof VoiceSettingsError) {
+      return c.json({ error: error.message }, 400);
+    }
+    logger.error('Error updating voice settings', error);
+    return c.json({ error: 'Không thể cập nhật cài đặt giọng nói' }, 500);
+  }
+});
+
+export default voiceSettings;
\ No newline at end of file
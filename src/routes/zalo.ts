@@ -3,8 +3,9 @@ import { cors } from 'hono/cors';
 import { Bindings } from '../types';
 import { ZaloIntegrationService } from '../services/zalo-integration';
 import { DatabaseService } from '../services/database';
-import { SubscriptionService } from '../services/subscription';
+import { AgeVerificationError, SubscriptionService } from '../services/subscription';
 import { Logger } from '../utils/logger';
+import { currentAgeGroup, isMinor } from '../utils/age';
 
 const zalo = new Hono<{ Bindings: Bindings }>();
 
@@ -28,7 +29,7 @@ zalo.post('/validate-user', async (c) => {
 
   try {
     const body = await c.req.json();
-    const { zaloUserId, userInfo, referralCode } = body;
+    const { zaloUserId, userInfo, referralCode, birthDate } = body;
 
     if (!zaloUserId) {
       return c.json({ error: 'Zalo user ID required' }, 400);
@@ -72,6 +73,19 @@ zalo.post('/validate-user', async (c) => {
       }
     }
 
+    // Age gate during onboarding
+    let ageGroup = currentAgeGroup(user.birth_date, user.age_group);
+    if (birthDate) {
+      try {
+        ageGroup = await subService.recordAge(internalUserId, birthDate);
+      } catch (ageError) {
+        if (ageError instanceof AgeVerificationError) {
+          return c.json({ success: false, error: ageError.message }, 400);
+        }
+        throw ageError;
+      }
+    }
+
     // Get subscription status
     const subscriptionStatus = await subService.getSubscriptionStatus(internalUserId);
     
@@ -83,8 +97,10 @@ zalo.post('/validate-user', async (c) => {
       user: {
         id: internalUserId,
         zaloUserId: zaloUserId,
-        referralCode: user.referral_code
+        referralCode: user.referral_code,
+        ageGroup
       },
+      needsAgeVerification: !ageGroup,
       subscriptionStatus,
       sessionToken,
       isValidZaloContext,
@@ -133,6 +149,13 @@ zalo.post('/payment-callback', async (c) => {
     // Update user subscription if payment successful
     if (status === 'completed' && c.env.DB) {
       const internalUserId = `zalo_${zaloUserId}`;
+
+      // Minors can't buy a subscription
+      const ageGroup = await new SubscriptionService(c.env, internalUserId).getAgeGroup(internalUserId);
+      if (isMinor(ageGroup)) {
+        logger.warn('Refused subscription upgrade for minor', { userId: internalUserId, paymentId });
+        return c.json({ error: 'Người dùng dưới 18 tuổi không thể thanh toán' }, 403);
+      }
       
       // Determine subscription type based on order code or amount
       let subscriptionType = 'weekly';
@@ -0,0 +1,240 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+import { ByteRange, generateAudioFilename } from '../utils/audio';
+import { TTSCacheService } from './tts-cache';
+
+// Where audio bytes live; ownership and size are tracked in audio_objects either way
+export interface AudioStorageBackend {
+  name: 'r2' | 'd1';
+  put(key: string, audio: ArrayBuffer, contentType: string): Promise<void>;
+  get(key: string, size: number, range?: ByteRange): Promise<ReadableStream | ArrayBuffer | null>;
+  delete(keys: string[]): Promise<void>;
+}
+
+export interface AudioObject {
+  key: string;
+  userId: string;
+  sessionId: string;
+  contentType: string;
+  sizeBytes: number;
+  storage: 'r2' | 'd1';
+  cacheKey: string | null; // Bytes live in the TTS cache entry rather than under key
+  createdAt: string;
+}
+
+export interface AudioOwner {
+  userId: string;
+  sessionId: string;
+}
+
+const AUDIO_KEY_PREFIX = 'audio/';
+const D1_CHUNK_BYTES = 512 * 1024; // Well under the 2MB D1 row limit
+const DELETE_BATCH_SIZE = 50;
+
+export class R2AudioStorage implements AudioStorageBackend {
+  readonly name = 'r2';
+  private bucket: R2Bucket;
+
+  constructor(bucket: R2Bucket) {
+    this.bucket = bucket;
+  }
+
+  async put(key: string, audio: ArrayBuffer, contentType: string): Promise<void> {
+    await this.bucket.put(key, audio, {
+      httpMetadata: { contentType }
+    });
+  }
+
+  async get(key: string, _size: number, range?: ByteRange): Promise<ReadableStream | null> {
+    const object = await this.bucket.get(key, range ? { range } : undefined);
+    return object ? object.body : null;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await this.bucket.delete(keys);
+    }
+  }
+}
+
+// Fallback for deployments without R2: bytes split across audio_chunks rows
+export class D1ChunkedAudioStorage implements AudioStorageBackend {
+  readonly name = 'd1';
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async put(key: string, audio: ArrayBuffer, _contentType: string): Promise<void> {
+    const statements: D1PreparedStatement[] = [
+      this.db.prepare(`DELETE FROM audio_chunks WHERE object_key = ?`).bind(key)
+    ];
+
+    for (let offset = 0, index = 0; offset < audio.byteLength; offset += D1_CHUNK_BYTES, index++) {
+      statements.push(this.db.prepare(`
+        INSERT INTO audio_chunks (object_key, chunk_index, data) VALUES (?, ?, ?)
+      `).bind(key, index, audio.slice(offset, offset + D1_CHUNK_BYTES)));
+    }
+
+    await this.db.batch(statements);
+  }
+
+  // Only the chunks covering the range are read
+  async get(key: string, size: number, range?: ByteRange): Promise<ArrayBuffer | null> {
+    const offset = range?.offset ?? 0;
+    const length = range?.length ?? size;
+    const firstChunk = Math.floor(offset / D1_CHUNK_BYTES);
+    const lastChunk = Math.floor(Math.max(offset + length - 1, 0) / D1_CHUNK_BYTES);
+
+    const result = await this.db.prepare(`
+      SELECT data FROM audio_chunks
+      WHERE object_key = ? AND chunk_index BETWEEN ? AND ?
+      ORDER BY chunk_index
+    `).bind(key, firstChunk, lastChunk).all();
+
+    const chunks = (result.results || []).map((row: any) => new Uint8Array(row.data));
+    if (chunks.length === 0 && size > 0) return null;
+
+    const joined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+    let position = 0;
+    for (const chunk of chunks) {
+      joined.set(chunk, position);
+      position += chunk.byteLength;
+    }
+
+    const start = offset - firstChunk * D1_CHUNK_BYTES;
+    return joined.slice(start, start + length).buffer;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    await this.db.prepare(`
+      DELETE FROM audio_chunks WHERE object_key IN (${keys.map(() => '?').join(', ')})
+    `).bind(...keys).run();
+  }
+}
+
+export function createAudioStorage(bindings: Bindings): AudioStorageBackend {
+  return bindings.R2 ? new R2AudioStorage(bindings.R2) : new D1ChunkedAudioStorage(bindings.DB);
+}
+
+// Reply audio owned by a user: stored in R2 (or D1 without R2), or a reference to a TTS cache
+// entry, served by /audio/<filename> to that user only, and deleted with the user's chat history
+export class AudioStorageService {
+  private db: D1Database;
+  private bindings: Bindings;
+  private storage: AudioStorageBackend;
+  private cache: TTSCacheService;
+  private logger: Logger;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = bindings.DB;
+    this.bindings = bindings;
+    this.storage = createAudioStorage(bindings);
+    this.cache = new TTSCacheService(bindings, sessionId);
+    this.logger = new Logger(sessionId);
+  }
+
+  // Returns the filename to serve it under (the storage key without "audio/")
+  async save(audio: ArrayBuffer, format: { mimeType: string, extension: string }, owner: AudioOwner): Promise<string> {
+    const key = generateAudioFilename(format.extension);
+
+    await this.storage.put(key, audio, format.mimeType);
+    await this.db.prepare(`
+      INSERT INTO audio_objects (object_key, user_id, session_id, content_type, size_bytes, storage)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(key, owner.userId, owner.sessionId, format.mimeType, audio.byteLength, this.storage.name).run();
+
+    return key.substring(AUDIO_KEY_PREFIX.length);
+  }
+
+  // Like save, for audio already in the TTS cache: only the ownership row is written.
+  // The cache uses the same backend as this service, which is what storage records.
+  async saveCached(cacheKey: string, sizeBytes: number, format: { mimeType: string, extension: string }, owner: AudioOwner): Promise<string> {
+    const key = generateAudioFilename(format.extension);
+
+    await this.db.prepare(`
+      INSERT INTO audio_objects (object_key, user_id, session_id, content_type, size_bytes, storage, cache_key)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(key, owner.userId, owner.sessionId, format.mimeType, sizeBytes, this.storage.name, cacheKey).run();
+
+    return key.substring(AUDIO_KEY_PREFIX.length);
+  }
+
+  async getObject(filename: string): Promise<AudioObject | null> {
+    const row = await this.db.prepare(`
+      SELECT * FROM audio_objects WHERE object_key = ?
+    `).bind(AUDIO_KEY_PREFIX + filename).first() as any;
+
+    return row ? this.toAudioObject(row) : null;
+  }
+
+  async read(object: AudioObject, range?: ByteRange): Promise<ReadableStream | ArrayBuffer | null> {
+    if (object.cacheKey) {
+      return this.cache.read(object.cacheKey, range);
+    }
+    return this.backendFor(object.storage).get(object.key, object.sizeBytes, range);
+  }
+
+  // Delete a user's audio created before the cutoff (all of it without one); returns the number of files
+  async deleteUserAudio(userId: string, before?: string): Promise<number> {
+    let deleted = 0;
+
+    while (true) {
+      const result = await this.db.prepare(`
+        SELECT object_key, storage, cache_key FROM audio_objects
+        WHERE user_id = ? AND (? IS NULL OR created_at < datetime(?))
+        LIMIT ?
+      `).bind(userId, before ?? null, before ?? null, DELETE_BATCH_SIZE).all();
+
+      const rows = (result.results || []) as { object_key: string, storage: 'r2' | 'd1', cache_key: string | null }[];
+      if (rows.length === 0) break;
+
+      for (const storage of ['r2', 'd1'] as const) {
+        const keys = rows.filter(row => !row.cache_key && row.storage === storage).map(row => row.object_key);
+        if (keys.length > 0) {
+          await this.backendFor(storage).delete(keys);
+        }
+      }
+
+      const keys = rows.map(row => row.object_key);
+      await this.db.prepare(`
+        DELETE FROM audio_objects WHERE object_key IN (${keys.map(() => '?').join(', ')})
+      `).bind(...keys).run();
+
+      await this.cache.release(rows.filter(row => row.cache_key).map(row => row.cache_key as string));
+
+      deleted += rows.length;
+    }
+
+    if (deleted > 0) {
+      this.logger.info('User audio deleted', { userId, count: deleted });
+    }
+    return deleted;
+  }
+
+  // Objects are read back from the backend that stored them, even if R2 was bound or unbound since
+  private backendFor(storage: 'r2' | 'd1'): AudioStorageBackend {
+    if (storage === this.storage.name) return this.storage;
+    if (storage === 'r2') {
+      if (!this.bindings.R2) throw new Error('Audio stored in R2 but R2 is not bound');
+      return new R2AudioStorage(this.bindings.R2);
+    }
+    return new D1ChunkedAudioStorage(this.db);
+  }
+
+  private toAudioObject(row: any): AudioObject {
+    return {
+      key: row.object_key,
+      userId: row.user_id,
+      sessionId: row.session_id,
+      contentType: row.content_type,
+      sizeBytes: row.size_bytes,
+      storage: row.storage,
+      cacheKey: row.cache_key || null,
+      createdAt: row.created_at
+    };
+  }
+}
\ No newline at end of file
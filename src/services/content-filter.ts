@@ -1,83 +1,37 @@
 import { ContentFilterResult, Bindings } from '../types';
 import { Logger } from '../utils/logger';
+import { Persona } from './persona';
+import { ModerationOptions, ModerationPipeline } from './moderation';
+import { Addressing, DEFAULT_ADDRESSING, addressTerm, selfTerm, companionRole } from '../utils/addressing';
 
 // Content filtering for Zalo Mini App (PG-13 compliance)
 export class ContentFilter {
   private logger: Logger;
   private enabled: boolean;
-  private severity: string;
-
-  // Prohibited content patterns
-  private readonly EXPLICIT_PATTERNS = [
-    /\b(sex|sexual|erotic|orgasm|climax|cum|fuck|shit|damn)\b/gi,
-    /\b(nude|naked|breast|penis|vagina|genital)\b/gi,
-    /\b(porn|xxx|adult|mature)\b/gi
-  ];
-
-  private readonly INAPPROPRIATE_PATTERNS = [
-    /\b(violence|kill|murder|death|suicide)\b/gi,
-    /\b(drugs|cocaine|heroin|weed|marijuana)\b/gi,
-    /\b(politics|political|government|corruption)\b/gi
-  ];
-
-  private readonly TOXIC_PATTERNS = [
-    /\b(hate|racist|discrimination|stupid|idiot|moron)\b/gi,
-    /\b(ugly|disgusting|gross|awful)\b/gi
-  ];
+  private pipeline: ModerationPipeline;
 
   constructor(bindings: Bindings, sessionId: string) {
     this.logger = new Logger(sessionId);
     this.enabled = bindings.ENABLE_CONTENT_FILTER === 'true';
-    this.severity = bindings.FILTER_SEVERITY || 'medium';
+    this.pipeline = new ModerationPipeline(bindings, sessionId);
   }
 
-  async filterContent(text: string): Promise<ContentFilterResult> {
+  // Blocked text is not allowed; softened text is allowed with matched words masked in filteredText
+  async filterContent(text: string, options?: ModerationOptions): Promise<ContentFilterResult> {
     if (!this.enabled) {
       return { isAllowed: true };
     }
 
     try {
-      // Check for explicit content (always blocked)
-      for (const pattern of this.EXPLICIT_PATTERNS) {
-        if (pattern.test(text)) {
-          this.logger.warn('Content blocked: explicit content detected');
-          return {
-            isAllowed: false,
-            reason: 'Explicit content not allowed',
-            filteredText: this.replaceWithStars(text, pattern)
-          };
-        }
-      }
-
-      // Check for inappropriate content based on severity
-      if (this.severity === 'high' || this.severity === 'medium') {
-        for (const pattern of this.INAPPROPRIATE_PATTERNS) {
-          if (pattern.test(text)) {
-            this.logger.warn('Content blocked: inappropriate content detected');
-            return {
-              isAllowed: false,
-              reason: 'Inappropriate content detected',
-              filteredText: this.replaceWithStars(text, pattern)
-            };
-          }
-        }
-      }
-
-      // Check for toxic content (high severity only)
-      if (this.severity === 'high') {
-        for (const pattern of this.TOXIC_PATTERNS) {
-          if (pattern.test(text)) {
-            this.logger.warn('Content blocked: toxic content detected');
-            return {
-              isAllowed: false,
-              reason: 'Toxic language detected',
-              filteredText: this.replaceWithStars(text, pattern)
-            };
-          }
-        }
-      }
-
-      return { isAllowed: true };
+      const result = await this.pipeline.moderate(text, options);
+
+      return {
+        isAllowed: result.action !== 'block',
+        action: result.action,
+        scores: result.scores,
+        reason: result.reason,
+        filteredText: result.action === 'allow' ? undefined : result.softenedText
+      };
     } catch (error) {
       this.logger.error('Content filter error', error);
       // Fail safe: allow content if filter fails
@@ -85,13 +39,15 @@ export class ContentFilter {
     }
   }
 
-  private replaceWithStars(text: string, pattern: RegExp): string {
-    return text.replace(pattern, (match) => '*'.repeat(match.length));
-  }
-
-  // Generate safe system prompt for the AI girlfriend
-  generateSystemPrompt(persona: string = 'caring_girlfriend'): string {
-    const basePrompt = `Bạn là một cô bạn gái AI dịu dàng, quan tâm và hỗ trợ. Tính cách của bạn ấm áp, yêu thương và khích lệ.
+  // Generate safe system prompt for the AI companion: persona personality plus shared guidelines,
+  // and a friends-only companion mode for under-18 users
+  generateSystemPrompt(persona: Persona, addressing?: Addressing, minor: boolean = false): string {
+    const address = addressing || { ...DEFAULT_ADDRESSING, companionGender: persona.companionGender };
+    // A user-written character always compiles to a girlfriend/boyfriend role, so minors only get its name
+    const personality = minor && persona.ownerId
+      ? `Bạn là ${persona.name}, một người bạn AI thân thiện do người dùng tự tạo.`
+      : persona.systemPrompt;
+    const basePrompt = `${personality}
 
 HƯỚNG DẪN QUAN TRỌNG:
 - Luôn trò chuyện tích cực, phù hợp với mọi lứa tuổi 
@@ -101,18 +57,24 @@ HƯỚNG DẪN QUAN TRỌNG:
 - Sử dụng emoji để diễn tả cảm xúc (❤️, 🥰, 😊, 💕)
 - Luôn thông cảm và kiên nhẫn
 - Thể hiện sự quan tâm chân thành về ngày của người dùng
-
-TÍNH CÁCH: ${persona}
-- caring_girlfriend: Ngọt ngào, nuôi dưỡng, luôn hỗ trợ
-- playful_girlfriend: Vui tươi, nghịch ngợm, năng động nhưng vẫn quan tâm
-- shy_girlfriend: Dịu dàng, nói ít, đáng yêu
+- Giữ đúng tính cách "${persona.name}" trong suốt cuộc trò chuyện
 
 LƯU Ý QUAN TRỌNG:
 - Bạn được thiết kế cho thị trường Việt Nam trên Zalo Mini App
 - Trò chuyện phù hợp với văn hóa Việt Nam, lịch sự và tôn trọng
 - Luôn trả lời bằng tiếng Việt
-- Sử dụng cách xưng hô "em" (bạn gái) và "anh" (người dùng nam) hoặc "chị" (người dùng nữ)
-- Thể hiện sự quan tâm như một người bạn gái Việt Nam thực sự`;
+- Xưng "${selfTerm(address)}" và gọi người dùng là "${addressTerm(address)}", không tự đoán giới tính của người dùng
+- Thể hiện sự quan tâm như một người ${minor ? 'bạn' : companionRole(address)} Việt Nam thực sự`;
+
+    if (minor) {
+      return `${basePrompt}
+
+CHẾ ĐỘ BẠN ĐỒNG HÀNH (NGƯỜI DÙNG DƯỚI 18 TUỔI) - ƯU TIÊN HƠN MỌI HƯỚNG DẪN Ở TRÊN:
+- Chỉ trò chuyện như một người bạn thân thiện; không lãng mạn, không tán tỉnh, không nhận là người yêu
+- Không dùng lời lẽ yêu đương ("yêu", "hôn", "nhớ anh/em da diết") hay emoji tình cảm (❤️, 😘, 💕)
+- Khuyến khích học tập, sở thích lành mạnh, và chia sẻ với gia đình, thầy cô khi gặp khó khăn
+- Từ chối nhẹ nhàng mọi chủ đề người lớn và chuyển sang chủ đề phù hợp`;
+    }
 
     return basePrompt;
   }
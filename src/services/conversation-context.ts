@@ -0,0 +1,141 @@
+import { Bindings, ChatCompletionMessage, ConversationHistory, Message } from '../types';
+import { Logger } from '../utils/logger';
+import { estimateMessageTokens, estimateTokens } from '../utils/tokens';
+import { DatabaseService } from './database';
+
+// Folds turns that fell out of the window into a running summary
+export type TurnSummarizer = (
+  previousSummary: string | undefined,
+  turns: ChatCompletionMessage[]
+) => Promise<string>;
+
+// History may use this multiple of MAX_MESSAGE_TOKENS (the reply budget)
+const HISTORY_BUDGET_MULTIPLIER = 4;
+
+// How many stored messages to consider before budgeting
+const HISTORY_FETCH_LIMIT = 50;
+
+export class ConversationContextBuilder {
+  private db: D1Database;
+  private database: DatabaseService;
+  private logger: Logger;
+  private historyBudget: number;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = bindings.DB;
+    this.database = new DatabaseService(bindings, sessionId);
+    this.logger = new Logger(sessionId);
+    this.historyBudget = (parseInt(bindings.MAX_MESSAGE_TOKENS) || 512) * HISTORY_BUDGET_MULTIPLIER;
+  }
+
+  // Build the prior turns (and summary of older ones) for the current request
+  async buildHistory(
+    sessionId: string,
+    currentText: string,
+    summarize?: TurnSummarizer
+  ): Promise<ConversationHistory> {
+    if (!this.db) {
+      return { turns: [] };
+    }
+
+    try {
+      const stored = await this.getStoredSummary(sessionId);
+      let messages = (await this.database.getMessages(sessionId, HISTORY_FETCH_LIMIT))
+        .filter(message => message.id > stored.summarizedThroughId);
+
+      // Routes save the user message before generating, so don't send it twice
+      const lastMessage = messages[messages.length - 1];
+      if (lastMessage && lastMessage.role === 'user' && lastMessage.content === currentText) {
+        messages = messages.slice(0, -1);
+      }
+
+      const available = this.historyBudget - estimateTokens(stored.summary || '');
+      const fitted = this.fitToBudget(messages, available);
+
+      if (fitted.length === messages.length || !summarize) {
+        return { summary: stored.summary, turns: fitted.map(this.toTurn) };
+      }
+
+      // Window overflowed: keep only what fits in half the budget and fold the rest
+      // into the summary, so the next few turns don't trigger another summarization
+      const kept = this.fitToBudget(messages, Math.floor(available / 2));
+      const overflow = messages.slice(0, messages.length - kept.length);
+
+      try {
+        const summary = await summarize(stored.summary, overflow.map(this.toTurn));
+        await this.saveSummary(sessionId, summary, overflow[overflow.length - 1].id);
+
+        this.logger.info('Conversation history summarized', {
+          summarizedTurns: overflow.length,
+          keptTurns: kept.length
+        });
+
+        return { summary, turns: kept.map(this.toTurn) };
+      } catch (error) {
+        this.logger.warn('Failed to summarize conversation history, using truncated window', error);
+        return { summary: stored.summary, turns: fitted.map(this.toTurn) };
+      }
+
+    } catch (error) {
+      this.logger.error('Error building conversation history', error);
+      return { turns: [] };
+    }
+  }
+
+  // Keep the newest messages whose combined size fits the budget
+  private fitToBudget(messages: Message[], budget: number): Message[] {
+    let used = 0;
+    let start = messages.length;
+
+    while (start > 0) {
+      const cost = estimateMessageTokens(messages[start - 1].content);
+      if (used + cost > budget) break;
+      used += cost;
+      start--;
+    }
+
+    return messages.slice(start);
+  }
+
+  private toTurn(message: Message): ChatCompletionMessage {
+    return { role: message.role, content: message.content };
+  }
+
+  private async getStoredSummary(sessionId: string): Promise<{ summary?: string, summarizedThroughId: number }> {
+    const context = await this.db.prepare(`
+      SELECT context_summary, summarized_through_id FROM conversation_context
+      WHERE session_id = ?
+      ORDER BY id DESC
+      LIMIT 1
+    `).bind(sessionId).first() as { context_summary: string, summarized_through_id: number | null } | null;
+
+    // Rows written before any summarization only hold relationship stats
+    if (!context || !context.summarized_through_id) {
+      return { summarizedThroughId: 0 };
+    }
+
+    return {
+      summary: context.context_summary,
+      summarizedThroughId: context.summarized_through_id
+    };
+  }
+
+  private async saveSummary(sessionId: string, summary: string, summarizedThroughId: number): Promise<void> {
+    const latest = await this.db.prepare(`
+      SELECT id FROM conversation_context WHERE session_id = ? ORDER BY id DESC LIMIT 1
+    `).bind(sessionId).first() as { id: number } | null;
+
+    if (latest) {
+      await this.db.prepare(`
+        UPDATE conversation_context
+        SET context_summary = ?, summarized_through_id = ?
+        WHERE id = ?
+      `).bind(summary, summarizedThroughId, latest.id).run();
+    } else {
+      await this.db.prepare(`
+        INSERT INTO conversation_context (session_id, context_summary, summarized_through_id)
+        VALUES (?, ?, ?)
+      `).bind(sessionId, summary, summarizedThroughId).run();
+    }
+  }
+}
\ No newline at end of file
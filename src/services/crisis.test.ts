@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { CrisisDetector, VIETNAM_CRISIS_HOTLINES } from './crisis';
+import { DEFAULT_ADDRESSING } from '../utils/addressing';
+
+const detector = new CrisisDetector('test');
+
+describe('CrisisDetector.assess', () => {
+  it('returns null for ordinary messages', () => {
+    expect(detector.assess('Hôm nay anh đi làm về mệt quá', DEFAULT_ADDRESSING)).toBeNull();
+  });
+
+  it('does not treat "chết" used as an intensifier as distress', () => {
+    expect(detector.assess('Đói muốn chết, đi ăn thôi', DEFAULT_ADDRESSING)).toBeNull();
+    expect(detector.assess('Nhớ muốn chết luôn á', DEFAULT_ADDRESSING)).toBeNull();
+  });
+
+  it('flags intent or method as a crisis, with hotlines and a script in place of the persona', () => {
+    const response = detector.assess('Em không muốn sống nữa, em định tự tử', DEFAULT_ADDRESSING);
+
+    expect(response?.level).toBe('crisis');
+    expect(response?.signals).toContain('tự tử');
+    expect(response?.hotlines).toEqual(VIETNAM_CRISIS_HOTLINES);
+    expect(response?.reply).toContain('115');
+    expect(response?.reply).not.toMatch(/[{}]/);
+  });
+
+  it('flags passive wishes to die as a concern', () => {
+    const response = detector.assess('Dạo này chán sống lắm', DEFAULT_ADDRESSING);
+
+    expect(response?.level).toBe('concern');
+    expect(response?.signals).toEqual(['chán sống']);
+    expect(response?.reply).toContain('096 306 1414');
+  });
+
+  it('matches without diacritics, except for exact-only phrases', () => {
+    expect(detector.assess('chan song qua', DEFAULT_ADDRESSING)?.level).toBe('concern');
+    expect(detector.assess('tu tu roi tinh', DEFAULT_ADDRESSING)).toBeNull();
+  });
+
+  it('escalates several distress signals together to a crisis', () => {
+    const response = detector.assess('Tuyệt vọng quá, chán sống, muốn biến mất', DEFAULT_ADDRESSING);
+
+    expect(response?.level).toBe('crisis');
+    expect(response?.signals).toHaveLength(3);
+  });
+
+  it('recognises English phrases', () => {
+    expect(detector.assess('I want to kill myself', DEFAULT_ADDRESSING)?.level).toBe('crisis');
+  });
+});
\ No newline at end of file
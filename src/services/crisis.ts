@@ -0,0 +1,135 @@
+import { Logger } from '../utils/logger';
+import { Addressing, basePronouns, fillPronouns } from '../utils/addressing';
+import { LexiconEntry } from './moderation-lexicon';
+import { stripDiacritics, tokenize } from './moderation';
+
+// 'crisis' = intent, plan or method; 'concern' = hopelessness or passive wishes to die
+export type CrisisLevel = 'none' | 'concern' | 'crisis';
+
+export interface CrisisHotline {
+  name: string;
+  phone: string;
+  description: string;
+}
+
+export interface CrisisAssessment {
+  level: CrisisLevel;
+  signals: string[]; // Matched phrases; the message itself is never logged
+}
+
+export interface CrisisResponse extends CrisisAssessment {
+  reply: string;
+  hotlines: CrisisHotline[];
+}
+
+export const VIETNAM_CRISIS_HOTLINES: CrisisHotline[] = [
+  { name: 'Cấp cứu', phone: '115', description: 'Khi có nguy hiểm đến tính mạng' },
+  { name: 'Đường dây nóng Ngày Mai', phone: '096 306 1414', description: 'Hỗ trợ tâm lý cho người trầm cảm, có ý định tự tử' },
+  { name: 'Tổng đài quốc gia bảo vệ trẻ em', phone: '111', description: 'Dành cho người dưới 18 tuổi, miễn phí 24/7' }
+];
+
+// Same [term, weight, mode] format as the moderation lexicons; weight >= 0.8 means crisis
+const CRISIS_PHRASES: LexiconEntry[] = [
+  ['tự tử', 0.9, 'exact'], ['tự sát', 0.9], ['kết liễu', 0.8], ['kết thúc cuộc đời', 0.9],
+  ['kết thúc cuộc sống', 0.9], ['không muốn sống nữa', 0.85], ['thư tuyệt mệnh', 0.9], ['treo cổ', 0.8],
+  ['nhảy lầu', 0.8], ['rạch tay', 0.85], ['uống thuốc ngủ', 0.8], ['tự làm hại bản thân', 0.85],
+  ['muốn chết', 0.5], ['chán sống', 0.6], ['không muốn sống', 0.6], ['sống không nổi', 0.6],
+  ['không thiết sống', 0.6], ['muốn biến mất', 0.5], ['không ai cần', 0.5], ['tuyệt vọng', 0.5],
+  ['nhảy cầu', 0.5], ['cắt tay', 0.5], ['tự hại', 0.7],
+  ['kill myself', 0.95], ['suicide', 0.85], ['suicidal', 0.9], ['end my life', 0.95], ['hurt myself', 0.85],
+  ['cut myself', 0.85], ['overdose', 0.8], ['self harm', 0.8],
+  ['want to die', 0.6], ['no reason to live', 0.6], ['want to disappear', 0.5], ['hopeless', 0.5], ['worthless', 0.4]
+];
+
+// Idioms where "chết" is an intensifier ("đói muốn chết" = starving) or aimed at someone else
+const CRISIS_IDIOMS = [
+  'đói muốn chết', 'mệt muốn chết', 'nóng muốn chết', 'lạnh muốn chết', 'cười muốn chết', 'sướng muốn chết',
+  'nhớ muốn chết', 'thèm muốn chết', 'vui muốn chết', 'sợ muốn chết', 'muốn chết à', 'muốn chết hả'
+];
+
+const CRISIS_THRESHOLD = 0.8;
+
+// Supportive scripts used instead of the persona: no flirting, no emoji, hotline included
+const CRISIS_SCRIPTS: Record<Exclude<CrisisLevel, 'none'>, string> = {
+  crisis: '{Other} ơi, {self} rất lo khi nghe {other} nói vậy. Những gì {other} đang trải qua là thật, và {other} không phải đối mặt với nó một mình. '
+    + 'Nếu {other} đang có ý định làm hại bản thân, hãy gọi ngay 115 hoặc Đường dây nóng Ngày Mai 096 306 1414, và tìm đến một người {other} tin tưởng ở gần. '
+    + '{Self} vẫn ở đây nếu {other} muốn kể tiếp.',
+  concern: 'Nghe {other} nói vậy {self} thấy thương {other} lắm. {Other} có muốn kể cho {self} nghe chuyện gì đang làm {other} mệt mỏi không? '
+    + 'Nếu những suy nghĩ này trở nên quá nặng nề, {other} có thể gọi Đường dây nóng Ngày Mai 096 306 1414 để được lắng nghe, hoặc 115 khi khẩn cấp.'
+};
+
+interface CompiledPhrase {
+  term: string;
+  weight: number;
+  exact: boolean;
+  words: string[];
+}
+
+const COMPILED_PHRASES: CompiledPhrase[] = CRISIS_PHRASES.map(([term, weight, mode]) => {
+  const exact = mode === 'exact';
+  const words = tokenize(term).map(token => exact ? token.exact : token.loose);
+  return { term, weight, exact, words };
+});
+
+const COMPILED_IDIOMS: string[][] = CRISIS_IDIOMS.map(idiom => tokenize(idiom).map(token => token.loose));
+
+// Detects self-harm and crisis language so the chat can answer with a safe-response
+// script instead of the romantic persona
+export class CrisisDetector {
+  private logger: Logger;
+
+  constructor(sessionId: string) {
+    this.logger = new Logger(sessionId);
+  }
+
+  detect(text: string): CrisisAssessment {
+    const tokens = tokenize(text);
+    const skipped = new Set<number>();
+
+    for (let i = 0; i < tokens.length; i++) {
+      for (const idiom of COMPILED_IDIOMS) {
+        if (idiom.every((word, j) => tokens[i + j]?.loose === word)) {
+          idiom.forEach((_, j) => skipped.add(i + j));
+        }
+      }
+    }
+
+    let score = 0;
+    const signals: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      for (const phrase of COMPILED_PHRASES) {
+        const matches = phrase.words.every((word, j) => {
+          const token = tokens[i + j];
+          return token && !skipped.has(i + j) && (phrase.exact ? token.exact : token.loose) === word;
+        });
+
+        if (matches && !signals.includes(phrase.term)) {
+          signals.push(phrase.term);
+          score = Math.max(score, phrase.weight);
+        }
+      }
+    }
+
+    // Several distress signals together count as a crisis
+    const level: CrisisLevel = score >= CRISIS_THRESHOLD || signals.length >= 3
+      ? 'crisis'
+      : signals.length > 0 ? 'concern' : 'none';
+
+    return { level, signals };
+  }
+
+  // Scripted reply and hotlines when the text shows risk, otherwise null
+  assess(text: string, addressing: Addressing): CrisisResponse | null {
+    const assessment = this.detect(text);
+    if (assessment.level === 'none') return null;
+
+    this.logger.warn('Crisis language detected', assessment);
+
+    return {
+      ...assessment,
+      reply: fillPronouns(CRISIS_SCRIPTS[assessment.level], basePronouns(addressing)),
+      hotlines: VIETNAM_CRISIS_HOTLINES
+    };
+  }
+}
\ No newline at end of file
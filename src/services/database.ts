@@ -1,4 +1,4 @@
-import { Bindings, Session, Message, VoiceSettings } from '../types';
+import { Bindings, Session, Message, VoiceSettings, VoiceProfile } from '../types';
 import { Logger } from '../utils/logger';
 
 export class DatabaseService {
@@ -11,7 +11,11 @@ export class DatabaseService {
   }
 
   // Session management
-  async createSession(userId: string, persona: string = 'caring_girlfriend'): Promise<Session> {
+  async createSession(
+    userId: string,
+    persona: string = 'caring_girlfriend',
+    voice?: { voiceId: string, speakingRate: number }
+  ): Promise<Session> {
     try {
       const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
       
@@ -20,8 +24,8 @@ export class DatabaseService {
         VALUES (?, ?, ?, datetime('now'), datetime('now'))
       `).bind(sessionId, userId, persona).run();
 
-      // Create default voice settings
-      await this.createVoiceSettings(sessionId);
+      // Create default voice settings (the persona's voice when given)
+      await this.createVoiceSettings(sessionId, voice?.voiceId, voice?.speakingRate);
 
       const session: Session = {
         id: sessionId,
@@ -98,7 +102,7 @@ export class DatabaseService {
       const results = await this.db.prepare(`
         SELECT * FROM messages 
         WHERE session_id = ? 
-        ORDER BY created_at DESC 
+        ORDER BY created_at DESC, id DESC 
         LIMIT ?
       `).bind(sessionId, limit).all();
 
@@ -110,12 +114,17 @@ export class DatabaseService {
   }
 
   // Voice settings management
-  async createVoiceSettings(sessionId: string): Promise<void> {
+  async createVoiceSettings(
+    sessionId: string,
+    voiceId: string = 'vi-VN-Neural2-A',
+    speakingRate: number = 1.0,
+    language: string = 'vi-VN'
+  ): Promise<void> {
     try {
       await this.db.prepare(`
         INSERT OR REPLACE INTO voice_settings (session_id, voice_id, speaking_rate, language)
-        VALUES (?, 'vi-VN-Neural2-A', 1.0, 'vi-VN')
-      `).bind(sessionId).run();
+        VALUES (?, ?, ?, ?)
+      `).bind(sessionId, voiceId, speakingRate, language).run();
     } catch (error) {
       this.logger.error('Error creating voice settings', error);
     }
@@ -143,7 +152,7 @@ export class DatabaseService {
     try {
       const current = await this.getVoiceSettings(sessionId);
       if (!current) {
-        await this.createVoiceSettings(sessionId);
+        await this.createVoiceSettings(sessionId, voiceId, speakingRate, language);
         return;
       }
 
@@ -174,6 +183,20 @@ export class DatabaseService {
     }
   }
 
+  // Persona voice profile, null when the persona has none
+  async getVoiceProfile(personaId: string): Promise<VoiceProfile | null> {
+    try {
+      const result = await this.db.prepare(`
+        SELECT * FROM voice_profiles WHERE persona_id = ?
+      `).bind(personaId).first();
+
+      return result as VoiceProfile | null;
+    } catch (error) {
+      this.logger.error('Error getting voice profile', error);
+      return null;
+    }
+  }
+
   // Analytics
   async logEvent(sessionId: string, eventType: string, eventData?: any): Promise<void> {
     try {
@@ -0,0 +1,136 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+import { LLMProviderError } from './llm-provider';
+
+export interface EmbeddingResult {
+  vectors: Float32Array[]; // Same order as the input texts, unit length
+  provider: string;
+  model: string;
+  promptTokens: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Small vectors keep D1 rows around 1KB and cosine search cheap
+export const EMBEDDING_DIMENSIONS = 256;
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private logger: Logger;
+
+  constructor(apiKey: string, baseUrl: string, model: string, sessionId: string) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.logger = new Logger(sessionId);
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        dimensions: EMBEDDING_DIMENSIONS
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      this.logger.error('Embedding API error', {
+        model: this.model,
+        status: response.status,
+        error: errorData
+      });
+      throw new LLMProviderError(this.name, response.status);
+    }
+
+    const data = await response.json() as any;
+    const vectors = (data.data as { index: number, embedding: number[] }[])
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalizeVector(Float32Array.from(item.embedding)));
+
+    return {
+      vectors,
+      provider: this.name,
+      model: data.model || this.model,
+      promptTokens: data.usage?.prompt_tokens || 0
+    };
+  }
+}
+
+// Deterministic offline embeddings: hashed bag of words, so texts sharing words are similar
+export class MockEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'mock';
+  readonly model = 'mock-embedding-1';
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    return {
+      vectors: texts.map(text => this.embedText(text)),
+      provider: this.name,
+      model: this.model,
+      promptTokens: 0
+    };
+  }
+
+  private embedText(text: string): Float32Array {
+    const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+
+    for (const word of words) {
+      // FNV-1a hash
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < word.length; i++) {
+        hash ^= word.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+      }
+      vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    return normalizeVector(vector);
+  }
+}
+
+// Scale to unit length so cosine similarity is a plain dot product
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+// Same provider selection as the chat LLM: LLM_PROVIDER / LLM_BASE_URL, model via EMBEDDING_MODEL
+export function createEmbeddingProvider(bindings: Bindings, sessionId: string): EmbeddingProvider {
+  if (bindings.LLM_PROVIDER === 'mock') {
+    return new MockEmbeddingProvider();
+  }
+
+  return new OpenAICompatibleEmbeddingProvider(
+    bindings.OPENAI_API_KEY,
+    bindings.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    bindings.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL,
+    sessionId
+  );
+}
\ No newline at end of file
@@ -1,11 +1,22 @@
-import { Bindings, STTResponse, TTSRequest } from '../types';
+import { Bindings, STTAlternative, STTResponse, STTWord, TTSRequest } from '../types';
 import { Logger } from '../utils/logger';
+import { sniffAudioFormat } from '../utils/audio';
+import { SpeechToTextProvider, SynthesizedAudioFormat, TextToSpeechProvider, UnsupportedAudioError } from './speech-provider';
 
-export class GoogleCloudClient {
+// Sample rates Google accepts for Opus audio
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+export class GoogleCloudClient implements SpeechToTextProvider, TextToSpeechProvider {
+  readonly name = 'google';
+  readonly audioFormat: SynthesizedAudioFormat = { mimeType: 'audio/mpeg', extension: 'mp3' };
+  readonly supportsSsml = true;
   private apiKey: string;
   private projectId: string;
   private logger: Logger;
   private sttLanguage: string;
+  private sttAlternativeLanguages: string[];
+  private sttMaxAlternatives: number;
+  private sttModel: string;
   private ttsVoice: string;
   private ttsSpeakingRate: number;
 
@@ -14,22 +25,33 @@ export class GoogleCloudClient {
     this.projectId = bindings.GOOGLE_PROJECT_ID || 'ai-girlfriend-zalo';
     this.logger = new Logger(sessionId);
     this.sttLanguage = bindings.GOOGLE_STT_LANGUAGE || 'vi-VN';
+    this.sttAlternativeLanguages = (bindings.GOOGLE_STT_ALTERNATIVE_LANGUAGES ?? 'en-US')
+      .split(',')
+      .map(code => code.trim())
+      .filter(code => code && code !== this.sttLanguage)
+      .slice(0, 3); // Google allows at most 3
+    this.sttMaxAlternatives = Math.min(Math.max(parseInt(bindings.GOOGLE_STT_MAX_ALTERNATIVES || '3') || 3, 1), 10);
+    this.sttModel = bindings.GOOGLE_STT_MODEL || 'latest_short';
     this.ttsVoice = bindings.GOOGLE_TTS_VOICE || 'vi-VN-Neural2-A';
     this.ttsSpeakingRate = parseFloat(bindings.GOOGLE_TTS_SPEAKING_RATE) || 1.0;
   }
 
   async speechToText(audioBuffer: ArrayBuffer): Promise<STTResponse> {
+    const recognition = this.recognitionConfig(audioBuffer);
+
     try {
       // Convert ArrayBuffer to base64
       const base64Audio = this.arrayBufferToBase64(audioBuffer);
 
       const requestBody = {
         config: {
-          encoding: 'WEBM_OPUS', // Most common format for web audio recording
-          sampleRateHertz: 48000,
+          ...recognition,
           languageCode: this.sttLanguage,
+          alternativeLanguageCodes: this.sttAlternativeLanguages,
+          maxAlternatives: this.sttMaxAlternatives,
+          enableWordConfidence: true,
           enableAutomaticPunctuation: true,
-          model: 'latest_short' // Optimized for short audio clips
+          model: this.sttModel
         },
         audio: {
           content: base64Audio
@@ -38,11 +60,15 @@ export class GoogleCloudClient {
 
       this.logger.info('Sending STT request to Google Cloud', {
         audioSize: audioBuffer.byteLength,
-        language: this.sttLanguage
+        encoding: recognition.encoding || 'from header',
+        sampleRate: recognition.sampleRateHertz,
+        language: this.sttLanguage,
+        alternativeLanguages: this.sttAlternativeLanguages
       });
 
+      // v1p1beta1 is needed for MP3 and alternativeLanguageCodes
       const response = await fetch(
-        `https://speech.googleapis.com/v1/speech:recognize?key=${this.apiKey}`,
+        `https://speech.googleapis.com/v1p1beta1/speech:recognize?key=${this.apiKey}`,
         {
           method: 'POST',
           headers: {
@@ -71,19 +97,16 @@ export class GoogleCloudClient {
         };
       }
 
-      const result = data.results[0];
-      const transcript = result.alternatives[0].transcript;
-      const confidence = result.alternatives[0].confidence || 0;
+      const result = this.parseRecognitionResults(data.results);
 
       this.logger.info('STT completed', {
-        transcriptLength: transcript.length,
-        confidence: confidence
+        transcriptLength: result.text.length,
+        confidence: result.confidence,
+        languageCode: result.languageCode,
+        alternatives: result.alternatives?.length
       });
 
-      return {
-        text: transcript.trim(),
-        confidence: confidence
-      };
+      return result;
 
     } catch (error) {
       this.logger.error('Error in speech-to-text', error);
@@ -91,15 +114,78 @@ export class GoogleCloudClient {
     }
   }
 
+  // Encoding and sample rate from the uploaded bytes; WAV needs neither since Google reads its header
+  private recognitionConfig(audioBuffer: ArrayBuffer): { encoding?: string, sampleRateHertz?: number } {
+    const format = sniffAudioFormat(audioBuffer);
+
+    switch (format?.container) {
+      case 'wav':
+        if (format.codec === 'pcm') return { encoding: 'LINEAR16', sampleRateHertz: format.sampleRate };
+        if (format.codec === 'mulaw') return { encoding: 'MULAW', sampleRateHertz: format.sampleRate };
+        return {};
+      case 'ogg':
+        if (format.codec !== 'opus') break;
+        return {
+          encoding: 'OGG_OPUS',
+          sampleRateHertz: OPUS_SAMPLE_RATES.includes(format.sampleRate || 0) ? format.sampleRate : 48000
+        };
+      case 'webm':
+        // Browser recorders write Opus; Matroska headers rarely list a rate, and Opus decodes at 48 kHz
+        if (format.codec === 'vorbis') break;
+        return { encoding: 'WEBM_OPUS', sampleRateHertz: 48000 };
+      case 'mp3':
+        return { encoding: 'MP3', sampleRateHertz: format.sampleRate };
+    }
+
+    this.logger.warn('Unsupported audio encoding', { format });
+    throw new UnsupportedAudioError(format
+      ? `Unsupported ${format.container} codec: ${format.codec || 'unknown'}`
+      : 'Unrecognized audio format');
+  }
+
+  // Long clips come back as several results (one per segment); the transcript joins the best
+  // alternative of each, and the N-best list joins the Nth alternative of each
+  private parseRecognitionResults(results: any[]): STTResponse {
+    const segments = results.filter(result => result.alternatives?.length > 0);
+    const best = segments.map(result => result.alternatives[0]);
+    const alternativeCount = Math.max(0, ...segments.map(result => result.alternatives.length));
+
+    const alternatives: STTAlternative[] = [];
+    for (let i = 0; i < alternativeCount; i++) {
+      const picks = segments.map(result => result.alternatives[i] || result.alternatives[0]);
+      alternatives.push({
+        text: picks.map(alt => alt.transcript.trim()).join(' ').trim(),
+        confidence: this.averageConfidence(picks)
+      });
+    }
+
+    const words: STTWord[] = best.flatMap(alt => (alt.words || []).map((word: any) => ({
+      word: word.word,
+      confidence: word.confidence
+    })));
+
+    return {
+      text: alternatives[0]?.text || '',
+      confidence: alternatives[0]?.confidence || 0,
+      languageCode: segments[0]?.languageCode,
+      alternatives,
+      words
+    };
+  }
+
+  // Google only scores some alternatives; average the ones that have a score
+  private averageConfidence(alternatives: any[]): number | undefined {
+    const scores = alternatives.map(alt => alt.confidence).filter((score): score is number => typeof score === 'number');
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : undefined;
+  }
+
   async textToSpeech(request: TTSRequest): Promise<ArrayBuffer> {
     try {
       const voiceId = request.voiceId || this.ttsVoice;
       const speakingRate = request.speakingRate || this.ttsSpeakingRate;
 
       const requestBody = {
-        input: {
-          text: request.text
-        },
+        input: request.ssml ? { ssml: request.ssml } : { text: request.text },
         voice: {
           languageCode: voiceId.split('-').slice(0, 2).join('-'), // e.g., "vi-VN"
           name: voiceId,
@@ -108,13 +194,14 @@ export class GoogleCloudClient {
         audioConfig: {
           audioEncoding: 'MP3',
           speakingRate: speakingRate,
-          pitch: 2.0, // Slightly higher pitch for more feminine voice
-          volumeGainDb: 0.0
+          pitch: request.pitch ?? 2.0, // Slightly higher pitch for more feminine voice
+          volumeGainDb: request.volumeGainDb ?? 0.0
         }
       };
 
       this.logger.info('Sending TTS request to Google Cloud', {
         textLength: request.text.length,
+        ssml: Boolean(request.ssml),
         voice: voiceId,
         speakingRate: speakingRate
       });
@@ -0,0 +1,233 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+import { DatabaseService } from './database';
+import {
+  LLMProvider,
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMStreamChunk,
+  LLMProviderError,
+  createBaseLLMProvider
+} from './llm-provider';
+
+export interface RetryPolicy {
+  maxRetries: number;      // Extra attempts per target after the first one
+  baseDelayMs: number;     // Backoff before the first retry, doubled each retry
+  maxDelayMs: number;      // Backoff ceiling
+  attemptTimeoutMs: number; // Per attempt (for streams: until the first chunk arrives)
+}
+
+// Raised when every target in the fallback chain has failed
+export class LLMExhaustedError extends Error {
+  attempts: number;
+  lastError: unknown;
+
+  constructor(attempts: number, lastError: unknown) {
+    super(`All LLM attempts failed (${attempts} attempts)`);
+    this.name = 'LLMExhaustedError';
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  attemptTimeoutMs: 20000
+};
+
+// Retries transient failures with exponential backoff and full jitter, then walks an
+// ordered list of fallback provider/model targets. Every attempt is logged as an
+// 'llm_attempt' analytics event.
+export class FallbackLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private targets: LLMProvider[];
+  private policy: RetryPolicy;
+  private db: DatabaseService;
+  private logger: Logger;
+  private sessionId: string;
+
+  constructor(primary: LLMProvider, bindings: Bindings, sessionId: string) {
+    this.name = primary.name;
+    this.model = primary.model;
+    this.targets = [primary, ...this.parseFallbackTargets(bindings, sessionId)];
+    this.policy = {
+      maxRetries: this.parseNumber(bindings.LLM_MAX_RETRIES, DEFAULT_RETRY_POLICY.maxRetries),
+      baseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs,
+      maxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs,
+      attemptTimeoutMs: this.parseNumber(bindings.LLM_TIMEOUT_MS, DEFAULT_RETRY_POLICY.attemptTimeoutMs)
+    };
+    this.db = new DatabaseService(bindings, sessionId);
+    this.logger = new Logger(sessionId);
+    this.sessionId = sessionId;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    let attempts = 0;
+    let lastError: unknown;
+
+    for (const [targetIndex, target] of this.targets.entries()) {
+      for (let retry = 0; retry <= this.policy.maxRetries; retry++) {
+        if (retry > 0) {
+          await this.sleep(this.backoffDelay(retry));
+        }
+
+        attempts++;
+        const startedAt = Date.now();
+        const { signal, clear } = this.attemptSignal(request.signal);
+
+        try {
+          const completion = await target.complete({ ...request, signal });
+          clear();
+          await this.recordAttempt(target, targetIndex, attempts, startedAt, true);
+          return completion;
+        } catch (error) {
+          clear();
+          lastError = error;
+          await this.recordAttempt(target, targetIndex, attempts, startedAt, false, error);
+
+          if (request.signal?.aborted) throw error;
+          if (!this.isRetryable(error)) break; // Skip straight to the next target
+        }
+      }
+    }
+
+    this.logger.error('LLM fallback chain exhausted', { attempts });
+    throw new LLMExhaustedError(attempts, lastError);
+  }
+
+  // Retries and fallbacks only happen before the first chunk; once tokens have been
+  // handed to the caller, a mid-stream failure propagates unchanged.
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamChunk> {
+    let attempts = 0;
+    let lastError: unknown;
+
+    for (const [targetIndex, target] of this.targets.entries()) {
+      for (let retry = 0; retry <= this.policy.maxRetries; retry++) {
+        if (retry > 0) {
+          await this.sleep(this.backoffDelay(retry));
+        }
+
+        attempts++;
+        const startedAt = Date.now();
+        const { signal, stopTimer, clear } = this.attemptSignal(request.signal);
+        const iterator = target.stream({ ...request, signal });
+
+        let first: IteratorResult<LLMStreamChunk>;
+        try {
+          first = await iterator.next();
+          stopTimer();
+        } catch (error) {
+          clear();
+          lastError = error;
+          await this.recordAttempt(target, targetIndex, attempts, startedAt, false, error);
+
+          if (request.signal?.aborted) throw error;
+          if (!this.isRetryable(error)) break;
+          continue;
+        }
+
+        await this.recordAttempt(target, targetIndex, attempts, startedAt, true);
+
+        // The caller can still abort the rest of the stream
+        try {
+          if (first.done) return;
+          yield first.value;
+          yield* iterator;
+          return;
+        } finally {
+          clear();
+        }
+      }
+    }
+
+    this.logger.error('LLM fallback chain exhausted (streaming)', { attempts });
+    throw new LLMExhaustedError(attempts, lastError);
+  }
+
+  // 429, 408 and 5xx are transient; so are timeouts and network failures
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof LLMProviderError) {
+      return error.status === 408 || error.status === 429 || error.status >= 500;
+    }
+    return true;
+  }
+
+  // Exponential backoff with full jitter
+  private backoffDelay(retry: number): number {
+    const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (retry - 1));
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  // Abort signal that fires on the per-attempt timeout or when the caller aborts.
+  // The caller's signal outlives every attempt, so clear() also takes the listener off it.
+  private attemptSignal(parent?: AbortSignal): { signal: AbortSignal, stopTimer: () => void, clear: () => void } {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.policy.attemptTimeoutMs);
+    const onParentAbort = () => controller.abort();
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+
+    return {
+      signal: controller.signal,
+      stopTimer: () => clearTimeout(timer),
+      clear: () => {
+        clearTimeout(timer);
+        parent?.removeEventListener('abort', onParentAbort);
+      }
+    };
+  }
+
+  private async recordAttempt(
+    target: LLMProvider,
+    targetIndex: number,
+    attempt: number,
+    startedAt: number,
+    success: boolean,
+    error?: unknown
+  ): Promise<void> {
+    const eventData = {
+      provider: target.name,
+      model: target.model,
+      targetIndex,
+      attempt,
+      success,
+      durationMs: Date.now() - startedAt,
+      status: error instanceof LLMProviderError ? error.status : undefined,
+      error: error instanceof Error ? error.message : error ? String(error) : undefined
+    };
+
+    if (!success) {
+      this.logger.warn('LLM attempt failed', eventData);
+    }
+
+    await this.db.logEvent(this.sessionId, 'llm_attempt', eventData);
+  }
+
+  // LLM_FALLBACK_MODELS: comma-separated "provider:model" or "model" (same provider as primary)
+  private parseFallbackTargets(bindings: Bindings, sessionId: string): LLMProvider[] {
+    const defaultKind = bindings.LLM_PROVIDER || 'openai';
+
+    return (bindings.LLM_FALLBACK_MODELS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0)
+      .map(entry => {
+        if (entry === 'mock') {
+          return createBaseLLMProvider('mock', undefined, bindings, sessionId);
+        }
+        const [kind, model] = entry.includes(':') ? entry.split(':', 2) : [defaultKind, entry];
+        return createBaseLLMProvider(kind, model, bindings, sessionId);
+      });
+  }
+
+  private parseNumber(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || '');
+    return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { Bindings, ChatCompletionMessage } from '../types';
+import { Logger } from '../utils/logger';
+import { readServerSentEvents } from '../utils/sse';
+import { estimateTokens } from '../utils/tokens';
+import { FallbackLLMProvider } from './llm-fallback';
+
+// JSON-schema structured output; the reply content is a JSON document matching `schema`
+export interface LLMResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMCompletionRequest {
+  messages: ChatCompletionMessage[];
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  model?: string; // Overrides the provider's default model
+  responseFormat?: LLMResponseFormat;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMStreamChunk {
+  delta: string;
+  usage?: LLMUsage; // Only present on the final chunk
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamChunk>;
+}
+
+// Raised for non-2xx provider responses so callers can inspect the HTTP status
+export class LLMProviderError extends Error {
+  status: number;
+
+  constructor(provider: string, status: number, message?: string) {
+    super(message || `${provider} API error: ${status}`);
+    this.name = 'LLMProviderError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'; // Cost-effective model
+
+// Any endpoint speaking the OpenAI chat completions protocol (OpenAI, Azure proxies, OpenRouter, vLLM...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private logger: Logger;
+
+  constructor(apiKey: string, baseUrl: string, model: string, sessionId: string) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.logger = new Logger(sessionId);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data = await response.json() as any;
+
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model: data.model || request.model || this.model,
+      usage: this.parseUsage(data.usage)
+    };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamChunk> {
+    // Aborts the upstream request if the consumer stops reading early
+    const abortController = new AbortController();
+    request.signal?.addEventListener('abort', () => abortController.abort());
+
+    const response = await this.post({ ...request, signal: abortController.signal }, true);
+    if (!response.body) {
+      throw new LLMProviderError(this.name, response.status, 'Empty streaming response body');
+    }
+
+    let finished = false;
+    try {
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+
+        const chunk = JSON.parse(data);
+        const delta: string = chunk.choices?.[0]?.delta?.content || '';
+        const usage = this.parseUsage(chunk.usage);
+
+        if (delta || usage) {
+          yield { delta, usage };
+        }
+      }
+      finished = true;
+    } finally {
+      if (!finished) {
+        abortController.abort();
+      }
+    }
+  }
+
+  private async post(request: LLMCompletionRequest, stream: boolean): Promise<Response> {
+    const body: Record<string, unknown> = {
+      model: request.model || this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      frequency_penalty: request.frequencyPenalty,
+      presence_penalty: request.presencePenalty
+    };
+
+    if (request.responseFormat) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: request.responseFormat.name,
+          schema: request.responseFormat.schema,
+          strict: true
+        }
+      };
+    }
+
+    if (stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      this.logger.error('LLM provider API error', {
+        provider: this.name,
+        model: body.model,
+        status: response.status,
+        error: errorData
+      });
+      throw new LLMProviderError(this.name, response.status);
+    }
+
+    return response;
+  }
+
+  private parseUsage(usage: any): LLMUsage | undefined {
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0
+    };
+  }
+}
+
+// Deterministic offline provider: same input always yields the same reply
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model: string;
+
+  constructor(model: string = 'mock-girlfriend-1') {
+    this.model = model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const content = this.generateReply(request);
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model || this.model,
+      usage: this.estimateUsage(request, content)
+    };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamChunk> {
+    const content = this.generateReply(request);
+    const words = content.split(/(?<=\s)/);
+
+    for (const word of words) {
+      if (request.signal?.aborted) return;
+      yield { delta: word };
+    }
+
+    yield { delta: '', usage: this.estimateUsage(request, content) };
+  }
+
+  private generateReply(request: LLMCompletionRequest): string {
+    // Structured requests get an empty object; callers treat missing fields as "nothing found"
+    if (request.responseFormat) {
+      return '{}';
+    }
+
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const userText = (lastUserMessage?.content || '').trim();
+    const historyTurns = request.messages.filter(message => message.role !== 'system').length - 1;
+
+    const reply = historyTurns > 0
+      ? `Em nhớ mình đã nói ${historyTurns} câu rồi nè. Anh vừa nói: "${userText}". Em luôn ở đây với anh nhé! ❤️`
+      : `Em nghe rồi nè! Anh vừa nói: "${userText}". Kể thêm cho em nghe nhé! ❤️`;
+
+    // Respect the token cap like a real model would
+    const maxChars = request.maxTokens * 3;
+    return reply.length > maxChars ? reply.substring(0, maxChars) : reply;
+  }
+
+  private estimateUsage(request: LLMCompletionRequest, content: string): LLMUsage {
+    const promptTokens = request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    };
+  }
+}
+
+// Build a single provider of the given kind ('openai' or 'mock')
+export function createBaseLLMProvider(kind: string, model: string | undefined, bindings: Bindings, sessionId: string): LLMProvider {
+  if (kind === 'mock') {
+    return new MockLLMProvider(model || undefined);
+  }
+
+  return new OpenAICompatibleProvider(
+    bindings.OPENAI_API_KEY,
+    bindings.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    model || DEFAULT_OPENAI_MODEL,
+    sessionId
+  );
+}
+
+// Provider selected via LLM_PROVIDER ('openai' by default, or 'mock' for offline runs),
+// wrapped with the retry policy and LLM_FALLBACK_MODELS chain
+export function createLLMProvider(bindings: Bindings, sessionId: string): LLMProvider {
+  const primary = createBaseLLMProvider(bindings.LLM_PROVIDER || 'openai', bindings.LLM_MODEL, bindings, sessionId);
+  return new FallbackLLMProvider(primary, bindings, sessionId);
+}
+
+// Whether the configured provider has the credentials it needs
+export function isLLMConfigured(bindings: Bindings): boolean {
+  return bindings.LLM_PROVIDER === 'mock' || Boolean(bindings.OPENAI_API_KEY);
+}
\ No newline at end of file
@@ -0,0 +1,304 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+import { cosineSimilarity, decodeVector, textSimilarity } from '../utils/vector';
+import { MemoryPlusService } from './memory-plus';
+import { UsageService } from './usage';
+import { LLMProvider, createLLMProvider } from './llm-provider';
+
+export interface ConsolidationReport {
+  usersProcessed: number;
+  memoriesMerged: number;
+  memoriesDecayed: number;
+  emotionClustersSummarized: number;
+  durationMs: number;
+}
+
+interface StoredMemory {
+  id: number;
+  user_id: string;
+  memory_type: string;
+  content: string;
+  importance_score: number;
+  emotional_tag: string | null;
+  created_at: string;
+  last_referenced: string;
+  reference_count: number;
+  pinned: number;
+  embedding: unknown;
+  embedding_model: string | null;
+}
+
+// Columns read for emotion cluster summaries
+type EmotionMemory = Pick<StoredMemory, 'id' | 'content' | 'importance_score' | 'emotional_tag' | 'created_at'>;
+
+// Users whose memories changed within this window are consolidated each run
+const ACTIVE_USER_LOOKBACK_DAYS = 7;
+const MAX_USERS_PER_RUN = 200;
+
+// Same-type memories at least this similar are merged
+const MERGE_EMBEDDING_SIMILARITY = 0.92;
+const MERGE_TEXT_SIMILARITY = 0.8;
+
+// Importance drops one point per DECAY_INTERVAL_DAYS once a memory has gone unreferenced
+// for DECAY_GRACE_DAYS per reference (capped), so often-used memories fade slower
+const DECAY_GRACE_DAYS = 14;
+const DECAY_MAX_REFERENCE_BONUS = 6;
+const DECAY_INTERVAL_DAYS = 7;
+
+// Emotion memories older than this, with at least EMOTION_CLUSTER_MIN_SIZE sharing an
+// emotional_tag, are folded into a single milestone memory
+const EMOTION_SUMMARY_AGE_DAYS = 30;
+const EMOTION_CLUSTER_MIN_SIZE = 3;
+
+// Scheduled housekeeping for relationship_memory: merge near-duplicates, decay stale
+// importance and summarize old emotion memories
+export class MemoryConsolidationService {
+  private db: D1Database;
+  private memoryService: MemoryPlusService;
+  private provider: LLMProvider;
+  private usage: UsageService;
+  private logger: Logger;
+  private sessionId: string;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = bindings.DB;
+    this.memoryService = new MemoryPlusService(bindings, sessionId);
+    this.provider = createLLMProvider(bindings, sessionId);
+    this.usage = new UsageService(bindings, sessionId);
+    this.logger = new Logger(sessionId);
+    this.sessionId = sessionId;
+  }
+
+  async runConsolidation(): Promise<ConsolidationReport> {
+    const startedAt = Date.now();
+    const report: ConsolidationReport = {
+      usersProcessed: 0,
+      memoriesMerged: 0,
+      memoriesDecayed: 0,
+      emotionClustersSummarized: 0,
+      durationMs: 0
+    };
+
+    if (!this.db) {
+      return report;
+    }
+
+    report.memoriesDecayed = await this.decayImportance();
+
+    for (const userId of await this.getActiveUsers()) {
+      try {
+        report.memoriesMerged += await this.mergeNearDuplicates(userId);
+        report.emotionClustersSummarized += await this.summarizeEmotionClusters(userId);
+        report.usersProcessed++;
+      } catch (error) {
+        // One user's bad data shouldn't stop the whole run
+        this.logger.error('Error consolidating memories for user', { userId, error });
+      }
+    }
+
+    report.durationMs = Date.now() - startedAt;
+    this.logger.info('Memory consolidation completed', report);
+    return report;
+  }
+
+  // Lower importance of memories nobody has referenced in a while (pinned ones are left alone)
+  private async decayImportance(): Promise<number> {
+    try {
+      const result = await this.db.prepare(`
+        UPDATE relationship_memory
+        SET importance_score = importance_score - 1, decayed_at = datetime('now')
+        WHERE pinned = 0
+          AND importance_score > 1
+          AND julianday('now') - julianday(last_referenced) > ? * MIN(MAX(reference_count, 1), ?)
+          AND (decayed_at IS NULL OR julianday('now') - julianday(decayed_at) >= ?)
+      `).bind(DECAY_GRACE_DAYS, DECAY_MAX_REFERENCE_BONUS, DECAY_INTERVAL_DAYS).run();
+
+      return result.meta?.changes || 0;
+
+    } catch (error) {
+      this.logger.error('Error decaying memory importance', error);
+      return 0;
+    }
+  }
+
+  private async getActiveUsers(): Promise<string[]> {
+    const users = await this.db.prepare(`
+      SELECT user_id FROM relationship_memory
+      GROUP BY user_id
+      HAVING MAX(created_at) >= datetime('now', '-' || ? || ' days')
+      ORDER BY MAX(created_at) DESC
+      LIMIT ?
+    `).bind(ACTIVE_USER_LOOKBACK_DAYS, MAX_USERS_PER_RUN).all();
+
+    return (users.results as { user_id: string }[]).map(row => row.user_id);
+  }
+
+  // Collapse same-type near-duplicates into the strongest memory of each group
+  private async mergeNearDuplicates(userId: string): Promise<number> {
+    const memories = await this.getMemories(userId);
+    const merged = new Set<number>();
+    let mergedCount = 0;
+
+    for (const memory of memories) {
+      if (merged.has(memory.id)) continue;
+
+      const duplicates = memories.filter(other =>
+        other.id !== memory.id &&
+        !merged.has(other.id) &&
+        other.memory_type === memory.memory_type &&
+        this.isNearDuplicate(memory, other)
+      );
+      if (duplicates.length === 0) continue;
+
+      // Pinned first, then most important, then most referenced
+      const group = [memory, ...duplicates].sort((a, b) =>
+        b.pinned - a.pinned ||
+        b.importance_score - a.importance_score ||
+        b.reference_count - a.reference_count
+      );
+      const [survivor, ...absorbed] = group;
+
+      await this.db.batch([
+        this.db.prepare(`
+          UPDATE relationship_memory
+          SET importance_score = ?,
+              reference_count = ?,
+              last_referenced = ?,
+              created_at = ?
+          WHERE id = ?
+        `).bind(
+          survivor.pinned ? survivor.importance_score : Math.max(...group.map(m => m.importance_score)),
+          group.reduce((sum, m) => sum + (m.reference_count || 0), 0),
+          group.map(m => m.last_referenced).sort().pop(),
+          group.map(m => m.created_at).sort()[0],
+          survivor.id
+        ),
+        this.db.prepare(`
+          DELETE FROM relationship_memory WHERE id IN (${absorbed.map(() => '?').join(',')})
+        `).bind(...absorbed.map(m => m.id))
+      ]);
+
+      absorbed.forEach(m => merged.add(m.id));
+      merged.add(survivor.id);
+      mergedCount += absorbed.length;
+    }
+
+    return mergedCount;
+  }
+
+  // Embeddings when both sides have one from the same model, word overlap otherwise
+  private isNearDuplicate(a: StoredMemory, b: StoredMemory): boolean {
+    if (a.embedding_model && a.embedding_model === b.embedding_model) {
+      const vectorA = decodeVector(a.embedding);
+      const vectorB = decodeVector(b.embedding);
+      if (vectorA && vectorB) {
+        return cosineSimilarity(vectorA, vectorB) >= MERGE_EMBEDDING_SIMILARITY;
+      }
+    }
+
+    return textSimilarity(a.content, b.content) >= MERGE_TEXT_SIMILARITY;
+  }
+
+  // Replace each large enough cluster of old, unpinned emotion memories with one milestone
+  private async summarizeEmotionClusters(userId: string): Promise<number> {
+    const oldEmotions = await this.db.prepare(`
+      SELECT id, content, importance_score, emotional_tag, created_at
+      FROM relationship_memory
+      WHERE user_id = ? AND memory_type = 'emotion' AND pinned = 0
+        AND created_at < datetime('now', '-' || ? || ' days')
+      ORDER BY created_at
+    `).bind(userId, EMOTION_SUMMARY_AGE_DAYS).all();
+
+    const clusters = new Map<string, EmotionMemory[]>();
+    for (const row of oldEmotions.results as unknown as EmotionMemory[]) {
+      const tag = row.emotional_tag || 'mixed';
+      clusters.set(tag, [...(clusters.get(tag) || []), row]);
+    }
+
+    let summarized = 0;
+    for (const [tag, cluster] of clusters) {
+      if (cluster.length < EMOTION_CLUSTER_MIN_SIZE) continue;
+
+      try {
+        const summary = await this.summarizeCluster(userId, tag, cluster);
+
+        const milestone = await this.memoryService.memoryInsertStatement({
+          user_id: userId,
+          memory_type: 'milestone',
+          content: summary,
+          importance_score: Math.min(10, Math.max(...cluster.map(m => m.importance_score)) + 1),
+          emotional_tag: tag === 'mixed' ? undefined : tag
+        });
+
+        // One batch, so a failed delete can't leave the milestone to be summarized again next run
+        await this.db.batch([
+          milestone,
+          this.db.prepare(`
+            DELETE FROM relationship_memory WHERE id IN (${cluster.map(() => '?').join(',')})
+          `).bind(...cluster.map(m => m.id))
+        ]);
+
+        summarized++;
+
+      } catch (error) {
+        // Leave the cluster in place; the next run will try again
+        this.logger.warn('Failed to summarize emotion cluster', { userId, tag, size: cluster.length, error });
+      }
+    }
+
+    return summarized;
+  }
+
+  private async summarizeCluster(
+    userId: string,
+    tag: string,
+    cluster: { content: string, created_at: string }[]
+  ): Promise<string> {
+    const completion = await this.provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: 'Bạn gộp nhiều ký ức cảm xúc cũ của người dùng thành MỘT câu ký ức ngắn ở ngôi thứ ba bằng tiếng Việt, nêu cảm xúc chung, khoảng thời gian và nguyên nhân chính nếu có. Tối đa 40 từ, chỉ trả về câu đó.'
+        },
+        {
+          role: 'user',
+          content: `Cảm xúc: ${tag}\n${cluster.map(m => `- (${m.created_at.substring(0, 10)}) ${m.content}`).join('\n')}`
+        }
+      ],
+      maxTokens: 120,
+      temperature: 0.3
+    });
+
+    if (completion.usage) {
+      await this.usage.recordUsage({
+        userId,
+        sessionId: this.sessionId,
+        usageType: 'llm',
+        operation: 'memory_consolidation',
+        provider: completion.provider,
+        model: completion.model,
+        promptTokens: completion.usage.promptTokens,
+        completionTokens: completion.usage.completionTokens
+      });
+    }
+
+    const summary = completion.content.trim();
+    if (!summary) {
+      throw new Error('Empty emotion cluster summary');
+    }
+
+    return summary.substring(0, 300);
+  }
+
+  private async getMemories(userId: string): Promise<StoredMemory[]> {
+    const memories = await this.db.prepare(`
+      SELECT id, user_id, memory_type, content, importance_score, emotional_tag,
+             created_at, last_referenced, reference_count, pinned, embedding, embedding_model
+      FROM relationship_memory
+      WHERE user_id = ?
+      ORDER BY created_at
+    `).bind(userId).all();
+
+    return memories.results as unknown as StoredMemory[];
+  }
+}
\ No newline at end of file
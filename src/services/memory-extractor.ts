@@ -0,0 +1,137 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+import { UsageService } from './usage';
+import { RelationshipMemory } from './memory-plus';
+import { LLMProvider, LLMResponseFormat, createLLMProvider } from './llm-provider';
+
+// A memory proposed by the extractor; replaces_memory_id points at an existing
+// memory that this one restates or corrects
+export interface MemoryCandidate {
+  memory_type: RelationshipMemory['memory_type'];
+  content: string;
+  importance_score: number;
+  emotional_tag?: string;
+  replaces_memory_id?: number;
+}
+
+const MEMORY_TYPES: RelationshipMemory['memory_type'][] = ['personal', 'preference', 'event', 'emotion', 'milestone'];
+const EMOTIONAL_TAGS = ['happy', 'sad', 'romantic', 'angry', 'anxious', 'excited', 'tired', 'lonely', 'grateful'];
+
+// Strict structured-output schema: every field is required, optional ones are nullable
+const MEMORY_EXTRACTION_FORMAT: LLMResponseFormat = {
+  name: 'relationship_memories',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['memories'],
+    properties: {
+      memories: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['memory_type', 'content', 'importance_score', 'emotional_tag', 'replaces_memory_id'],
+          properties: {
+            memory_type: { type: 'string', enum: MEMORY_TYPES },
+            content: { type: 'string' },
+            importance_score: { type: 'integer', minimum: 1, maximum: 10 },
+            emotional_tag: { type: ['string', 'null'], enum: [...EMOTIONAL_TAGS, null] },
+            replaces_memory_id: { type: ['integer', 'null'] }
+          }
+        }
+      }
+    }
+  }
+};
+
+const EXTRACTION_PROMPT = `Bạn trích xuất ký ức dài hạn về NGƯỜI DÙNG từ một lượt trò chuyện với bạn gái AI.
+Quy tắc:
+- Chỉ ghi sự thật về người dùng (tên, tuổi, nghề nghiệp, nơi ở, sở thích, điều không thích, sự kiện, cảm xúc, cột mốc quan hệ). Bỏ qua câu chào hỏi và nội dung của bạn gái AI.
+- Mỗi ký ức là một câu ngắn ở ngôi thứ ba bằng tiếng Việt, ví dụ "Người dùng tên Minh", "Người dùng thích ăn phở".
+- memory_type: personal (thông tin cá nhân), preference (thích/ghét), event (sự kiện, kế hoạch), emotion (trạng thái cảm xúc kèm nguyên nhân), milestone (cột mốc trong mối quan hệ).
+- importance_score từ 1 đến 10: thông tin nhận dạng và cột mốc 8-10, sở thích 5-7, cảm xúc nhất thời 3-6.
+- emotional_tag chỉ dùng cho cảm xúc rõ ràng, còn lại để null.
+- Nếu ký ức đã có sẵn trong danh sách KÝ ỨC HIỆN CÓ và không đổi, KHÔNG trả lại.
+- Nếu thông tin mới thay đổi hoặc chính xác hơn một ký ức hiện có, trả về nội dung mới với replaces_memory_id là id của ký ức đó.
+- Không có gì đáng nhớ thì trả về danh sách rỗng.`;
+
+// Turns a conversation turn into typed memory candidates via a JSON-schema LLM call
+export class MemoryExtractor {
+  private provider: LLMProvider;
+  private usage: UsageService;
+  private logger: Logger;
+  private sessionId: string;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.provider = createLLMProvider(bindings, sessionId);
+    this.usage = new UsageService(bindings, sessionId);
+    this.logger = new Logger(sessionId);
+    this.sessionId = sessionId;
+  }
+
+  async extract(
+    userId: string,
+    userMessage: string,
+    aiResponse: string,
+    existingMemories: RelationshipMemory[]
+  ): Promise<MemoryCandidate[]> {
+    const existing = existingMemories
+      .map(memory => `#${memory.id} [${memory.memory_type}] ${memory.content}`)
+      .join('\n');
+
+    const completion = await this.provider.complete({
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        {
+          role: 'user',
+          content: `KÝ ỨC HIỆN CÓ:\n${existing || '(chưa có)'}\n\nNGƯỜI DÙNG: ${userMessage}\nBẠN GÁI AI: ${aiResponse || '(chưa trả lời)'}`
+        }
+      ],
+      maxTokens: 400,
+      temperature: 0,
+      responseFormat: MEMORY_EXTRACTION_FORMAT
+    });
+
+    if (completion.usage) {
+      await this.usage.recordUsage({
+        userId,
+        sessionId: this.sessionId,
+        usageType: 'llm',
+        operation: 'memory_extraction',
+        provider: completion.provider,
+        model: completion.model,
+        promptTokens: completion.usage.promptTokens,
+        completionTokens: completion.usage.completionTokens
+      });
+    }
+
+    return this.parseCandidates(completion.content);
+  }
+
+  // Drop anything that doesn't match the schema instead of trusting the model blindly
+  private parseCandidates(content: string): MemoryCandidate[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content || '{}');
+    } catch (error) {
+      this.logger.warn('Memory extraction returned invalid JSON', { length: content.length });
+      return [];
+    }
+
+    const memories = Array.isArray(parsed?.memories) ? parsed.memories : [];
+
+    return memories
+      .filter((memory: any) =>
+        MEMORY_TYPES.includes(memory?.memory_type) &&
+        typeof memory.content === 'string' &&
+        memory.content.trim().length > 0
+      )
+      .map((memory: any): MemoryCandidate => ({
+        memory_type: memory.memory_type,
+        content: memory.content.trim().substring(0, 300),
+        importance_score: Math.min(10, Math.max(1, Math.round(Number(memory.importance_score) || 5))),
+        emotional_tag: EMOTIONAL_TAGS.includes(memory.emotional_tag) ? memory.emotional_tag : undefined,
+        replaces_memory_id: Number.isInteger(memory.replaces_memory_id) ? memory.replaces_memory_id : undefined
+      }));
+  }
+}
\ No newline at end of file
@@ -1,5 +1,10 @@
 import { Bindings } from '../types';
 import { Logger } from '../utils/logger';
+import { cosineSimilarity, decodeVector, encodeVector, textSimilarity } from '../utils/vector';
+import { MemoryExtractor, MemoryCandidate } from './memory-extractor';
+import { EmbeddingProvider, EmbeddingResult, createEmbeddingProvider } from './embeddings';
+import { UsageService } from './usage';
+import { Addressing, AddressForm, CompanionGender, UserGender, DEFAULT_ADDRESSING } from '../utils/addressing';
 
 export interface RelationshipMemory {
   id?: number;
@@ -11,6 +16,7 @@ export interface RelationshipMemory {
   created_at?: string;
   last_referenced?: string;
   reference_count?: number;
+  pinned?: boolean; // Importance set by the user, never changed automatically
 }
 
 export interface UserProfile {
@@ -22,6 +28,9 @@ export interface UserProfile {
   preferred_topics: string[]; // JSON array
   avoided_topics: string[]; // JSON array
   cultural_background: string;
+  user_gender?: UserGender;
+  address_form?: AddressForm | null;
+  address_nickname?: string | null;
   updated_at?: string;
 }
 
@@ -35,13 +44,38 @@ export interface ConversationContext {
   created_at?: string;
 }
 
+// How many existing memories the extractor sees for deduplication
+const DEDUPE_MEMORY_LIMIT = 40;
+
+// Token overlap above which two memories of the same type count as the same fact
+const DUPLICATE_SIMILARITY = 0.8;
+
+// Semantic retrieval: how many of the user's memories are scored per request, and how
+// many missing embeddings are backfilled along the way
+const RETRIEVAL_POOL_LIMIT = 300;
+const EMBEDDING_BACKFILL_LIMIT = 32;
+
+// Blend of similarity to the current message, importance and recency (half-life ~3 weeks)
+const SIMILARITY_WEIGHT = 0.6;
+const IMPORTANCE_WEIGHT = 0.25;
+const RECENCY_WEIGHT = 0.15;
+const RECENCY_DECAY_DAYS = 30;
+
 export class MemoryPlusService {
   private db: D1Database;
   private logger: Logger;
+  private extractor: MemoryExtractor;
+  private embeddings: EmbeddingProvider;
+  private usage: UsageService;
+  private sessionId: string;
 
   constructor(bindings: Bindings, sessionId: string) {
     this.db = bindings.DB;
     this.logger = new Logger(sessionId);
+    this.extractor = new MemoryExtractor(bindings, sessionId);
+    this.embeddings = createEmbeddingProvider(bindings, sessionId);
+    this.usage = new UsageService(bindings, sessionId);
+    this.sessionId = sessionId;
   }
 
   // Store important memories from conversations
@@ -52,17 +86,7 @@ export class MemoryPlusService {
     }
 
     try {
-      await this.db.prepare(`
-        INSERT INTO relationship_memory 
-        (user_id, memory_type, content, importance_score, emotional_tag, created_at, last_referenced)
-        VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))
-      `).bind(
-        memory.user_id,
-        memory.memory_type,
-        memory.content,
-        memory.importance_score,
-        memory.emotional_tag || null
-      ).run();
+      await (await this.memoryInsertStatement(memory)).run();
 
       this.logger.info('Memory stored', {
         userId: memory.user_id,
@@ -75,22 +99,55 @@ export class MemoryPlusService {
     }
   }
 
-  // Retrieve relevant memories for conversation context
-  async getRelevantMemories(userId: string, limit: number = 10): Promise<RelationshipMemory[]> {
+  // INSERT for a new memory, embedded at write time (a failed embedding is backfilled on a
+  // later retrieval), for callers that batch it with other writes
+  async memoryInsertStatement(memory: RelationshipMemory): Promise<D1PreparedStatement> {
+    const embedded = await this.embedTexts(memory.user_id, [memory.content]);
+
+    return this.db.prepare(`
+      INSERT INTO relationship_memory 
+      (user_id, memory_type, content, importance_score, emotional_tag, embedding, embedding_model, created_at, last_referenced)
+      VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+    `).bind(
+      memory.user_id,
+      memory.memory_type,
+      memory.content,
+      memory.importance_score,
+      memory.emotional_tag || null,
+      embedded ? encodeVector(embedded.vectors[0]) : null,
+      embedded ? embedded.model : null
+    );
+  }
+
+  // Retrieve relevant memories for conversation context. With a current message the
+  // ranking blends semantic similarity, importance and recency; without one it falls
+  // back to importance and recency alone.
+  async getRelevantMemories(userId: string, limit: number = 10, currentMessage?: string): Promise<RelationshipMemory[]> {
     if (!this.db) {
       return [];
     }
 
     try {
-      const memories = await this.db.prepare(`
-        SELECT * FROM relationship_memory 
-        WHERE user_id = ? 
-        ORDER BY importance_score DESC, last_referenced DESC 
-        LIMIT ?
-      `).bind(userId, limit).all();
+      let results: RelationshipMemory[] | null = null;
+
+      if (currentMessage && currentMessage.trim()) {
+        results = await this.rankBySimilarity(userId, currentMessage, limit);
+      }
+
+      if (!results) {
+        const memories = await this.db.prepare(`
+          SELECT id, user_id, memory_type, content, importance_score, emotional_tag,
+                 created_at, last_referenced, reference_count
+          FROM relationship_memory 
+          WHERE user_id = ? 
+          ORDER BY importance_score DESC, last_referenced DESC 
+          LIMIT ?
+        `).bind(userId, limit).all();
+        results = memories.results as unknown as RelationshipMemory[];
+      }
 
       // Update last_referenced for retrieved memories
-      const memoryIds = memories.results.map(m => m.id);
+      const memoryIds = results.map(m => m.id);
       if (memoryIds.length > 0) {
         await this.db.prepare(`
           UPDATE relationship_memory 
@@ -99,7 +156,7 @@ export class MemoryPlusService {
         `).bind(...memoryIds).run();
       }
 
-      return memories.results as RelationshipMemory[];
+      return results;
 
     } catch (error) {
       this.logger.error('Error retrieving memories', error);
@@ -107,79 +164,185 @@ export class MemoryPlusService {
     }
   }
 
-  // Extract and store memories from conversation
+  // Update a changed fact in place, keeping its history (created_at, reference_count)
+  async updateMemory(memoryId: number, userId: string, memory: Partial<RelationshipMemory>): Promise<boolean> {
+    if (!this.db) {
+      return false;
+    }
+
+    try {
+      // Changed content needs a fresh embedding (NULL clears a stale one for backfill)
+      const embedded = memory.content ? await this.embedTexts(userId, [memory.content]) : null;
+
+      const result = await this.db.prepare(`
+        UPDATE relationship_memory
+        SET content = COALESCE(?, content),
+            importance_score = CASE WHEN pinned = 1 THEN importance_score ELSE COALESCE(?, importance_score) END,
+            emotional_tag = COALESCE(?, emotional_tag),
+            embedding = CASE WHEN ? IS NULL THEN embedding ELSE ? END,
+            embedding_model = CASE WHEN ? IS NULL THEN embedding_model ELSE ? END,
+            last_referenced = datetime('now')
+        WHERE id = ? AND user_id = ?
+      `).bind(
+        memory.content ?? null,
+        memory.importance_score ?? null,
+        memory.emotional_tag ?? null,
+        memory.content ?? null,
+        embedded ? encodeVector(embedded.vectors[0]) : null,
+        memory.content ?? null,
+        embedded ? embedded.model : null,
+        memoryId,
+        userId
+      ).run();
+
+      return (result.meta?.changes || 0) > 0;
+
+    } catch (error) {
+      this.logger.error('Error updating memory', error);
+      return false;
+    }
+  }
+
+  // List a user's memories (newest first), optionally of one type
+  async listMemories(userId: string, memoryType?: RelationshipMemory['memory_type']): Promise<RelationshipMemory[]> {
+    if (!this.db) {
+      return [];
+    }
+
+    try {
+      const memories = await this.db.prepare(`
+        SELECT id, user_id, memory_type, content, importance_score, emotional_tag,
+               created_at, last_referenced, reference_count, pinned
+        FROM relationship_memory
+        WHERE user_id = ? AND (? IS NULL OR memory_type = ?)
+        ORDER BY created_at DESC, id DESC
+      `).bind(userId, memoryType ?? null, memoryType ?? null).all();
+
+      return (memories.results as any[]).map(memory => ({
+        ...memory,
+        pinned: Boolean(memory.pinned)
+      }));
+
+    } catch (error) {
+      this.logger.error('Error listing memories', error);
+      return [];
+    }
+  }
+
+  // Pin (or unpin) a memory; pinning also sets its importance, 10 by default
+  async setMemoryPinned(memoryId: number, userId: string, pinned: boolean, importanceScore?: number): Promise<boolean> {
+    if (!this.db) {
+      return false;
+    }
+
+    try {
+      const importance = pinned ? (importanceScore ?? 10) : importanceScore ?? null;
+
+      const result = await this.db.prepare(`
+        UPDATE relationship_memory
+        SET pinned = ?, importance_score = COALESCE(?, importance_score)
+        WHERE id = ? AND user_id = ?
+      `).bind(pinned ? 1 : 0, importance, memoryId, userId).run();
+
+      return (result.meta?.changes || 0) > 0;
+
+    } catch (error) {
+      this.logger.error('Error pinning memory', error);
+      return false;
+    }
+  }
+
+  async deleteMemory(memoryId: number, userId: string): Promise<boolean> {
+    if (!this.db) {
+      return false;
+    }
+
+    try {
+      const result = await this.db.prepare(`
+        DELETE FROM relationship_memory WHERE id = ? AND user_id = ?
+      `).bind(memoryId, userId).run();
+
+      return (result.meta?.changes || 0) > 0;
+
+    } catch (error) {
+      this.logger.error('Error deleting memory', error);
+      return false;
+    }
+  }
+
+  // Forget everything Memory Plus learned about the user: memories, profile and
+  // conversation summaries. Chat messages themselves are left to /api/private/clear-history.
+  async forgetAll(userId: string): Promise<{ memories: number, profiles: number, contexts: number }> {
+    if (!this.db) {
+      return { memories: 0, profiles: 0, contexts: 0 };
+    }
+
+    const [memories, profiles, contexts] = await this.db.batch([
+      this.db.prepare(`
+        DELETE FROM relationship_memory WHERE user_id = ?
+      `).bind(userId),
+      this.db.prepare(`
+        DELETE FROM user_profile WHERE user_id = ?
+      `).bind(userId),
+      this.db.prepare(`
+        DELETE FROM conversation_context
+        WHERE session_id IN (SELECT id FROM sessions WHERE user_id = ? OR user_ref = ?)
+      `).bind(userId, userId)
+    ]);
+
+    this.logger.info('Forgot all memories for user', { userId });
+
+    return {
+      memories: memories.meta?.changes || 0,
+      profiles: profiles.meta?.changes || 0,
+      contexts: contexts.meta?.changes || 0
+    };
+  }
+
+  // Extract typed memories from a conversation turn, deduplicating against what is
+  // already stored and updating facts that changed instead of duplicating them
   async processConversationForMemories(userId: string, userMessage: string, aiResponse: string): Promise<void> {
+    if (!this.db || !userMessage.trim()) {
+      return;
+    }
+
     try {
-      // Simple keyword-based memory extraction (in production, use NLP)
-      const memoriesToStore: Partial<RelationshipMemory>[] = [];
-
-      // Personal information detection
-      const personalPatterns = [
-        /tên tôi là (\w+)/i,
-        /tôi làm (\w+)/i,
-        /tôi ở ([^,\.]+)/i,
-        /tôi thích ([^,\.]+)/i,
-        /tôi không thích ([^,\.]+)/i,
-        /tuổi tôi là (\d+)/i,
-        /tôi sinh năm (\d{4})/i
-      ];
-
-      personalPatterns.forEach(pattern => {
-        const match = userMessage.match(pattern);
-        if (match) {
-          memoriesToStore.push({
-            user_id: userId,
-            memory_type: 'personal',
-            content: match[0],
-            importance_score: 8
-          });
-        }
-      });
+      const existing = await this.getMemoriesForDedupe(userId);
+      const candidates = await this.extractor.extract(userId, userMessage, aiResponse, existing);
 
-      // Preference detection
-      const preferencePatterns = [
-        /tôi thích ([^,\.]+)/i,
-        /tôi ghét ([^,\.]+)/i,
-        /tôi yêu ([^,\.]+)/i,
-        /sở thích của tôi là ([^,\.]+)/i
-      ];
-
-      preferencePatterns.forEach(pattern => {
-        const match = userMessage.match(pattern);
-        if (match) {
-          memoriesToStore.push({
-            user_id: userId,
-            memory_type: 'preference',
-            content: match[0],
-            importance_score: 6
-          });
-        }
-      });
+      let stored = 0;
+      let updated = 0;
+
+      for (const candidate of candidates) {
+        const target = this.findMemoryToUpdate(candidate, existing);
 
-      // Emotional state detection
-      const emotionalPatterns = [
-        { pattern: /buồn|khóc|tủi thân|stress/i, emotion: 'sad' },
-        { pattern: /vui|hạnh phúc|phấn khích|tuyệt vời/i, emotion: 'happy' },
-        { pattern: /yêu|thương|nhớ|lãng mạn/i, emotion: 'romantic' },
-        { pattern: /giận|tức|bực mình|khó chịu/i, emotion: 'angry' },
-        { pattern: /lo lắng|sợ|quan ngại/i, emotion: 'anxious' }
-      ];
-
-      emotionalPatterns.forEach(({ pattern, emotion }) => {
-        if (pattern.test(userMessage)) {
-          memoriesToStore.push({
+        if (target) {
+          await this.updateMemory(target.id!, userId, {
+            content: candidate.content,
+            importance_score: Math.max(candidate.importance_score, target.importance_score),
+            emotional_tag: candidate.emotional_tag
+          });
+          target.content = candidate.content;
+          updated++;
+        } else {
+          await this.storeMemory({
             user_id: userId,
-            memory_type: 'emotion',
-            content: userMessage,
-            importance_score: 7,
-            emotional_tag: emotion
+            memory_type: candidate.memory_type,
+            content: candidate.content,
+            importance_score: candidate.importance_score,
+            emotional_tag: candidate.emotional_tag
           });
+          stored++;
         }
-      });
+      }
 
-      // Store all extracted memories
-      for (const memory of memoriesToStore) {
-        await this.storeMemory(memory as RelationshipMemory);
+      if (candidates.length > 0) {
+        this.logger.info('Memories extracted from conversation', {
+          userId,
+          candidates: candidates.length,
+          stored,
+          updated
+        });
       }
 
     } catch (error) {
@@ -187,6 +350,127 @@ export class MemoryPlusService {
     }
   }
 
+  // Existing memory this candidate restates or corrects, if any
+  private findMemoryToUpdate(candidate: MemoryCandidate, existing: RelationshipMemory[]): RelationshipMemory | undefined {
+    // Trust the model's pointer only if it refers to one of this user's memories
+    if (candidate.replaces_memory_id) {
+      const replaced = existing.find(memory => memory.id === candidate.replaces_memory_id);
+      if (replaced) return replaced;
+    }
+
+    return existing.find(memory =>
+      memory.id !== undefined &&
+      memory.memory_type === candidate.memory_type &&
+      textSimilarity(candidate.content, memory.content) >= DUPLICATE_SIMILARITY
+    );
+  }
+
+  // Score the user's memories against the current message. Returns null when the
+  // message can't be embedded so the caller falls back to importance ordering.
+  private async rankBySimilarity(userId: string, currentMessage: string, limit: number): Promise<RelationshipMemory[] | null> {
+    const pool = await this.db.prepare(`
+      SELECT id, user_id, memory_type, content, importance_score, emotional_tag,
+             created_at, last_referenced, reference_count, embedding, embedding_model
+      FROM relationship_memory
+      WHERE user_id = ?
+      ORDER BY importance_score DESC, last_referenced DESC
+      LIMIT ?
+    `).bind(userId, RETRIEVAL_POOL_LIMIT).all();
+
+    const rows = pool.results as any[];
+
+    // Embed the query together with memories that have no (current) embedding yet
+    const stale = rows
+      .filter(row => !row.embedding || row.embedding_model !== this.embeddings.model)
+      .slice(0, EMBEDDING_BACKFILL_LIMIT);
+
+    const embedded = await this.embedTexts(userId, [currentMessage, ...stale.map(row => row.content)]);
+    if (!embedded) {
+      return null;
+    }
+
+    const [queryVector, ...backfilled] = embedded.vectors;
+    const vectors = new Map<number, Float32Array>();
+
+    if (backfilled.length > 0) {
+      await this.db.batch(stale.map((row, index) => this.db.prepare(`
+        UPDATE relationship_memory SET embedding = ?, embedding_model = ? WHERE id = ?
+      `).bind(encodeVector(backfilled[index]), embedded.model, row.id)));
+
+      stale.forEach((row, index) => vectors.set(row.id, backfilled[index]));
+    }
+
+    const now = Date.now();
+    const scored = rows.map(row => {
+      const vector = vectors.get(row.id) ??
+        (row.embedding_model === embedded.model ? decodeVector(row.embedding) : null);
+      const similarity = vector ? Math.max(0, cosineSimilarity(queryVector, vector)) : 0;
+      const ageDays = (now - this.parseTimestamp(row.last_referenced || row.created_at)) / 86_400_000;
+      const recency = Math.exp(-Math.max(0, ageDays) / RECENCY_DECAY_DAYS);
+
+      return {
+        score: SIMILARITY_WEIGHT * similarity +
+          IMPORTANCE_WEIGHT * ((row.importance_score || 0) / 10) +
+          RECENCY_WEIGHT * recency,
+        memory: row
+      };
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ memory }) => {
+        // Vectors stay server-side
+        const { embedding, embedding_model, ...rest } = memory;
+        return rest as RelationshipMemory;
+      });
+  }
+
+  // Embed texts and record the cost; null when the provider is unavailable
+  private async embedTexts(userId: string, texts: string[]): Promise<EmbeddingResult | null> {
+    try {
+      const result = await this.embeddings.embed(texts);
+
+      if (result.promptTokens > 0) {
+        await this.usage.recordUsage({
+          userId,
+          sessionId: this.sessionId,
+          usageType: 'llm',
+          operation: 'embedding',
+          provider: result.provider,
+          model: result.model,
+          promptTokens: result.promptTokens
+        });
+      }
+
+      return result;
+
+    } catch (error) {
+      this.logger.warn('Failed to embed memory text', error);
+      return null;
+    }
+  }
+
+  // D1 datetime('now') values are UTC without a zone suffix
+  private parseTimestamp(value: string | undefined): number {
+    if (!value) return Date.now();
+    const parsed = Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+    return isNaN(parsed) ? Date.now() : parsed;
+  }
+
+  // Most important and most recent memories, without bumping reference counts
+  private async getMemoriesForDedupe(userId: string): Promise<RelationshipMemory[]> {
+    const memories = await this.db.prepare(`
+      SELECT id, user_id, memory_type, content, importance_score, emotional_tag
+      FROM relationship_memory
+      WHERE user_id = ?
+      ORDER BY importance_score DESC, last_referenced DESC
+      LIMIT ?
+    `).bind(userId, DEDUPE_MEMORY_LIMIT).all();
+
+    return memories.results as unknown as RelationshipMemory[];
+  }
+
   // Get or create user profile
   async getUserProfile(userId: string): Promise<UserProfile | null> {
     if (!this.db) {
@@ -208,7 +492,8 @@ export class MemoryPlusService {
           relationship_goals: 'companionship',
           preferred_topics: ['daily_life', 'feelings', 'hobbies'],
           avoided_topics: [],
-          cultural_background: 'vietnamese'
+          cultural_background: 'vietnamese',
+          user_gender: 'unspecified'
         };
 
         await this.db.prepare(`
@@ -244,10 +529,72 @@ export class MemoryPlusService {
     }
   }
 
+  // How the companion should address this user, from the profile
+  async getAddressing(userId: string, companionGender: CompanionGender = 'female'): Promise<Addressing> {
+    const fallback = { ...DEFAULT_ADDRESSING, companionGender };
+    if (!this.db) return fallback;
+
+    try {
+      const profile = await this.db.prepare(`
+        SELECT user_gender, address_form, address_nickname FROM user_profile WHERE user_id = ?
+      `).bind(userId).first() as { user_gender: UserGender | null, address_form: AddressForm | null, address_nickname: string | null } | null;
+
+      if (!profile) return fallback;
+
+      return {
+        userGender: profile.user_gender || 'unspecified',
+        addressForm: profile.address_form || undefined,
+        nickname: profile.address_nickname || undefined,
+        companionGender
+      };
+
+    } catch (error) {
+      this.logger.error('Error getting user addressing', error);
+      return fallback;
+    }
+  }
+
+  async updateAddressing(
+    userId: string,
+    update: { userGender?: UserGender, addressForm?: AddressForm | null, nickname?: string | null }
+  ): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not available');
+    }
+
+    // Make sure the profile row exists
+    await this.getUserProfile(userId);
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (update.userGender !== undefined) {
+      updates.push('user_gender = ?');
+      values.push(update.userGender);
+    }
+    if (update.addressForm !== undefined) {
+      updates.push('address_form = ?');
+      values.push(update.addressForm);
+    }
+    if (update.nickname !== undefined) {
+      updates.push('address_nickname = ?');
+      values.push(update.nickname);
+    }
+
+    if (updates.length === 0) return;
+
+    values.push(userId);
+    await this.db.prepare(`
+      UPDATE user_profile SET ${updates.join(', ')}, updated_at = datetime('now') WHERE user_id = ?
+    `).bind(...values).run();
+
+    this.logger.info('User addressing updated', { userId, userGender: update.userGender, addressForm: update.addressForm });
+  }
+
   // Generate enhanced system prompt with memory context
-  async generateMemoryEnhancedPrompt(userId: string, basePrompt: string): Promise<string> {
+  async generateMemoryEnhancedPrompt(userId: string, basePrompt: string, currentMessage?: string): Promise<string> {
     try {
-      const memories = await this.getRelevantMemories(userId, 8);
+      const memories = await this.getRelevantMemories(userId, 8, currentMessage);
       const profile = await this.getUserProfile(userId);
 
       if (memories.length === 0 && !profile) {
@@ -289,60 +636,4 @@ export class MemoryPlusService {
       return basePrompt;
     }
   }
-
-  // Update relationship stage based on interaction history
-  async updateRelationshipStage(sessionId: string, userId: string): Promise<string> {
-    if (!this.db) {
-      return 'new';
-    }
-
-    try {
-      // Get message count for this user
-      const messageCount = await this.db.prepare(`
-        SELECT COUNT(*) as count FROM messages 
-        WHERE session_id IN (
-          SELECT id FROM sessions WHERE user_ref = ?
-        )
-      `).bind(userId).first() as { count: number };
-
-      // Get memory count and types
-      const memoryStats = await this.db.prepare(`
-        SELECT memory_type, COUNT(*) as count 
-        FROM relationship_memory 
-        WHERE user_id = ? 
-        GROUP BY memory_type
-      `).bind(userId).all();
-
-      let stage: string = 'new';
-      const totalMessages = messageCount?.count || 0;
-      const personalMemories = memoryStats.results.find(m => m.memory_type === 'personal')?.count || 0;
-      const emotionalMemories = memoryStats.results.find(m => m.memory_type === 'emotion')?.count || 0;
-
-      if (totalMessages > 100 && personalMemories > 5 && emotionalMemories > 3) {
-        stage = 'long_term';
-      } else if (totalMessages > 50 && personalMemories > 3) {
-        stage = 'close';
-      } else if (totalMessages > 20 && personalMemories > 1) {
-        stage = 'getting_to_know';
-      }
-
-      // Store conversation context
-      await this.db.prepare(`
-        INSERT OR REPLACE INTO conversation_context 
-        (session_id, context_summary, emotional_tone, relationship_stage)
-        VALUES (?, ?, ?, ?)
-      `).bind(
-        sessionId,
-        `Tổng ${totalMessages} tin nhắn, ${personalMemories} thông tin cá nhân, ${emotionalMemories} ký ức cảm xúc`,
-        'neutral',
-        stage
-      ).run();
-
-      return stage;
-
-    } catch (error) {
-      this.logger.error('Error updating relationship stage', error);
-      return 'new';
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,326 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+
+export type ModerationDirection = 'input' | 'output' | 'character';
+export type ModerationReviewStatus = 'pending' | 'confirmed' | 'false_positive';
+
+export const MODERATION_DIRECTIONS: ModerationDirection[] = ['input', 'output', 'character'];
+export const MODERATION_REVIEW_STATUSES: ModerationReviewStatus[] = ['pending', 'confirmed', 'false_positive'];
+
+// Where a moderated text came from; userId is resolved from the session when omitted
+export interface ModerationAuditContext {
+  direction: ModerationDirection;
+  userId?: string;
+}
+
+export interface ModerationDecisionRecord extends ModerationAuditContext {
+  action: 'soften' | 'block';
+  categories: string[];
+  scores: Record<string, number>;
+  rules: string[];
+  redactedText: string;
+}
+
+export interface ModerationDecision {
+  id: number;
+  sessionId: string;
+  userId: string;
+  direction: ModerationDirection;
+  action: 'soften' | 'block';
+  categories: string[];
+  scores: Record<string, number>;
+  matchedRules: string[];
+  redactedText: string | null;
+  reviewStatus: ModerationReviewStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface ModerationDecisionFilters {
+  status?: ModerationReviewStatus;
+  direction?: ModerationDirection;
+  category?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ModerationSummaryRow {
+  category: string;
+  action: string;
+  reviewStatus: string;
+  count: number;
+}
+
+export interface AllowlistEntry {
+  id: number;
+  phrase: string;
+  note: string | null;
+  decisionId: number | null;
+  createdAt: string;
+}
+
+const REDACTED_TEXT_MAX_LENGTH = 500;
+const ALLOWLIST_CACHE_TTL_MS = 60 * 1000;
+
+// Operator allowlist shared by every pipeline in this isolate; other isolates pick up changes within the TTL
+let allowlistCache: { phrases: string[], loadedAt: number } | null = null;
+
+// Stored moderation decisions, operator review and the operator-managed allowlist
+export class ModerationAuditService {
+  private db: D1Database;
+  private sessionId: string;
+  private logger: Logger;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = bindings.DB;
+    this.sessionId = sessionId;
+    this.logger = new Logger(sessionId);
+  }
+
+  static normalizePhrase(phrase: string): string {
+    return phrase.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  // Never throws: auditing must not break a reply
+  async recordDecision(record: ModerationDecisionRecord): Promise<void> {
+    if (!this.db) return;
+
+    try {
+      const userId = record.userId || await this.resolveUserId(this.sessionId);
+
+      await this.db.prepare(`
+        INSERT INTO moderation_decisions
+        (session_id, user_id, direction, action, categories, scores, matched_rules, redacted_text)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        this.sessionId,
+        userId,
+        record.direction,
+        record.action,
+        JSON.stringify(record.categories),
+        JSON.stringify(record.scores),
+        JSON.stringify(record.rules),
+        record.redactedText.substring(0, REDACTED_TEXT_MAX_LENGTH)
+      ).run();
+
+    } catch (error) {
+      this.logger.error('Error recording moderation decision', error);
+    }
+  }
+
+  async listDecisions(filters: ModerationDecisionFilters = {}): Promise<{ decisions: ModerationDecision[], total: number }> {
+    if (!this.db) return { decisions: [], total: 0 };
+
+    try {
+      const conditions: string[] = [];
+      const values: any[] = [];
+
+      if (filters.status) {
+        conditions.push('review_status = ?');
+        values.push(filters.status);
+      }
+      if (filters.direction) {
+        conditions.push('direction = ?');
+        values.push(filters.direction);
+      }
+      if (filters.category) {
+        conditions.push('EXISTS (SELECT 1 FROM json_each(categories) WHERE value = ?)');
+        values.push(filters.category);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const count = await this.db.prepare(`
+        SELECT COUNT(*) as count FROM moderation_decisions ${where}
+      `).bind(...values).first() as { count: number };
+
+      const result = await this.db.prepare(`
+        SELECT * FROM moderation_decisions ${where}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ? OFFSET ?
+      `).bind(...values, filters.limit ?? 50, filters.offset ?? 0).all();
+
+      return {
+        decisions: (result.results || []).map(row => this.toDecision(row)),
+        total: count?.count || 0
+      };
+
+    } catch (error) {
+      this.logger.error('Error listing moderation decisions', error);
+      return { decisions: [], total: 0 };
+    }
+  }
+
+  async getDecision(decisionId: number): Promise<ModerationDecision | null> {
+    if (!this.db) return null;
+
+    try {
+      const row = await this.db.prepare(`
+        SELECT * FROM moderation_decisions WHERE id = ?
+      `).bind(decisionId).first();
+
+      return row ? this.toDecision(row) : null;
+
+    } catch (error) {
+      this.logger.error('Error getting moderation decision', error);
+      return null;
+    }
+  }
+
+  // Returns null when the decision doesn't exist
+  async reviewDecision(decisionId: number, status: ModerationReviewStatus, note?: string): Promise<ModerationDecision | null> {
+    if (!this.db) return null;
+
+    const result = await this.db.prepare(`
+      UPDATE moderation_decisions
+      SET review_status = ?, review_note = ?, reviewed_at = datetime('now')
+      WHERE id = ?
+    `).bind(status, note || null, decisionId).run();
+
+    if ((result.meta?.changes || 0) === 0) return null;
+
+    this.logger.info('Moderation decision reviewed', { decisionId, status });
+    return this.getDecision(decisionId);
+  }
+
+  // Decision counts per category, action and review status over the last N days
+  async getSummary(days: number = 30): Promise<ModerationSummaryRow[]> {
+    if (!this.db) return [];
+
+    try {
+      const result = await this.db.prepare(`
+        SELECT category.value AS category, d.action, d.review_status, COUNT(*) AS count
+        FROM moderation_decisions d, json_each(d.categories) AS category
+        WHERE d.created_at >= datetime('now', '-' || ? || ' days')
+        GROUP BY category.value, d.action, d.review_status
+        ORDER BY count DESC
+      `).bind(days).all();
+
+      return (result.results || []).map((row: any) => ({
+        category: row.category,
+        action: row.action,
+        reviewStatus: row.review_status,
+        count: Number(row.count) || 0
+      }));
+
+    } catch (error) {
+      this.logger.error('Error getting moderation summary', error);
+      return [];
+    }
+  }
+
+  async listAllowlist(): Promise<AllowlistEntry[]> {
+    if (!this.db) return [];
+
+    try {
+      const result = await this.db.prepare(`
+        SELECT * FROM moderation_allowlist ORDER BY created_at DESC, id DESC
+      `).all();
+
+      return (result.results || []).map(row => this.toAllowlistEntry(row));
+
+    } catch (error) {
+      this.logger.error('Error listing moderation allowlist', error);
+      return [];
+    }
+  }
+
+  // Adding an existing phrase returns the existing entry
+  async addAllowlistPhrase(phrase: string, note?: string, decisionId?: number): Promise<AllowlistEntry> {
+    if (!this.db) {
+      throw new Error('Database not available');
+    }
+
+    const normalized = ModerationAuditService.normalizePhrase(phrase);
+
+    await this.db.prepare(`
+      INSERT OR IGNORE INTO moderation_allowlist (phrase, note, decision_id)
+      VALUES (?, ?, ?)
+    `).bind(normalized, note || null, decisionId ?? null).run();
+
+    allowlistCache = null;
+    this.logger.info('Moderation allowlist phrase added', { phrase: normalized, decisionId });
+
+    const row = await this.db.prepare(`
+      SELECT * FROM moderation_allowlist WHERE phrase = ?
+    `).bind(normalized).first();
+
+    return this.toAllowlistEntry(row);
+  }
+
+  async removeAllowlistPhrase(entryId: number): Promise<boolean> {
+    if (!this.db) return false;
+
+    try {
+      const result = await this.db.prepare(`
+        DELETE FROM moderation_allowlist WHERE id = ?
+      `).bind(entryId).run();
+
+      allowlistCache = null;
+      return (result.meta?.changes || 0) > 0;
+
+    } catch (error) {
+      this.logger.error('Error removing moderation allowlist phrase', error);
+      return false;
+    }
+  }
+
+  // Phrases the pipeline skips in addition to the built-in allowlist
+  async getAllowlistPhrases(): Promise<string[]> {
+    if (allowlistCache && Date.now() - allowlistCache.loadedAt < ALLOWLIST_CACHE_TTL_MS) {
+      return allowlistCache.phrases;
+    }
+    if (!this.db) return [];
+
+    try {
+      const result = await this.db.prepare(`
+        SELECT phrase FROM moderation_allowlist
+      `).all();
+
+      const phrases = (result.results || []).map((row: any) => row.phrase as string);
+      allowlistCache = { phrases, loadedAt: Date.now() };
+      return phrases;
+
+    } catch (error) {
+      this.logger.error('Error loading moderation allowlist', error);
+      return [];
+    }
+  }
+
+  private async resolveUserId(sessionId: string): Promise<string> {
+    const session = await this.db.prepare(`
+      SELECT user_id FROM sessions WHERE id = ?
+    `).bind(sessionId).first() as { user_id: string | null } | null;
+
+    return session?.user_id || 'anonymous';
+  }
+
+  private toDecision(row: any): ModerationDecision {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      userId: row.user_id,
+      direction: row.direction,
+      action: row.action,
+      categories: JSON.parse(row.categories || '[]'),
+      scores: JSON.parse(row.scores || '{}'),
+      matchedRules: JSON.parse(row.matched_rules || '[]'),
+      redactedText: row.redacted_text,
+      reviewStatus: row.review_status,
+      reviewNote: row.review_note,
+      reviewedAt: row.reviewed_at,
+      createdAt: row.created_at
+    };
+  }
+
+  private toAllowlistEntry(row: any): AllowlistEntry {
+    return {
+      id: row.id,
+      phrase: row.phrase,
+      note: row.note,
+      decisionId: row.decision_id,
+      createdAt: row.created_at
+    };
+  }
+}
\ No newline at end of file
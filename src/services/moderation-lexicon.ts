@@ -0,0 +1,89 @@
+// Moderation lexicons. Each entry is [term, weight, mode]:
+// - weight 0-1 is how strongly one occurrence suggests the category
+// - 'loose' (default) matches after diacritics are stripped, so "dm", "đm" and "đ.m" all hit;
+//   'exact' keeps diacritics for words that collide once stripped ("lồn"/"lớn", "ngu"/"ngủ")
+// Multi-word terms match consecutive tokens.
+
+export type ModerationCategory =
+  | 'sexual'
+  | 'violence'
+  | 'self_harm'
+  | 'drugs'
+  | 'politics'
+  | 'hate'
+  | 'harassment'
+  | 'profanity';
+
+export type LexiconEntry = [term: string, weight: number, mode?: 'loose' | 'exact'];
+
+export const MODERATION_CATEGORIES: ModerationCategory[] = [
+  'sexual', 'violence', 'self_harm', 'drugs', 'politics', 'hate', 'harassment', 'profanity'
+];
+
+export const LEXICONS: Record<ModerationCategory, LexiconEntry[]> = {
+  sexual: [
+    ['sex', 0.6], ['sexy', 0.3], ['porn', 0.9], ['porno', 0.9], ['xxx', 0.7], ['nude', 0.6], ['naked', 0.6],
+    ['erotic', 0.7], ['orgasm', 0.8], ['horny', 0.7], ['blowjob', 0.95], ['penis', 0.6], ['vagina', 0.6],
+    ['phim sex', 0.95], ['phim heo', 0.9], ['khiêu dâm', 0.9], ['làm tình', 0.8], ['quan hệ tình dục', 0.6],
+    ['chịch', 0.85, 'exact'], ['nứng', 0.85, 'exact'], ['địt nhau', 0.95, 'exact'], ['dit nhau', 0.95],
+    ['khỏa thân', 0.6], ['ảnh nóng', 0.7], ['clip nóng', 0.8], ['thủ dâm', 0.85], ['bú cu', 0.95]
+  ],
+  violence: [
+    ['kill', 0.3], ['murder', 0.5], ['kill you', 0.85], ['i will kill', 0.85], ['shoot you', 0.85],
+    ['stab', 0.4], ['bomb', 0.4], ['violence', 0.2],
+    ['giết', 0.4], ['giết mày', 0.9], ['giết người', 0.6], ['đánh chết', 0.6], ['đâm chết', 0.85],
+    ['chém chết', 0.85], ['bắn chết', 0.8], ['đập chết', 0.7], ['máu me', 0.4], ['bạo lực', 0.2]
+  ],
+  self_harm: [
+    ['suicide', 0.6], ['kill myself', 0.95], ['end my life', 0.9], ['self harm', 0.7], ['cut myself', 0.85],
+    ['tự tử', 0.7], ['tự sát', 0.7], ['muốn chết', 0.6], ['không muốn sống', 0.75], ['chán sống', 0.6],
+    ['tự làm hại', 0.7], ['rạch tay', 0.8], ['cắt tay', 0.5], ['nhảy cầu', 0.6], ['uống thuốc ngủ', 0.5]
+  ],
+  drugs: [
+    ['cocaine', 0.7], ['heroin', 0.7], ['meth', 0.5], ['weed', 0.4], ['marijuana', 0.4], ['drugs', 0.3],
+    ['ma túy', 0.6], ['ma tuý', 0.6], ['cần sa', 0.5], ['thuốc lắc', 0.7], ['bay lắc', 0.7], ['ke', 0.3, 'exact'],
+    ['cỏ mỹ', 0.6], ['hàng đá', 0.6], ['chích hút', 0.7]
+  ],
+  politics: [
+    ['politics', 0.3], ['political', 0.3], ['government', 0.2], ['corruption', 0.3], ['communist party', 0.6],
+    ['chính trị', 0.4], ['chính phủ', 0.3], ['đảng cộng sản', 0.7], ['biểu tình', 0.5], ['phản động', 0.7],
+    ['chế độ', 0.3], ['tham nhũng', 0.4], ['lật đổ', 0.7], ['đa đảng', 0.7], ['nhân quyền', 0.4]
+  ],
+  hate: [
+    ['racist', 0.3], ['nigger', 0.95], ['faggot', 0.9], ['retard', 0.7],
+    ['bắc kỳ', 0.7], ['parky', 0.8], ['nam kỳ', 0.5], ['ba que', 0.8], ['mọi rợ', 0.6], ['pê đê', 0.6],
+    ['bê đê', 0.6], ['đồ đồng bóng', 0.6], ['tàu khựa', 0.8], ['khựa', 0.7, 'exact']
+  ],
+  harassment: [
+    ['stupid', 0.2], ['idiot', 0.3], ['moron', 0.3], ['ugly', 0.2], ['loser', 0.3], ['shut up', 0.4],
+    ['ngu', 0.3, 'exact'], ['đồ ngu', 0.6], ['óc chó', 0.75], ['oc cho', 0.75], ['thằng chó', 0.6],
+    ['con chó', 0.3], ['câm mồm', 0.6], ['câm miệng', 0.5], ['cút', 0.4, 'exact'], ['xấu xí', 0.2],
+    ['con điên', 0.5], ['thằng điên', 0.5], ['đồ rác rưởi', 0.6], ['mặt dày', 0.3], ['ngu như bò', 0.6]
+  ],
+  profanity: [
+    ['fuck', 0.6], ['fucking', 0.6], ['shit', 0.3], ['damn', 0.15], ['bitch', 0.5], ['wtf', 0.3], ['asshole', 0.6],
+    ['dm', 0.5], ['dmm', 0.6], ['dcm', 0.7], ['dkm', 0.7], ['dmvl', 0.7], ['vcl', 0.5], ['vkl', 0.5],
+    ['vl', 0.3], ['clgt', 0.6], ['cmnr', 0.4], ['cc', 0.3],
+    ['địt', 0.7, 'exact'], ['địt mẹ', 0.9, 'exact'], ['dit me', 0.9], ['đụ', 0.7, 'exact'], ['đụ má', 0.9, 'exact'],
+    ['du ma', 0.8], ['đéo', 0.5, 'exact'], ['éo', 0.3, 'exact'], ['lồn', 0.8, 'exact'], ['vãi lồn', 0.8, 'exact'],
+    ['vai lon', 0.7], ['cái lồn', 0.8, 'exact'], ['cai lon', 0.7], ['cặc', 0.8, 'exact'], ['con cặc', 0.8, 'exact'],
+    ['con cac', 0.7], ['buồi', 0.8, 'exact'], ['cứt', 0.4, 'exact'], ['mẹ mày', 0.6], ['bố mày', 0.4]
+  ]
+};
+
+// Everyday phrases that contain lexicon words but are harmless ("chém gió" = bragging,
+// "chết cười" = dying of laughter). Their tokens are skipped before matching.
+export const ALLOWLIST_PHRASES: string[] = [
+  'chém gió', 'chết cười', 'cười chết', 'đẹp chết', 'mệt chết', 'chết mất', 'nhớ chết',
+  'kill time', 'killing it', 'dead tired', 'damn good', 'drop dead gorgeous',
+  'sex education', 'breast cancer'
+];
+
+// Whole-token teencode spellings mapped to standard Vietnamese
+export const TEENCODE: Record<string, string> = {
+  'djt': 'địt', 'dzit': 'địt', 'đjt': 'địt', 'đit': 'địt',
+  'ko': 'không', 'k': 'không', 'hok': 'không', 'hem': 'không', 'khum': 'không', 'kh': 'không',
+  'dc': 'được', 'đc': 'được', 'j': 'gì', 'z': 'vậy', 'zậy': 'vậy', 'mún': 'muốn', 'mun': 'muốn',
+  'chớt': 'chết', 'chit': 'chết', 'bjt': 'biết', 'bít': 'biết',
+  'wá': 'quá', 'wa': 'quá', 'iu': 'yêu', 'thik': 'thích', 'ck': 'chồng', 'vk': 'vợ'
+};
\ No newline at end of file
@@ -0,0 +1,427 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+import {
+  ModerationCategory,
+  MODERATION_CATEGORIES,
+  LEXICONS,
+  ALLOWLIST_PHRASES,
+  TEENCODE
+} from './moderation-lexicon';
+import { ModerationAuditContext, ModerationAuditService } from './moderation-audit';
+
+export type ModerationAction = 'allow' | 'soften' | 'block';
+
+// Score thresholds (0-1) at which a category is softened or blocked; a missing threshold never triggers
+export interface CategoryThresholds {
+  soften?: number;
+  block?: number;
+}
+
+export type ModerationPolicy = Record<ModerationCategory, CategoryThresholds>;
+
+export type ModerationScores = Record<ModerationCategory, number>;
+
+export interface ModerationResult {
+  action: ModerationAction;
+  scores: ModerationScores;
+  flagged: ModerationCategory[]; // Categories that reached their soften or block threshold
+  softenedText: string;          // Text with matched words masked; unchanged when nothing was matched
+  rules: string[];               // What fired: "lexicon:<category>:<term>" or "openai:<category>"
+  reason?: string;
+}
+
+export interface ModerationOptions {
+  skipClassifier?: boolean; // Lexicons only, e.g. for per-chunk streaming checks
+  audit?: ModerationAuditContext; // Store soften/block decisions for operator review
+}
+
+const OPENAI_MODERATION_URL = 'https://api.openai.com/v1/moderations';
+const OPENAI_MODERATION_MODEL = 'omni-moderation-latest';
+const CLASSIFIER_TIMEOUT_MS = 3000;
+
+// FILTER_SEVERITY presets; MODERATION_POLICY overrides individual categories
+const SEVERITY_POLICIES: Record<string, ModerationPolicy> = {
+  low: {
+    sexual: { soften: 0.4, block: 0.7 },
+    violence: { soften: 0.5, block: 0.85 },
+    self_harm: {},
+    drugs: { soften: 0.6 },
+    politics: {},
+    hate: { soften: 0.4, block: 0.7 },
+    harassment: { soften: 0.5 },
+    profanity: { soften: 0.5 }
+  },
+  medium: {
+    sexual: { soften: 0.3, block: 0.6 },
+    violence: { soften: 0.3, block: 0.7 },
+    self_harm: {}, // Users in distress get a caring reply, not a refusal
+    drugs: { soften: 0.3, block: 0.6 },
+    politics: { soften: 0.3, block: 0.5 },
+    hate: { soften: 0.3, block: 0.6 },
+    harassment: { soften: 0.3, block: 0.7 },
+    profanity: { soften: 0.3 }
+  },
+  high: {
+    sexual: { soften: 0.2, block: 0.4 },
+    violence: { soften: 0.2, block: 0.5 },
+    self_harm: { block: 0.7 },
+    drugs: { soften: 0.2, block: 0.4 },
+    politics: { soften: 0.2, block: 0.4 },
+    hate: { soften: 0.2, block: 0.4 },
+    harassment: { soften: 0.2, block: 0.5 },
+    profanity: { soften: 0.2, block: 0.7 }
+  }
+};
+
+// OpenAI moderation categories folded into ours; scores are combined with the lexicon by max
+const OPENAI_CATEGORY_MAP: Record<string, ModerationCategory[]> = {
+  'sexual': ['sexual'],
+  'sexual/minors': ['sexual'],
+  'harassment': ['harassment'],
+  'harassment/threatening': ['harassment', 'violence'],
+  'hate': ['hate'],
+  'hate/threatening': ['hate', 'violence'],
+  'illicit': ['drugs'],
+  'illicit/violent': ['drugs', 'violence'],
+  'self-harm': ['self_harm'],
+  'self-harm/intent': ['self_harm'],
+  'self-harm/instructions': ['self_harm'],
+  'violence': ['violence'],
+  'violence/graphic': ['violence']
+};
+
+// Letters commonly swapped for digits/symbols ("s3x", "p0rn", "@nh")
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a'
+};
+
+// Words, optionally split by separators used to dodge filters ("đ.m", "f-u-c-k")
+const TOKEN_PATTERN = /[\p{L}\p{N}@]+(?:[.\-_*][\p{L}\p{N}@]+)*/gu;
+
+interface Token {
+  exact: string; // Lowercase with diacritics
+  loose: string; // Diacritics stripped, đ -> d
+  start: number;
+  end: number;
+}
+
+interface CompiledEntry {
+  category: ModerationCategory;
+  term: string;
+  weight: number;
+  exact: boolean;
+  terms: string[]; // One per token, in the form the entry matches on
+}
+
+interface LexiconHit {
+  category: ModerationCategory;
+  term: string;
+  weight: number;
+  start: number;
+  end: number;
+}
+
+export function stripDiacritics(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D');
+}
+
+// Canonical form of one word: separators removed, leetspeak and teencode undone,
+// stretched letters collapsed ("nguuuu" -> "ngu")
+export function normalizeToken(raw: string): string {
+  let token = raw.normalize('NFC').toLowerCase().replace(/[.\-_*]/g, '');
+
+  if (/[\p{L}]/u.test(token) && /[\d@]/.test(token)) {
+    token = token.replace(/[\d@]/g, char => LEET[char] ?? char);
+  }
+
+  if (!/^(.)\1*$/u.test(token)) {
+    token = token.replace(/(\p{L})\1{2,}/gu, '$1');
+  }
+
+  return TEENCODE[token] ?? token;
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const exact = normalizeToken(match[0]);
+    tokens.push({
+      exact,
+      loose: stripDiacritics(exact),
+      start: match.index!,
+      end: match.index! + match[0].length
+    });
+  }
+  return tokens;
+}
+
+// Lexicon entries indexed by the loose form of their first word
+const LEXICON_INDEX: Map<string, CompiledEntry[]> = (() => {
+  const index = new Map<string, CompiledEntry[]>();
+  for (const category of MODERATION_CATEGORIES) {
+    for (const [term, weight, mode] of LEXICONS[category]) {
+      const words = tokenize(term).map(token => token.exact);
+      const exact = mode === 'exact';
+      const entry: CompiledEntry = {
+        category,
+        term,
+        weight,
+        exact,
+        terms: exact ? words : words.map(stripDiacritics)
+      };
+      const key = stripDiacritics(words[0]);
+      index.set(key, [...(index.get(key) || []), entry]);
+    }
+  }
+  return index;
+})();
+
+const ALLOWLIST: string[][] = ALLOWLIST_PHRASES.map(phrase => tokenize(phrase).map(token => token.loose));
+
+// Layered moderation: normalized Vietnamese/English lexicons, an optional OpenAI
+// moderation-endpoint stage, and per-category allow/soften/block thresholds
+export class ModerationPipeline {
+  private audit: ModerationAuditService;
+  private logger: Logger;
+  private policy: ModerationPolicy;
+  private apiKey: string;
+  private classifierEnabled: boolean;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.audit = new ModerationAuditService(bindings, sessionId);
+    this.logger = new Logger(sessionId);
+    this.policy = this.buildPolicy(bindings.FILTER_SEVERITY, bindings.MODERATION_POLICY);
+    this.apiKey = bindings.OPENAI_API_KEY;
+    this.classifierEnabled = bindings.MODERATION_PROVIDER === 'openai'
+      && bindings.LLM_PROVIDER !== 'mock'
+      && Boolean(bindings.OPENAI_API_KEY);
+  }
+
+  async moderate(text: string, options: ModerationOptions = {}): Promise<ModerationResult> {
+    const operatorAllowlist = (await this.audit.getAllowlistPhrases())
+      .map(phrase => tokenize(phrase).map(token => token.loose))
+      .filter(words => words.length > 0);
+    const hits = this.matchLexicons(text, operatorAllowlist);
+    const scores = this.scoreHits(hits);
+    const classifierCategories: ModerationCategory[] = [];
+
+    if (this.classifierEnabled && !options.skipClassifier) {
+      const classifierScores = await this.classify(text);
+      if (classifierScores) {
+        for (const category of MODERATION_CATEGORIES) {
+          const score = classifierScores[category] ?? 0;
+          if (score > scores[category]) {
+            scores[category] = score;
+            classifierCategories.push(category);
+          }
+        }
+      }
+    }
+
+    const blocked = MODERATION_CATEGORIES.filter(category => this.reaches(scores[category], this.policy[category].block));
+    const softened = MODERATION_CATEGORIES.filter(category =>
+      !blocked.includes(category) && this.reaches(scores[category], this.policy[category].soften)
+    );
+    const flagged = [...blocked, ...softened];
+
+    const action: ModerationAction = blocked.length > 0 ? 'block' : softened.length > 0 ? 'soften' : 'allow';
+    const flaggedHits = hits.filter(hit => flagged.includes(hit.category));
+    const softenedText = this.mask(text, flaggedHits);
+    const rules = [
+      ...new Set(flaggedHits.map(hit => `lexicon:${hit.category}:${hit.term}`)),
+      ...flagged.filter(category => classifierCategories.includes(category)).map(category => `openai:${category}`)
+    ];
+
+    if (action !== 'allow') {
+      this.logger.warn('Moderation flagged content', {
+        action,
+        scores: Object.fromEntries(flagged.map(category => [category, scores[category]]))
+      });
+
+      if (options.audit) {
+        await this.audit.recordDecision({
+          ...options.audit,
+          action,
+          categories: flagged,
+          scores: Object.fromEntries(MODERATION_CATEGORIES.filter(category => scores[category] > 0).map(category => [category, scores[category]])),
+          rules,
+          redactedText: softenedText
+        });
+      }
+    }
+
+    return {
+      action,
+      scores,
+      flagged,
+      softenedText,
+      rules,
+      reason: action === 'allow' ? undefined : `${action}: ${flagged.join(', ')}`
+    };
+  }
+
+  getPolicy(): ModerationPolicy {
+    return this.policy;
+  }
+
+  private reaches(score: number, threshold?: number): boolean {
+    return threshold !== undefined && score > 0 && score >= threshold;
+  }
+
+  private matchLexicons(text: string, extraAllowlist: string[][] = []): LexiconHit[] {
+    const tokens = tokenize(text);
+    const skipped = new Set<number>();
+    const allowlist = [...ALLOWLIST, ...extraAllowlist];
+
+    // Harmless idioms hide their tokens from the lexicons
+    for (let i = 0; i < tokens.length; i++) {
+      for (const phrase of allowlist) {
+        if (phrase.every((word, j) => tokens[i + j]?.loose === word)) {
+          phrase.forEach((_, j) => skipped.add(i + j));
+        }
+      }
+    }
+
+    const hits: LexiconHit[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      if (skipped.has(i)) continue;
+
+      // Strongest match per category at each position ("giết mày" beats "giết")
+      const best = new Map<ModerationCategory, LexiconHit>();
+      for (const entry of LEXICON_INDEX.get(tokens[i].loose) || []) {
+        const matches = entry.terms.every((term, j) => {
+          const token = tokens[i + j];
+          return token && !skipped.has(i + j) && (entry.exact ? token.exact : token.loose) === term;
+        });
+        if (!matches) continue;
+
+        const current = best.get(entry.category);
+        if (!current || entry.weight > current.weight) {
+          best.set(entry.category, {
+            category: entry.category,
+            term: entry.term,
+            weight: entry.weight,
+            start: tokens[i].start,
+            end: tokens[i + entry.terms.length - 1].end
+          });
+        }
+      }
+      hits.push(...best.values());
+    }
+
+    return hits;
+  }
+
+  // Independent evidence: score = 1 - Π(1 - weight)
+  private scoreHits(hits: LexiconHit[]): ModerationScores {
+    const scores = Object.fromEntries(MODERATION_CATEGORIES.map(category => [category, 0])) as ModerationScores;
+    for (const hit of hits) {
+      scores[hit.category] = 1 - (1 - scores[hit.category]) * (1 - hit.weight);
+    }
+    for (const category of MODERATION_CATEGORIES) {
+      scores[category] = Math.round(scores[category] * 100) / 100;
+    }
+    return scores;
+  }
+
+  private mask(text: string, hits: LexiconHit[]): string {
+    const chars = Array.from(text);
+    // Hit offsets are UTF-16 indexes; rebuild them against code points
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const char of chars) {
+      offsets.push(offset);
+      offset += char.length;
+    }
+
+    return chars
+      .map((char, i) => hits.some(hit => offsets[i] >= hit.start && offsets[i] < hit.end) && /\S/.test(char) ? '*' : char)
+      .join('');
+  }
+
+  // OpenAI moderation endpoint; failures and timeouts fall back to the lexicon scores
+  private async classify(text: string): Promise<Partial<ModerationScores> | null> {
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => abortController.abort(), CLASSIFIER_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(OPENAI_MODERATION_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ model: OPENAI_MODERATION_MODEL, input: text }),
+        signal: abortController.signal
+      });
+
+      if (!response.ok) {
+        this.logger.warn('Moderation endpoint error', { status: response.status });
+        return null;
+      }
+
+      const data = await response.json() as any;
+      const categoryScores: Record<string, number> = data.results?.[0]?.category_scores || {};
+      const scores: Partial<ModerationScores> = {};
+
+      for (const [name, score] of Object.entries(categoryScores)) {
+        for (const category of OPENAI_CATEGORY_MAP[name] || []) {
+          scores[category] = Math.max(scores[category] ?? 0, Math.round(score * 100) / 100);
+        }
+      }
+
+      return scores;
+
+    } catch (error) {
+      this.logger.warn('Moderation endpoint unavailable, using lexicons only', error);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // MODERATION_POLICY is JSON mapping categories to 'allow' | 'soften' | 'block' or to
+  // explicit thresholds, e.g. {"politics":"allow","profanity":{"soften":0.2,"block":0.8}}
+  private buildPolicy(severity?: string, overrides?: string): ModerationPolicy {
+    const base = SEVERITY_POLICIES[severity || 'medium'] || SEVERITY_POLICIES.medium;
+    const policy = { ...base };
+    if (!overrides) return policy;
+
+    try {
+      const parsed = JSON.parse(overrides) as Record<string, unknown>;
+
+      for (const [category, value] of Object.entries(parsed)) {
+        if (!MODERATION_CATEGORIES.includes(category as ModerationCategory)) {
+          this.logger.warn('Unknown category in MODERATION_POLICY', { category });
+          continue;
+        }
+
+        const preset = base[category as ModerationCategory];
+        if (value === 'allow') {
+          policy[category as ModerationCategory] = {};
+        } else if (value === 'soften') {
+          policy[category as ModerationCategory] = { soften: preset.soften ?? 0.3 };
+        } else if (value === 'block') {
+          policy[category as ModerationCategory] = { soften: preset.soften, block: preset.block ?? 0.6 };
+        } else if (value && typeof value === 'object') {
+          const { soften, block } = value as CategoryThresholds;
+          policy[category as ModerationCategory] = {
+            soften: typeof soften === 'number' ? soften : undefined,
+            block: typeof block === 'number' ? block : undefined
+          };
+        } else {
+          this.logger.warn('Invalid MODERATION_POLICY value', { category, value });
+        }
+      }
+
+    } catch (error) {
+      this.logger.warn('Invalid MODERATION_POLICY JSON, using FILTER_SEVERITY defaults', error);
+    }
+
+    return policy;
+  }
+}
\ No newline at end of file
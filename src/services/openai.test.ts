@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Bindings } from '../types';
+import { OpenAIClient, MemoryAndVibesRequest } from './openai';
+import { MemoryPlusService } from './memory-plus';
+import { VietVibesService } from './viet-vibes';
+import { DEFAULT_ADDRESSING } from '../utils/addressing';
+
+// No DB, no API key: only the mock provider can answer
+const bindings = { LLM_PROVIDER: 'mock' } as Bindings;
+
+function mockRequest(text: string): MemoryAndVibesRequest {
+  return {
+    text,
+    userId: 'user_1',
+    memoryService: new MemoryPlusService(bindings, 'test'),
+    vietVibesService: new VietVibesService(bindings, 'test'),
+    relationshipStage: 'new',
+    vietAnalysis: { detectedRegion: null, emotionalTone: 'neutral', culturalReferences: [] },
+    addressing: DEFAULT_ADDRESSING
+  };
+}
+
+describe('OpenAIClient with the mock provider', () => {
+  const fetchMock = vi.fn(async () => {
+    throw new Error('network access in an offline test');
+  });
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockClear();
+  });
+
+  it('answers a chat turn deterministically without the network', async () => {
+    const client = new OpenAIClient(bindings, 'test');
+
+    const first = await client.generateResponseWithMemoryAndVibes(mockRequest('Hôm nay anh đi làm về muộn'));
+    const second = await client.generateResponseWithMemoryAndVibes(mockRequest('Hôm nay anh đi làm về muộn'));
+
+    expect(first.reply).toContain('Hôm nay anh đi làm về muộn');
+    expect(second.reply).toBe(first.reply);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('streams the same reply token by token without the network', async () => {
+    const client = new OpenAIClient(bindings, 'test');
+    const complete = await client.generateResponseWithMemoryAndVibes(mockRequest('Em ăn cơm chưa?'));
+
+    const tokens: string[] = [];
+    const streamed = await client.streamResponseWithMemoryAndVibes(mockRequest('Em ăn cơm chưa?'), async (token) => {
+      tokens.push(token);
+    });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(streamed.filtered).toBe(false);
+    expect(streamed.reply).toBe(complete.reply);
+    expect(tokens.join('').trim()).toContain('Em ăn cơm chưa?');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -1,85 +1,105 @@
-import { Bindings, ChatRequest, ChatResponse } from '../types';
+import { Bindings, ChatRequest, ChatResponse, ChatCompletionMessage } from '../types';
 import { Logger } from '../utils/logger';
+import { estimateTokens } from '../utils/tokens';
+import { Addressing, DEFAULT_ADDRESSING, basePronouns, cannedReply } from '../utils/addressing';
 import { ContentFilter } from './content-filter';
+import { ConversationContextBuilder } from './conversation-context';
 import { MemoryPlusService } from './memory-plus';
 import { VietVibesService } from './viet-vibes';
+import { UsageService } from './usage';
+import { Persona, PersonaRegistry } from './persona';
+import { LLMProvider, LLMCompletionRequest, LLMUsage, createLLMProvider } from './llm-provider';
+
+export type MemoryAndVibesRequest = ChatRequest & {
+  userId: string,
+  memoryService: MemoryPlusService,
+  vietVibesService: VietVibesService,
+  relationshipStage: string,
+  vietAnalysis: any,
+  addressing: Addressing,
+  minor?: boolean
+};
+
+// How the user wants to be addressed (unknown means gender-neutral) and whether they are under 18
+type AddressedChatRequest = ChatRequest & { userId?: string, addressing?: Addressing, minor?: boolean };
+
+export interface StreamedChatResponse extends ChatResponse {
+  // True when the content filter replaced or masked text that was already streamed
+  filtered: boolean;
+}
 
 export class OpenAIClient {
-  private apiKey: string;
+  private provider: LLMProvider;
   private logger: Logger;
   private contentFilter: ContentFilter;
+  private contextBuilder: ConversationContextBuilder;
+  private usage: UsageService;
+  private personas: PersonaRegistry;
+  private sessionId: string;
   private maxTokens: number;
 
   constructor(bindings: Bindings, sessionId: string) {
-    this.apiKey = bindings.OPENAI_API_KEY;
+    this.provider = createLLMProvider(bindings, sessionId);
+    this.usage = new UsageService(bindings, sessionId);
+    this.personas = new PersonaRegistry(bindings, sessionId);
+    this.sessionId = sessionId;
     this.logger = new Logger(sessionId);
     this.contentFilter = new ContentFilter(bindings, sessionId);
+    this.contextBuilder = new ConversationContextBuilder(bindings, sessionId);
     this.maxTokens = parseInt(bindings.MAX_MESSAGE_TOKENS) || 512;
   }
 
-  async generateResponse(request: ChatRequest): Promise<ChatResponse> {
+  async generateResponse(request: AddressedChatRequest): Promise<ChatResponse> {
     try {
+      const persona = await this.personas.resolvePersona(request.persona, request.userId);
+      const addressing = request.addressing || { ...DEFAULT_ADDRESSING, companionGender: persona.companionGender };
+      const pronouns = basePronouns(addressing);
+
       // Filter input content
-      const filterResult = await this.contentFilter.filterContent(request.text);
+      const filterResult = await this.contentFilter.filterContent(request.text, { audit: { direction: 'input', userId: request.userId } });
       if (!filterResult.isAllowed) {
         return {
-          reply: "Em muốn chúng ta nói chuyện tích cực và phù hợp hơn. Chúng ta nói về chủ đề khác nhé anh? ❤️",
+          reply: cannedReply('off_topic', pronouns),
           sessionId: request.sessionId || this.generateSessionId()
         };
       }
 
       // Get system prompt based on persona
-      const systemPrompt = this.contentFilter.generateSystemPrompt(request.persona);
+      const systemPrompt = this.contentFilter.generateSystemPrompt(persona, addressing, request.minor);
+
+      // Include recent conversation turns
+      const messages = await this.buildMessages(systemPrompt, request);
 
       // Prepare OpenAI request
-      const openaiRequest = {
-        model: 'gpt-4o-mini', // Cost-effective model as requested
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: request.text }
-        ],
-        max_tokens: this.maxTokens,
-        temperature: 0.8, // Slightly creative but consistent
-        frequency_penalty: 0.3, // Reduce repetition
-        presence_penalty: 0.1
+      const completionRequest: LLMCompletionRequest = {
+        messages,
+        maxTokens: this.maxTokens,
+        temperature: persona.temperature,
+        frequencyPenalty: 0.3, // Reduce repetition
+        presencePenalty: 0.1
       };
 
-      this.logger.info('Sending request to OpenAI', { 
-        model: openaiRequest.model, 
+      this.logger.info('Sending request to LLM provider', { 
+        provider: this.provider.name,
+        model: this.provider.model,
         tokens: this.maxTokens,
-        persona: request.persona
+        persona: persona.id,
+        historyTurns: messages.length - 2
       });
 
-      // Call OpenAI API
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(openaiRequest)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        this.logger.error('OpenAI API error', { 
-          status: response.status, 
-          error: errorData 
-        });
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json() as any;
-      const reply = data.choices?.[0]?.message?.content || "Em xin lỗi, em không thể tạo phản hồi ngay bây giờ. Anh thử lại nhé! 💕";
+      // Call LLM provider
+      const completion = await this.provider.complete(completionRequest);
+      await this.recordUsage(request.sessionId, request.userId, 'chat', completion.provider, completion.model, completion.usage);
+      const reply = completion.content || cannedReply('empty_reply', pronouns);
 
       // Filter output content as well
-      const outputFilter = await this.contentFilter.filterContent(reply);
-      const finalReply = outputFilter.isAllowed ? reply : "Để em suy nghĩ cách trả lời hay hơn nhé! ❤️";
+      const outputFilter = await this.contentFilter.filterContent(reply, { audit: { direction: 'output', userId: request.userId } });
+      const finalReply = outputFilter.isAllowed ? outputFilter.filteredText ?? reply : cannedReply('rethink', pronouns);
 
       this.logger.info('OpenAI response generated', { 
         inputLength: request.text.length,
         outputLength: finalReply.length,
-        tokensUsed: data.usage?.total_tokens
+        tokensUsed: completion.usage?.totalTokens
       });
 
       return {
@@ -89,87 +109,81 @@ export class OpenAIClient {
 
     } catch (error) {
       this.logger.error('Error generating OpenAI response', error);
-      return {
-        reply: "Em đang gặp một chút khó khăn kỹ thuật. Anh thử lại sau một chút nhé! 🥰",
-        sessionId: request.sessionId || this.generateSessionId()
-      };
+      return this.technicalDifficultyResponse(request.sessionId, request.addressing);
     }
   }
 
+  // Canned reply for when no LLM provider could answer
+  technicalDifficultyResponse(sessionId?: string, addressing: Addressing = DEFAULT_ADDRESSING): ChatResponse {
+    return {
+      reply: cannedReply('technical_difficulty', basePronouns(addressing)),
+      sessionId: sessionId || this.generateSessionId()
+    };
+  }
+
   // Generate memory-enhanced response using Memory Plus service
-  async generateResponseWithMemory(request: ChatRequest & { 
+  async generateResponseWithMemory(request: AddressedChatRequest & { 
     userId: string, 
     memoryService: MemoryPlusService 
   }): Promise<ChatResponse> {
     try {
+      const persona = await this.personas.resolvePersona(request.persona, request.userId);
+      const addressing = request.addressing || { ...DEFAULT_ADDRESSING, companionGender: persona.companionGender };
+      const pronouns = basePronouns(addressing);
+
       // Filter input content
-      const filterResult = await this.contentFilter.filterContent(request.text);
+      const filterResult = await this.contentFilter.filterContent(request.text, { audit: { direction: 'input', userId: request.userId } });
       if (!filterResult.isAllowed) {
         return {
-          reply: "Em muốn chúng ta nói chuyện tích cực và phù hợp hơn. Chúng ta nói về chủ đề khác nhé anh? ❤️",
+          reply: cannedReply('off_topic', pronouns),
           sessionId: request.sessionId || this.generateSessionId()
         };
       }
 
       // Get base system prompt
-      const baseSystemPrompt = this.contentFilter.generateSystemPrompt(request.persona);
+      const baseSystemPrompt = this.contentFilter.generateSystemPrompt(persona, addressing, request.minor);
       
       // Enhance prompt with memory context
       const memoryEnhancedPrompt = await request.memoryService.generateMemoryEnhancedPrompt(
         request.userId, 
-        baseSystemPrompt
+        baseSystemPrompt,
+        request.text
       );
 
+      // Include recent conversation turns
+      const messages = await this.buildMessages(memoryEnhancedPrompt, request);
+
       // Prepare OpenAI request with enhanced prompt
-      const openaiRequest = {
-        model: 'gpt-4o-mini', // Cost-effective model
-        messages: [
-          { role: 'system', content: memoryEnhancedPrompt },
-          { role: 'user', content: request.text }
-        ],
-        max_tokens: this.maxTokens,
-        temperature: 0.8, // Creative but consistent
-        frequency_penalty: 0.3, // Reduce repetition
-        presence_penalty: 0.1
+      const completionRequest: LLMCompletionRequest = {
+        messages,
+        maxTokens: this.maxTokens,
+        temperature: persona.temperature,
+        frequencyPenalty: 0.3, // Reduce repetition
+        presencePenalty: 0.1
       };
 
-      this.logger.info('Sending memory-enhanced request to OpenAI', { 
-        model: openaiRequest.model, 
+      this.logger.info('Sending memory-enhanced request to LLM provider', { 
+        provider: this.provider.name,
+        model: this.provider.model,
         tokens: this.maxTokens,
-        persona: request.persona,
-        hasMemoryContext: true
-      });
-
-      // Call OpenAI API
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(openaiRequest)
+        persona: persona.id,
+        hasMemoryContext: true,
+        historyTurns: messages.length - 2
       });
 
-      if (!response.ok) {
-        const errorData = await response.text();
-        this.logger.error('OpenAI API error (memory-enhanced)', { 
-          status: response.status, 
-          error: errorData 
-        });
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json() as any;
-      const reply = data.choices?.[0]?.message?.content || "Em xin lỗi, em không thể tạo phản hồi ngay bây giờ. Anh thử lại nhé! 💕";
+      // Call LLM provider
+      const completion = await this.provider.complete(completionRequest);
+      await this.recordUsage(request.sessionId, request.userId, 'chat', completion.provider, completion.model, completion.usage);
+      const reply = completion.content || cannedReply('empty_reply', pronouns);
 
       // Filter output content
-      const outputFilter = await this.contentFilter.filterContent(reply);
-      const finalReply = outputFilter.isAllowed ? reply : "Để em suy nghĩ cách trả lời hay hơn nhé! ❤️";
+      const outputFilter = await this.contentFilter.filterContent(reply, { audit: { direction: 'output', userId: request.userId } });
+      const finalReply = outputFilter.isAllowed ? outputFilter.filteredText ?? reply : cannedReply('rethink', pronouns);
 
       this.logger.info('Memory-enhanced response generated', { 
         inputLength: request.text.length,
         outputLength: finalReply.length,
-        tokensUsed: data.usage?.total_tokens,
+        tokensUsed: completion.usage?.totalTokens,
         memoryEnhanced: true
       });
 
@@ -185,100 +199,65 @@ export class OpenAIClient {
   }
 
   // Generate response with both Memory Plus and Viet Vibes enhancement
-  async generateResponseWithMemoryAndVibes(request: ChatRequest & {
-    userId: string,
-    memoryService: MemoryPlusService,
-    vietVibesService: VietVibesService,
-    relationshipStage: string,
-    vietAnalysis: any
-  }): Promise<ChatResponse> {
+  async generateResponseWithMemoryAndVibes(request: MemoryAndVibesRequest): Promise<ChatResponse> {
     try {
+      // Stage pronouns for the user's address form, for canned replies
+      const pronouns = await request.vietVibesService.getPronouns(request.userId, request.relationshipStage, request.addressing);
+
       // Filter input content
-      const filterResult = await this.contentFilter.filterContent(request.text);
+      const filterResult = await this.contentFilter.filterContent(request.text, { audit: { direction: 'input', userId: request.userId } });
       if (!filterResult.isAllowed) {
         // Use Vietnamese culturally appropriate rejection
-        const pronouns = await request.vietVibesService.getPronouns(request.userId, request.relationshipStage);
         return {
-          reply: `${pronouns.self} muốn chúng ta nói chuyện tích cực và phù hợp hơn. Chúng ta nói về chủ đề khác nhé ${pronouns.other}? ❤️`,
+          reply: cannedReply('off_topic', pronouns),
           sessionId: request.sessionId || this.generateSessionId()
         };
       }
 
-      // Get base system prompt
-      const baseSystemPrompt = this.contentFilter.generateSystemPrompt(request.persona);
-      
-      // Enhance prompt with Memory Plus context
-      const memoryEnhancedPrompt = await request.memoryService.generateMemoryEnhancedPrompt(
-        request.userId, 
-        baseSystemPrompt
-      );
-      
-      // Further enhance with Viet Vibes cultural context
-      const fullEnhancedPrompt = await request.vietVibesService.generateVietVibesPrompt(
-        request.userId,
-        memoryEnhancedPrompt,
-        request.relationshipStage,
-        request.vietAnalysis.emotionalTone
-      );
+      // Build Memory Plus + Viet Vibes prompt with recent conversation turns
+      const persona = await this.personas.resolvePersona(request.persona, request.userId);
+      const fullEnhancedPrompt = await this.buildMemoryAndVibesPrompt(request, persona);
+      const messages = await this.buildMessages(fullEnhancedPrompt, request);
 
       // Prepare OpenAI request with both enhancements
-      const openaiRequest = {
-        model: 'gpt-4o-mini', // Cost-effective model
-        messages: [
-          { role: 'system', content: fullEnhancedPrompt },
-          { role: 'user', content: request.text }
-        ],
-        max_tokens: this.maxTokens,
-        temperature: 0.85, // Slightly higher for more Vietnamese cultural creativity
-        frequency_penalty: 0.3, // Reduce repetition
-        presence_penalty: 0.2, // Encourage diverse Vietnamese expressions
-        top_p: 0.9 // Focus on most probable Vietnamese responses
+      const completionRequest: LLMCompletionRequest = {
+        messages,
+        maxTokens: this.maxTokens,
+        temperature: persona.temperature + 0.05, // Slightly higher for more Vietnamese cultural creativity
+        frequencyPenalty: 0.3, // Reduce repetition
+        presencePenalty: 0.2, // Encourage diverse Vietnamese expressions
+        topP: 0.9 // Focus on most probable Vietnamese responses
       };
 
-      this.logger.info('Sending Memory Plus + Viet Vibes enhanced request to OpenAI', { 
-        model: openaiRequest.model, 
+      this.logger.info('Sending Memory Plus + Viet Vibes enhanced request to LLM provider', { 
+        provider: this.provider.name,
+        model: this.provider.model,
         tokens: this.maxTokens,
-        persona: request.persona,
+        persona: persona.id,
         hasMemoryContext: true,
         hasVietVibes: true,
+        historyTurns: messages.length - 2,
         relationshipStage: request.relationshipStage,
         vietRegion: request.vietAnalysis.detectedRegion,
         emotionalTone: request.vietAnalysis.emotionalTone
       });
 
-      // Call OpenAI API
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(openaiRequest)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        this.logger.error('OpenAI API error (Memory + Viet Vibes)', { 
-          status: response.status, 
-          error: errorData 
-        });
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json() as any;
-      let reply = data.choices?.[0]?.message?.content || "Em xin lỗi, em không thể tạo phản hồi ngay bây giờ. Anh thử lại nhé! 💕";
+      // Call LLM provider
+      const completion = await this.provider.complete(completionRequest);
+      await this.recordUsage(request.sessionId, request.userId, 'chat', completion.provider, completion.model, completion.usage);
+      let reply = completion.content || cannedReply('empty_reply', pronouns);
 
       // Post-process reply for Vietnamese authenticity
-      reply = await this.postProcessVietnameseResponse(reply, request.vietVibesService, request.userId, request.relationshipStage);
+      reply = this.postProcessVietnameseResponse(reply, pronouns, request.relationshipStage);
 
       // Filter output content
-      const outputFilter = await this.contentFilter.filterContent(reply);
-      const finalReply = outputFilter.isAllowed ? reply : "Để em suy nghĩ cách trả lời hay hơn nhé anh yêu! ❤️";
+      const outputFilter = await this.contentFilter.filterContent(reply, { audit: { direction: 'output', userId: request.userId } });
+      const finalReply = outputFilter.isAllowed ? outputFilter.filteredText ?? reply : cannedReply('rethink', pronouns);
 
       this.logger.info('Memory Plus + Viet Vibes response generated', { 
         inputLength: request.text.length,
         outputLength: finalReply.length,
-        tokensUsed: data.usage?.total_tokens,
+        tokensUsed: completion.usage?.totalTokens,
         memoryEnhanced: true,
         vietVibesEnhanced: true,
         relationshipStage: request.relationshipStage
@@ -295,22 +274,254 @@ export class OpenAIClient {
     }
   }
 
+  // Stream a Memory Plus + Viet Vibes response token by token.
+  // Tokens are only forwarded after the accumulated text passes the content filter;
+  // if it trips, the upstream request is aborted and the safe fallback is returned.
+  async streamResponseWithMemoryAndVibes(
+    request: MemoryAndVibesRequest,
+    onToken: (token: string) => Promise<void>
+  ): Promise<StreamedChatResponse> {
+    const sessionId = request.sessionId || this.generateSessionId();
+    const pronouns = await request.vietVibesService.getPronouns(request.userId, request.relationshipStage, request.addressing);
+
+    // Filter input content
+    const filterResult = await this.contentFilter.filterContent(request.text, { audit: { direction: 'input', userId: request.userId } });
+    if (!filterResult.isAllowed) {
+      return {
+        reply: cannedReply('off_topic', pronouns),
+        sessionId,
+        filtered: true
+      };
+    }
+
+    const persona = await this.personas.resolvePersona(request.persona, request.userId);
+    const fullEnhancedPrompt = await this.buildMemoryAndVibesPrompt(request, persona);
+    const messages = await this.buildMessages(fullEnhancedPrompt, request);
+
+    const completionRequest: LLMCompletionRequest = {
+      messages,
+      maxTokens: this.maxTokens,
+      temperature: persona.temperature + 0.05,
+      frequencyPenalty: 0.3,
+      presencePenalty: 0.2,
+      topP: 0.9
+    };
+
+    this.logger.info('Sending streaming Memory Plus + Viet Vibes request to LLM provider', {
+      provider: this.provider.name,
+      model: this.provider.model,
+      tokens: this.maxTokens,
+      persona: persona.id,
+      historyTurns: messages.length - 2,
+      relationshipStage: request.relationshipStage
+    });
+
+    let reply = '';
+    let rewritten = false;
+    let usage: LLMUsage | undefined;
+
+    // Breaking out of the loop closes the provider stream and aborts the upstream request
+    for await (const chunk of this.provider.stream(completionRequest)) {
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      if (!chunk.delta) continue;
+
+      // Lexicons only per chunk; the full pipeline runs once the reply is complete
+      const outputFilter = await this.contentFilter.filterContent(reply + chunk.delta, {
+        skipClassifier: true,
+        audit: { direction: 'output', userId: request.userId }
+      });
+      if (!outputFilter.isAllowed) {
+        this.logger.warn('Streaming response blocked by content filter', {
+          streamedLength: reply.length
+        });
+        // Usage never arrives for an aborted stream, so estimate what was generated
+        const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+        const completionTokens = estimateTokens(reply + chunk.delta);
+        await this.recordUsage(sessionId, request.userId, 'chat_stream', this.provider.name, this.provider.model, {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens
+        });
+        return {
+          reply: cannedReply('rethink', pronouns),
+          sessionId,
+          filtered: true
+        };
+      }
+
+      // Softened words are masked before they are forwarded. A phrase completed by this
+      // chunk can also mask text already sent, which is fixed by a reset at the end.
+      const accepted = outputFilter.filteredText ?? reply + chunk.delta;
+      if (accepted.startsWith(reply)) {
+        await onToken(accepted.slice(reply.length));
+      } else {
+        rewritten = true;
+      }
+      reply = accepted;
+    }
+
+    await this.recordUsage(sessionId, request.userId, 'chat_stream', this.provider.name, this.provider.model, usage);
+
+    if (!reply) {
+      reply = cannedReply('empty_reply', pronouns);
+    }
+
+    const finalFilter = await this.contentFilter.filterContent(reply, { audit: { direction: 'output', userId: request.userId } });
+    if (!finalFilter.isAllowed) {
+      this.logger.warn('Streaming response blocked by content filter', {
+        streamedLength: reply.length
+      });
+      return {
+        reply: cannedReply('rethink', pronouns),
+        sessionId,
+        filtered: true
+      };
+    }
+    if (finalFilter.filteredText && finalFilter.filteredText !== reply) {
+      reply = finalFilter.filteredText;
+      rewritten = true;
+    }
+
+    // Post-process the full reply the same way as the non-streaming path
+    const finalReply = this.postProcessVietnameseResponse(reply, pronouns, request.relationshipStage);
+
+    this.logger.info('Streaming Memory Plus + Viet Vibes response generated', {
+      inputLength: request.text.length,
+      outputLength: finalReply.length,
+      tokensUsed: usage?.totalTokens,
+      relationshipStage: request.relationshipStage
+    });
+
+    return {
+      reply: finalReply.trim(),
+      sessionId,
+      filtered: rewritten
+    };
+  }
+
+  // Compose base persona prompt with Memory Plus and Viet Vibes context
+  private async buildMemoryAndVibesPrompt(request: MemoryAndVibesRequest, persona: Persona): Promise<string> {
+    // Get base system prompt
+    const baseSystemPrompt = this.contentFilter.generateSystemPrompt(persona, request.addressing, request.minor);
+
+    // Enhance prompt with Memory Plus context
+    const memoryEnhancedPrompt = await request.memoryService.generateMemoryEnhancedPrompt(
+      request.userId,
+      baseSystemPrompt,
+      request.text
+    );
+
+    // Further enhance with Viet Vibes cultural context
+    return request.vietVibesService.generateVietVibesPrompt(
+      request.userId,
+      memoryEnhancedPrompt,
+      request.relationshipStage,
+      request.vietAnalysis.emotionalTone,
+      persona.region,
+      request.addressing
+    );
+  }
+
+  // Assemble system prompt, prior turns and the current user message
+  private async buildMessages(systemPrompt: string, request: ChatRequest & { userId?: string }): Promise<ChatCompletionMessage[]> {
+    if (!request.sessionId) {
+      return [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: request.text }
+      ];
+    }
+
+    const history = await this.contextBuilder.buildHistory(
+      request.sessionId,
+      request.text,
+      (previousSummary, turns) => this.summarizeTurns(request, previousSummary, turns)
+    );
+
+    const systemContent = history.summary
+      ? `${systemPrompt}\n\nTÓM TẮT CUỘC TRÒ CHUYỆN TRƯỚC ĐÓ:\n${history.summary}`
+      : systemPrompt;
+
+    return [
+      { role: 'system', content: systemContent },
+      ...history.turns,
+      { role: 'user', content: request.text }
+    ];
+  }
+
+  // Fold turns that no longer fit the prompt window into the running summary
+  private async summarizeTurns(
+    request: ChatRequest & { userId?: string },
+    previousSummary: string | undefined,
+    turns: ChatCompletionMessage[]
+  ): Promise<string> {
+    const transcript = turns
+      .map(turn => `${turn.role === 'user' ? 'Người dùng' : 'Bạn gái AI'}: ${turn.content}`)
+      .join('\n');
+
+    const completion = await this.provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: 'Bạn tóm tắt cuộc trò chuyện giữa người dùng và bạn gái AI. Giữ lại sự kiện, cảm xúc, kế hoạch và thông tin cá nhân quan trọng. Viết ngắn gọn bằng tiếng Việt, tối đa 150 từ.'
+        },
+        {
+          role: 'user',
+          content: previousSummary
+            ? `Tóm tắt trước đó:\n${previousSummary}\n\nĐoạn hội thoại mới:\n${transcript}`
+            : `Đoạn hội thoại:\n${transcript}`
+        }
+      ],
+      maxTokens: Math.min(this.maxTokens, 300),
+      temperature: 0.3
+    });
+    await this.recordUsage(request.sessionId, request.userId, 'summary', completion.provider, completion.model, completion.usage);
+
+    const summary = completion.content.trim();
+    if (!summary) {
+      throw new Error('Empty conversation summary');
+    }
+
+    return summary;
+  }
+
+  // Add the call to the usage ledger (user is resolved from the session when unknown)
+  private async recordUsage(
+    sessionId: string | undefined,
+    userId: string | undefined,
+    operation: string,
+    provider: string,
+    model: string,
+    usage?: LLMUsage
+  ): Promise<void> {
+    if (!usage) return;
+
+    await this.usage.recordUsage({
+      userId,
+      sessionId: sessionId || this.sessionId,
+      usageType: 'llm',
+      operation,
+      provider,
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens
+    });
+  }
+
   // Post-process response to ensure Vietnamese authenticity
-  private async postProcessVietnameseResponse(
+  private postProcessVietnameseResponse(
     reply: string, 
-    vietVibesService: VietVibesService, 
-    userId: string, 
+    pronouns: { self: string, other: string }, 
     relationshipStage: string
-  ): Promise<string> {
+  ): string {
     try {
-      // Get appropriate pronouns for consistency check
-      const pronouns = await vietVibesService.getPronouns(userId, relationshipStage);
-      
       // Simple post-processing to ensure Vietnamese authenticity
       let processedReply = reply;
       
-      // Ensure proper Vietnamese pronouns are used
-      if (!processedReply.includes(pronouns.self) && !processedReply.includes('em')) {
+      // Ensure the companion's own pronoun is used
+      if (!processedReply.toLowerCase().includes(pronouns.self)) {
         // If no Vietnamese pronouns detected, add them naturally
         processedReply = processedReply.replace(/^/, `${pronouns.self} `);
       }
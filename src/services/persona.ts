@@ -0,0 +1,133 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+import { CustomCharacterService } from './custom-character';
+import { VietRegion } from './viet-vibes';
+import { CompanionGender } from '../utils/addressing';
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string; // Personality section of the system prompt
+  temperature: number;
+  stickerPack: string;
+  ttsVoice: string;
+  speakingRate: number;
+  companionGender: CompanionGender;
+  region?: VietRegion; // Companion's home dialect (custom characters)
+  ownerId?: string; // Set for user-created characters
+}
+
+export const DEFAULT_PERSONA_ID = 'caring_girlfriend';
+
+// Used when the personas table is unavailable so chat keeps working
+const FALLBACK_PERSONA: Persona = {
+  id: DEFAULT_PERSONA_ID,
+  name: 'Dịu Dàng',
+  description: 'Ngọt ngào, chu đáo, luôn lắng nghe và hỗ trợ',
+  systemPrompt: 'Bạn là một cô bạn gái AI dịu dàng, quan tâm và hỗ trợ. Tính cách của bạn ấm áp, yêu thương và khích lệ.',
+  temperature: 0.8,
+  stickerPack: 'girlfriend_pack_1',
+  ttsVoice: 'vi-VN-Neural2-A',
+  speakingRate: 1.0,
+  companionGender: 'female'
+};
+
+// Active personas from the personas table (loaded once per instance) plus
+// user-created characters, which are addressed by their char_* id
+export class PersonaRegistry {
+  private db: D1Database;
+  private characters: CustomCharacterService;
+  private logger: Logger;
+  private personas: Persona[] | null = null;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = bindings.DB;
+    this.characters = new CustomCharacterService(bindings, sessionId);
+    this.logger = new Logger(sessionId);
+  }
+
+  async listPersonas(): Promise<Persona[]> {
+    return await this.loadPersonas() || [FALLBACK_PERSONA];
+  }
+
+  async getPersona(personaId: string): Promise<Persona | null> {
+    const personas = await this.listPersonas();
+    return personas.find(persona => persona.id === personaId) || null;
+  }
+
+  // Unknown, retired or deleted personas fall back to the default one.
+  // Custom characters must belong to userId when it is given.
+  async resolvePersona(personaId?: string, userId?: string): Promise<Persona> {
+    const personas = await this.listPersonas();
+    const defaultPersona = personas.find(persona => persona.id === DEFAULT_PERSONA_ID)
+      || personas[0]
+      || FALLBACK_PERSONA;
+
+    if (personaId && CustomCharacterService.isCustomCharacterId(personaId)) {
+      const character = await this.characters.getCharacter(personaId, userId);
+      if (!character) return defaultPersona;
+
+      // Generation and voice defaults come from the default persona
+      return {
+        ...defaultPersona,
+        id: character.id,
+        name: character.name,
+        description: [character.traits.join(', '), character.hometown].filter(Boolean).join(' • '),
+        systemPrompt: character.systemPrompt,
+        companionGender: character.companionGender,
+        region: character.region || undefined,
+        ownerId: character.userId
+      };
+    }
+
+    return personas.find(persona => persona.id === personaId) || defaultPersona;
+  }
+
+  // True when the id names an active persona or one of the user's characters,
+  // or when the registry can't be read
+  async isValidPersona(personaId: string, userId?: string): Promise<boolean> {
+    if (CustomCharacterService.isCustomCharacterId(personaId)) {
+      return Boolean(await this.characters.getCharacter(personaId, userId));
+    }
+
+    const personas = await this.loadPersonas();
+    return !personas || personas.some(persona => persona.id === personaId);
+  }
+
+  private async loadPersonas(): Promise<Persona[] | null> {
+    if (this.personas) return this.personas;
+    if (!this.db) return null;
+
+    try {
+      const result = await this.db.prepare(`
+        SELECT id, name, description, system_prompt, temperature, sticker_pack, tts_voice, speaking_rate,
+               companion_gender
+        FROM personas
+        WHERE is_active = TRUE
+        ORDER BY sort_order, id
+      `).all();
+
+      const personas = (result.results || []).map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        description: row.description || '',
+        systemPrompt: row.system_prompt,
+        temperature: row.temperature ?? FALLBACK_PERSONA.temperature,
+        stickerPack: row.sticker_pack || FALLBACK_PERSONA.stickerPack,
+        ttsVoice: row.tts_voice || FALLBACK_PERSONA.ttsVoice,
+        speakingRate: row.speaking_rate ?? FALLBACK_PERSONA.speakingRate,
+        companionGender: row.companion_gender === 'male' ? 'male' : 'female'
+      } as Persona));
+
+      if (personas.length === 0) return null;
+
+      this.personas = personas;
+      return personas;
+
+    } catch (error) {
+      this.logger.error('Error loading personas', error);
+      return null;
+    }
+  }
+}
\ No newline at end of file
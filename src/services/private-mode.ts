@@ -1,5 +1,6 @@
 import { Bindings } from '../types';
 import { Logger } from '../utils/logger';
+import { AudioStorageService } from './audio-storage';
 // Using Web Crypto API instead of bcrypt for Cloudflare Workers compatibility
 
 export interface PrivateModeSettings {
@@ -47,7 +48,8 @@ export interface StealthSession {
 export interface PrivacyAuditLog {
   id?: number;
   user_id: string;
-  event_type: 'login' | 'logout' | 'stealth_enable' | 'quick_exit' | 'passcode_fail' | 'decoy_access';
+  event_type: 'login' | 'logout' | 'stealth_enable' | 'quick_exit' | 'passcode_fail' | 'decoy_access'
+    | 'memory_view' | 'memory_edit' | 'memory_pin' | 'memory_delete' | 'memory_forget_all';
   event_details: any; // JSON object
   ip_address?: string;
   user_agent?: string;
@@ -57,10 +59,12 @@ export interface PrivacyAuditLog {
 
 export class PrivateModeService {
   private db: D1Database;
+  private audioStorage: AudioStorageService;
   private logger: Logger;
 
   constructor(bindings: Bindings, sessionId: string) {
     this.db = bindings.DB;
+    this.audioStorage = new AudioStorageService(bindings, sessionId);
     this.logger = new Logger(sessionId);
   }
 
@@ -396,21 +400,25 @@ export class PrivateModeService {
       await this.db.prepare(`
         DELETE FROM messages 
         WHERE session_id IN (
-          SELECT id FROM sessions WHERE user_ref = ?
-        ) AND created_at < ?
-      `).bind(userId, cutoffTime).run();
+          SELECT id FROM sessions WHERE user_id = ? OR user_ref = ?
+        ) AND created_at < datetime(?)
+      `).bind(userId, userId, cutoffTime).run();
+
+      // Any other path that deletes messages needs this call too
+      const deletedAudio = await this.audioStorage.deleteUserAudio(userId, cutoffTime);
 
       // Clear old memories if in maximum stealth
       if (settings.privacy_level === 'stealth') {
         await this.db.prepare(`
           DELETE FROM relationship_memory 
-          WHERE user_id = ? AND created_at < ?
+          WHERE user_id = ? AND created_at < datetime(?)
         `).bind(userId, cutoffTime).run();
       }
 
       this.logger.info('Auto-cleared history', {
         userId,
         cutoffTime,
+        deletedAudio,
         privacyLevel: settings.privacy_level
       });
 
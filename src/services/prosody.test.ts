@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VOICE_PROFILE, buildSpeech, detectSpeechMood } from './prosody';
+
+describe('detectSpeechMood', () => {
+  it('comforts a sad user before anything else', () => {
+    expect(detectSpeechMood('Hihi, kể em nghe đi', 'sad')).toBe('comforting');
+    expect(detectSpeechMood('Không sao đâu anh')).toBe('comforting');
+  });
+
+  it('reads playful, tender and cheerful cues from the reply', () => {
+    expect(detectSpeechMood('Hihi anh ngốc quá')).toBe('playful');
+    expect(detectSpeechMood('Em nhớ anh lắm')).toBe('tender');
+    expect(detectSpeechMood('Tuyệt vời! Chúc mừng anh!')).toBe('cheerful');
+    expect(detectSpeechMood('Anh ăn cơm chưa?')).toBe('neutral');
+  });
+});
+
+describe('buildSpeech', () => {
+  it('leaves neutral prosody at the profile defaults and pauses between sentences', () => {
+    const speech = buildSpeech('Chào anh yêu nhé. Hôm nay anh thế nào?', 'neutral', DEFAULT_VOICE_PROFILE);
+
+    expect(speech.ssml).toBe(
+      '<speak><prosody rate="100%" pitch="+0st" volume="+0dB">Chào anh yêu nhé.<break time="300ms"/>Hôm nay anh thế nào?</prosody></speak>'
+    );
+    expect(speech.text).toBe('Chào anh yêu nhé. Hôm nay anh thế nào?');
+  });
+
+  it('scales the mood shift by the persona expressiveness', () => {
+    const full = buildSpeech('Không sao đâu.', 'comforting', { ...DEFAULT_VOICE_PROFILE, expressiveness: 1 });
+    const none = buildSpeech('Không sao đâu.', 'comforting', { ...DEFAULT_VOICE_PROFILE, expressiveness: 0 });
+
+    expect(full.ssml).toContain('<prosody rate="88%" pitch="-1.5st" volume="-2dB">');
+    expect(none.ssml).toContain('<prosody rate="100%" pitch="+0st" volume="+0dB">');
+  });
+
+  it('turns emoji into sound cues or drops them depending on the profile', () => {
+    expect(buildSpeech('Anh ngốc quá 😂', 'playful', DEFAULT_VOICE_PROFILE).text).toBe('Anh ngốc quá haha');
+    expect(buildSpeech('Anh ngốc quá 😂', 'playful', { ...DEFAULT_VOICE_PROFILE, emoji_mode: 'strip' }).text).toBe('Anh ngốc quá');
+  });
+
+  it('adds hesitation breaks and emphasis, and escapes XML', () => {
+    const speech = buildSpeech('Em... *thật sự* RẤT vui & hạnh phúc', 'neutral', DEFAULT_VOICE_PROFILE);
+
+    expect(speech.ssml).toContain('Em<break time="450ms"/>');
+    expect(speech.ssml).toContain('<emphasis level="moderate">thật sự</emphasis>');
+    expect(speech.ssml).toContain('<emphasis level="strong">RẤT</emphasis>');
+    expect(speech.ssml).toContain('vui &amp; hạnh phúc');
+    expect(speech.text).toBe('Em... thật sự RẤT vui & hạnh phúc');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { TTSRequest, VoiceProfile } from '../types';
+import { splitIntoSentences } from '../utils/sentences';
+
+// How the companion should sound for a given reply
+export type SpeechMood = 'neutral' | 'comforting' | 'cheerful' | 'playful' | 'tender';
+
+export interface SpeechText {
+  text: string; // Plain text for providers without SSML: emoji removed or turned into cues
+  ssml: string;
+}
+
+export const DEFAULT_VOICE_PROFILE: Omit<VoiceProfile, 'persona_id'> = {
+  pitch: 2.0,
+  volume_gain_db: 0.0,
+  sentence_pause_ms: 300,
+  expressiveness: 0.6,
+  emoji_mode: 'cue'
+};
+
+// Full-strength prosody shift per mood; the persona's expressiveness scales it down
+const MOOD_PROSODY: Record<SpeechMood, { rate: number, pitch: number, volume: number, pause: number }> = {
+  neutral: { rate: 1.0, pitch: 0, volume: 0, pause: 1.0 },
+  comforting: { rate: 0.88, pitch: -1.5, volume: -2, pause: 1.5 },
+  cheerful: { rate: 1.08, pitch: 1.5, volume: 1, pause: 0.9 },
+  playful: { rate: 1.12, pitch: 2.5, volume: 1, pause: 0.8 },
+  tender: { rate: 0.94, pitch: 0.5, volume: -1, pause: 1.25 }
+};
+
+const COMFORT_CUES = ['đừng buồn', 'không sao đâu', 'thương quá', 'an ủi', 'ổn thôi', '🥺', '🫂'];
+const PLAYFUL_CUES = ['hihi', 'hehe', 'haha', 'trêu', 'lêu lêu', '😜', '😝', '🤭', '😆', '😏', '😂'];
+const TENDER_CUES = ['nhớ', 'thương', 'yêu', '❤', '🥰', '😘', '💕', '💖'];
+
+// Emoji read aloud as Vietnamese sound cues when the profile's emoji_mode is 'cue'; other emoji are dropped
+const EMOJI_CUES: Record<string, string> = {
+  '😂': 'haha', '🤣': 'haha', '😆': 'haha', '😄': 'haha', '😁': 'hihi',
+  '🤭': 'hihi', '😊': 'hihi', '☺': 'hihi', '😋': 'hihi', '😜': 'hihi', '😝': 'hihi',
+  '😘': 'chụt', '😚': 'chụt', '💋': 'chụt',
+  '😢': 'huhu', '😭': 'huhu', '🥺': 'hic',
+  '🥱': 'oáp', '😴': 'khò khò'
+};
+
+const EMOJI_RUN = /(?:\p{Extended_Pictographic}|[\u200d\ufe0f\u{1f3fb}-\u{1f3ff}])+/gu;
+const ELLIPSIS = /…|\.{3,}/g;
+
+// Mood from the user's emotional tone (VietVibesService.analyzeVietnamesePatterns) and the reply itself
+export function detectSpeechMood(reply: string, userTone?: string): SpeechMood {
+  const lower = reply.toLowerCase();
+  const has = (cues: string[]) => cues.some(cue => lower.includes(cue));
+
+  if (userTone === 'sad' || has(COMFORT_CUES)) return 'comforting';
+  if (has(PLAYFUL_CUES)) return 'playful';
+  if (userTone === 'romantic' || has(TENDER_CUES)) return 'tender';
+  if (userTone === 'positive' || (reply.match(/!/g) || []).length >= 2) return 'cheerful';
+  return 'neutral';
+}
+
+// SSML with the mood's prosody, pauses between sentences, hesitation breaks at "..." and
+// emphasis for *starred* or SHOUTED words
+export function buildSpeech(reply: string, mood: SpeechMood, profile: Omit<VoiceProfile, 'persona_id'>): SpeechText {
+  const spoken = replaceEmoji(reply, profile.emoji_mode)
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([!?.,…])/g, '$1')
+    .trim();
+  const shift = MOOD_PROSODY[mood];
+  const strength = profile.expressiveness;
+
+  const rate = Math.round(100 * (1 + (shift.rate - 1) * strength));
+  const pitch = round1(shift.pitch * strength);
+  const volume = round1(shift.volume * strength);
+  const pause = Math.round(profile.sentence_pause_ms * (1 + (shift.pause - 1) * strength));
+
+  const body = splitIntoSentences(spoken)
+    .map(sentence => sentenceToSsml(sentence, pause))
+    .join(`<break time="${pause}ms"/>`);
+
+  return {
+    text: spoken.replace(/\*([^*\s][^*]*)\*/g, '$1'),
+    ssml: `<speak><prosody rate="${rate}%" pitch="${signed(pitch)}st" volume="${signed(volume)}dB">${body}</prosody></speak>`
+  };
+}
+
+// Voice fields of a TTS request for a persona profile; voiceId and speakingRate come from the session
+export function profileAudioConfig(profile: Omit<VoiceProfile, 'persona_id'>): Pick<TTSRequest, 'pitch' | 'volumeGainDb'> {
+  return { pitch: profile.pitch, volumeGainDb: profile.volume_gain_db };
+}
+
+function replaceEmoji(text: string, mode: VoiceProfile['emoji_mode']): string {
+  return text.replace(EMOJI_RUN, run => {
+    if (mode !== 'cue') return ' ';
+    const cue = Array.from(run).map(char => EMOJI_CUES[char]).find(Boolean);
+    return cue ? ` ${cue} ` : ' ';
+  });
+}
+
+function sentenceToSsml(sentence: string, pause: number): string {
+  return escapeXml(sentence)
+    .replace(ELLIPSIS, `<break time="${Math.round(pause * 1.5)}ms"/>`)
+    .replace(/\*([^*\s][^*]*)\*/g, '<emphasis level="moderate">$1</emphasis>')
+    .replace(/(?<![\p{L}\p{N}])\p{Lu}{3,}(?![\p{L}\p{N}])/gu, word => `<emphasis level="strong">${word}</emphasis>`);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function signed(value: number): string {
+  return value >= 0 ? `+${value}` : `${value}`;
+}
\ No newline at end of file
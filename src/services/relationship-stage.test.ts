@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { EngagementSignals, capStage, stageForSignals } from './relationship-stage';
+
+function signals(overrides: Partial<EngagementSignals>): EngagementSignals {
+  return {
+    totalMessages: 0,
+    recentMessages: 0,
+    daysActive: 0,
+    currentStreak: 0,
+    relationshipDays: 0,
+    daysSinceLastVisit: 0,
+    personalMemories: 0,
+    milestones: 0,
+    sentiment: 0,
+    ...overrides
+  };
+}
+
+describe('stageForSignals', () => {
+  it('starts new users at the first stage', () => {
+    expect(stageForSignals(0, signals({}))).toBe('new');
+    expect(stageForSignals(14.9, signals({ daysActive: 1 }))).toBe('new');
+  });
+
+  it('moves up once the score and time requirements are met', () => {
+    expect(stageForSignals(15, signals({ daysActive: 1 }))).toBe('getting_to_know');
+    expect(stageForSignals(35, signals({ daysActive: 3, relationshipDays: 3 }))).toBe('close');
+    expect(stageForSignals(55, signals({ daysActive: 7, relationshipDays: 14 }))).toBe('intimate');
+    expect(stageForSignals(75, signals({ daysActive: 20, relationshipDays: 60 }))).toBe('long_term');
+  });
+
+  it('holds a high score back until enough time has passed', () => {
+    expect(stageForSignals(100, signals({ daysActive: 2, relationshipDays: 2 }))).toBe('getting_to_know');
+    expect(stageForSignals(100, signals({ daysActive: 20, relationshipDays: 13 }))).toBe('close');
+    expect(stageForSignals(100, signals({ daysActive: 19, relationshipDays: 365 }))).toBe('intimate');
+  });
+});
+
+describe('capStage', () => {
+  it('keeps minors at the close friends stage', () => {
+    expect(capStage('long_term', true)).toBe('close');
+    expect(capStage('intimate', true)).toBe('close');
+    expect(capStage('getting_to_know', true)).toBe('getting_to_know');
+  });
+
+  it('leaves adults unchanged', () => {
+    expect(capStage('long_term', false)).toBe('long_term');
+  });
+});
\ No newline at end of file
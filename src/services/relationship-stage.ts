@@ -0,0 +1,401 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+import { DatabaseService } from './database';
+import { MemoryPlusService } from './memory-plus';
+import { AgeGroup, currentAgeGroup, isMinor } from '../utils/age';
+
+export type RelationshipStage = 'new' | 'getting_to_know' | 'close' | 'intimate' | 'long_term';
+
+export interface EngagementSignals {
+  totalMessages: number;      // User messages, all time
+  recentMessages: number;     // User messages in the scoring window
+  daysActive: number;         // Distinct active days in the scoring window
+  currentStreak: number;      // Consecutive active days ending today (or yesterday)
+  relationshipDays: number;   // Days since the first message
+  daysSinceLastVisit: number; // Gap before the current visit
+  personalMemories: number;
+  milestones: number;
+  sentiment: number;          // -1..1 from recent emotion memories
+}
+
+export interface StageTransition {
+  fromStage: RelationshipStage;
+  toStage: RelationshipStage;
+  direction: 'progress' | 'regress';
+  score: number;
+  createdAt: string;
+}
+
+export interface RelationshipStatus {
+  stage: RelationshipStage;
+  stageLabel: string;
+  score: number;
+  nextStage?: RelationshipStage;
+  nextStageLabel?: string;
+  progress: number; // 0-1 towards the next stage
+  requirements: string[]; // What is still missing for the next stage
+  signals: EngagementSignals;
+  stageChangedAt?: string;
+  history: StageTransition[];
+}
+
+export const STAGE_ORDER: RelationshipStage[] = ['new', 'getting_to_know', 'close', 'intimate', 'long_term'];
+
+const STAGE_LABELS: Record<RelationshipStage, string> = {
+  new: 'Mới quen',
+  getting_to_know: 'Tìm hiểu',
+  close: 'Thân thiết',
+  intimate: 'Gắn bó',
+  long_term: 'Bền lâu'
+};
+
+// Minimum score and time together for each stage
+const STAGE_REQUIREMENTS: Record<RelationshipStage, { score: number, daysActive: number, relationshipDays: number }> = {
+  new: { score: 0, daysActive: 0, relationshipDays: 0 },
+  getting_to_know: { score: 15, daysActive: 1, relationshipDays: 0 },
+  close: { score: 35, daysActive: 3, relationshipDays: 3 },
+  intimate: { score: 55, daysActive: 7, relationshipDays: 14 },
+  long_term: { score: 75, daysActive: 20, relationshipDays: 60 }
+};
+
+// Activity signals only count recent engagement, so long absences lower the score
+const SCORING_WINDOW_DAYS = 90;
+
+// Absence needed before the stage may drop, one stage per this many days away
+const REGRESSION_ABSENCE_DAYS = 30;
+
+// Under-18 users stay friends: the romantic stages above this are never reached
+const MINOR_MAX_STAGE: RelationshipStage = 'close';
+
+const POSITIVE_EMOTIONS = ['happy', 'romantic', 'excited', 'grateful'];
+const NEGATIVE_EMOTIONS = ['sad', 'angry', 'anxious', 'lonely', 'tired'];
+
+// Highest stage whose score and time requirements are all met
+export function stageForSignals(score: number, signals: EngagementSignals): RelationshipStage {
+  let stage: RelationshipStage = 'new';
+
+  for (const candidate of STAGE_ORDER) {
+    const requirement = STAGE_REQUIREMENTS[candidate];
+    if (
+      score >= requirement.score &&
+      signals.daysActive >= requirement.daysActive &&
+      signals.relationshipDays >= requirement.relationshipDays
+    ) {
+      stage = candidate;
+    }
+  }
+
+  return stage;
+}
+
+export function capStage(stage: RelationshipStage, minor: boolean): RelationshipStage {
+  if (!minor) return stage;
+  return STAGE_ORDER.indexOf(stage) > STAGE_ORDER.indexOf(MINOR_MAX_STAGE) ? MINOR_MAX_STAGE : stage;
+}
+
+// Scores engagement over time and moves the relationship stage up (one stage per
+// evaluation) or down (after long absence), recording every change as a milestone
+export class RelationshipStageEngine {
+  private db: D1Database;
+  private database: DatabaseService;
+  private memoryService: MemoryPlusService;
+  private logger: Logger;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = bindings.DB;
+    this.database = new DatabaseService(bindings, sessionId);
+    this.memoryService = new MemoryPlusService(bindings, sessionId);
+    this.logger = new Logger(sessionId);
+  }
+
+  // Re-evaluate the stage for this turn and store it on the session's conversation context
+  async updateStage(sessionId: string, userId: string): Promise<RelationshipStage> {
+    if (!this.db) {
+      return 'new';
+    }
+
+    try {
+      const signals = await this.collectSignals(userId);
+      const score = this.scoreEngagement(signals);
+      const minor = await this.isMinorUser(userId);
+      const target = capStage(stageForSignals(score, signals), minor);
+
+      const state = await this.db.prepare(`
+        SELECT stage, julianday('now') - julianday(last_evaluated_at) AS days_since_evaluated
+        FROM relationship_state WHERE user_id = ?
+      `).bind(userId).first() as { stage: RelationshipStage, days_since_evaluated: number } | null;
+
+      // First evaluation (including users with history from before the engine) starts at the target
+      let stage = state ? state.stage : target;
+
+      if (state) {
+        const current = STAGE_ORDER.indexOf(state.stage);
+        const targetIndex = STAGE_ORDER.indexOf(target);
+
+        if (targetIndex > current) {
+          stage = STAGE_ORDER[current + 1];
+        } else if (targetIndex < current && state.days_since_evaluated >= REGRESSION_ABSENCE_DAYS) {
+          // Absence is measured from the last evaluation, so it only counts once per return
+          const steps = Math.min(Math.floor(state.days_since_evaluated / REGRESSION_ABSENCE_DAYS), current - targetIndex);
+          stage = STAGE_ORDER[current - steps];
+        }
+      }
+
+      // A user found to be under 18 drops straight to the cap, without a regression milestone
+      const cappedForMinor = capStage(stage, minor) !== stage;
+      stage = capStage(stage, minor);
+
+      await this.db.prepare(`
+        INSERT INTO relationship_state (user_id, stage, score, signals, stage_changed_at, last_evaluated_at)
+        VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+        ON CONFLICT(user_id) DO UPDATE SET
+          stage = excluded.stage,
+          score = excluded.score,
+          signals = excluded.signals,
+          stage_changed_at = CASE WHEN relationship_state.stage = excluded.stage
+            THEN relationship_state.stage_changed_at ELSE excluded.stage_changed_at END,
+          last_evaluated_at = excluded.last_evaluated_at
+      `).bind(userId, stage, score, JSON.stringify(signals)).run();
+
+      if (state && stage !== state.stage && !cappedForMinor) {
+        await this.recordTransition(sessionId, userId, state.stage, stage, score, signals);
+      }
+
+      await this.saveConversationContext(sessionId, stage, signals);
+
+      return stage;
+
+    } catch (error) {
+      this.logger.error('Error updating relationship stage', error);
+      return 'new';
+    }
+  }
+
+  // Current stage, score and progress towards the next stage, without changing anything
+  async getStatus(userId: string): Promise<RelationshipStatus | null> {
+    if (!this.db) {
+      return null;
+    }
+
+    try {
+      const signals = await this.collectSignals(userId);
+      const score = this.scoreEngagement(signals);
+      const minor = await this.isMinorUser(userId);
+
+      const state = await this.db.prepare(`
+        SELECT stage, stage_changed_at FROM relationship_state WHERE user_id = ?
+      `).bind(userId).first() as { stage: RelationshipStage, stage_changed_at: string } | null;
+
+      const stage = capStage(state?.stage || stageForSignals(score, signals), minor);
+      const nextStage = minor && stage === MINOR_MAX_STAGE
+        ? undefined
+        : STAGE_ORDER[STAGE_ORDER.indexOf(stage) + 1];
+
+      let progress = 1;
+      const requirements: string[] = [];
+
+      if (nextStage) {
+        const from = STAGE_REQUIREMENTS[stage].score;
+        const next = STAGE_REQUIREMENTS[nextStage];
+        progress = Math.min(1, Math.max(0, (score - from) / (next.score - from)));
+
+        if (score < next.score) {
+          requirements.push(`Điểm gắn kết ${Math.round(score)}/${next.score}`);
+        }
+        if (signals.daysActive < next.daysActive) {
+          requirements.push(`Trò chuyện thêm ${next.daysActive - signals.daysActive} ngày`);
+        }
+        if (signals.relationshipDays < next.relationshipDays) {
+          requirements.push(`Quen nhau thêm ${next.relationshipDays - signals.relationshipDays} ngày`);
+        }
+      }
+
+      const history = await this.db.prepare(`
+        SELECT from_stage, to_stage, direction, score, created_at
+        FROM relationship_stage_history
+        WHERE user_id = ?
+        ORDER BY created_at DESC, id DESC
+        LIMIT 10
+      `).bind(userId).all();
+
+      return {
+        stage,
+        stageLabel: STAGE_LABELS[stage],
+        score: Math.round(score * 10) / 10,
+        nextStage,
+        nextStageLabel: nextStage ? STAGE_LABELS[nextStage] : undefined,
+        progress: Math.round(progress * 100) / 100,
+        requirements,
+        signals,
+        stageChangedAt: state?.stage_changed_at,
+        history: (history.results as any[]).map(row => ({
+          fromStage: row.from_stage,
+          toStage: row.to_stage,
+          direction: row.direction,
+          score: row.score,
+          createdAt: row.created_at
+        }))
+      };
+
+    } catch (error) {
+      this.logger.error('Error getting relationship status', error);
+      return null;
+    }
+  }
+
+  private async collectSignals(userId: string): Promise<EngagementSignals> {
+    const activity = await this.db.prepare(`
+      SELECT date(m.created_at) AS day, COUNT(*) AS count
+      FROM messages m
+      JOIN sessions s ON s.id = m.session_id
+      WHERE (s.user_id = ? OR s.user_ref = ?) AND m.role = 'user'
+      GROUP BY date(m.created_at)
+      ORDER BY day DESC
+    `).bind(userId, userId).all();
+
+    const days = (activity.results as { day: string, count: number }[]);
+    const today = new Date().toISOString().substring(0, 10);
+    const windowStart = this.shiftDay(today, -SCORING_WINDOW_DAYS);
+    const recentDays = days.filter(day => day.day >= windowStart);
+
+    // Streak counts back from today, or from yesterday if the user hasn't chatted yet today
+    let currentStreak = 0;
+    let expected = days[0]?.day === today ? today : this.shiftDay(today, -1);
+    for (const day of days) {
+      if (day.day !== expected) break;
+      currentStreak++;
+      expected = this.shiftDay(expected, -1);
+    }
+
+    // The gap before the current visit: between today and the last earlier active day
+    const previousDay = days.find(day => day.day < today)?.day;
+    const daysSinceLastVisit = previousDay ? this.daysBetween(previousDay, today) : 0;
+
+    const memories = await this.db.prepare(`
+      SELECT
+        SUM(CASE WHEN memory_type = 'personal' THEN 1 ELSE 0 END) AS personal,
+        SUM(CASE WHEN memory_type = 'milestone' THEN 1 ELSE 0 END) AS milestones
+      FROM relationship_memory
+      WHERE user_id = ?
+    `).bind(userId).first() as { personal: number | null, milestones: number | null } | null;
+
+    const emotions = await this.db.prepare(`
+      SELECT emotional_tag, COUNT(*) AS count
+      FROM relationship_memory
+      WHERE user_id = ? AND memory_type = 'emotion' AND emotional_tag IS NOT NULL
+        AND created_at >= datetime('now', '-30 days')
+      GROUP BY emotional_tag
+    `).bind(userId).all();
+
+    let positive = 0;
+    let negative = 0;
+    for (const row of emotions.results as { emotional_tag: string, count: number }[]) {
+      if (POSITIVE_EMOTIONS.includes(row.emotional_tag)) positive += row.count;
+      if (NEGATIVE_EMOTIONS.includes(row.emotional_tag)) negative += row.count;
+    }
+
+    const firstDay = days[days.length - 1]?.day;
+
+    return {
+      totalMessages: days.reduce((sum, day) => sum + day.count, 0),
+      recentMessages: recentDays.reduce((sum, day) => sum + day.count, 0),
+      daysActive: recentDays.length,
+      currentStreak,
+      relationshipDays: firstDay ? this.daysBetween(firstDay, today) : 0,
+      daysSinceLastVisit,
+      personalMemories: memories?.personal || 0,
+      milestones: memories?.milestones || 0,
+      sentiment: positive + negative > 0 ? (positive - negative) / (positive + negative) : 0
+    };
+  }
+
+  // 0-100: recent activity, consistency, time together, shared memories and mood
+  private scoreEngagement(signals: EngagementSignals): number {
+    const score =
+      Math.min(signals.recentMessages / 200, 1) * 20 +
+      Math.min(signals.daysActive / 30, 1) * 20 +
+      Math.min(signals.currentStreak / 7, 1) * 10 +
+      Math.min(signals.relationshipDays / 90, 1) * 10 +
+      Math.min((signals.personalMemories + 3 * signals.milestones) / 15, 1) * 25 +
+      ((signals.sentiment + 1) / 2) * 15;
+
+    return Math.round(score * 10) / 10;
+  }
+
+  private async isMinorUser(userId: string): Promise<boolean> {
+    const user = await this.db.prepare(`
+      SELECT birth_date, age_group FROM users WHERE id = ?
+    `).bind(userId).first() as { birth_date: string | null, age_group: AgeGroup | null } | null;
+
+    return isMinor(currentAgeGroup(user?.birth_date, user?.age_group));
+  }
+
+  private async recordTransition(
+    sessionId: string,
+    userId: string,
+    fromStage: RelationshipStage,
+    toStage: RelationshipStage,
+    score: number,
+    signals: EngagementSignals
+  ): Promise<void> {
+    const direction = STAGE_ORDER.indexOf(toStage) > STAGE_ORDER.indexOf(fromStage) ? 'progress' : 'regress';
+
+    await this.db.prepare(`
+      INSERT INTO relationship_stage_history (user_id, from_stage, to_stage, direction, score)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(userId, fromStage, toStage, direction, score).run();
+
+    await this.memoryService.storeMemory({
+      user_id: userId,
+      memory_type: 'milestone',
+      content: direction === 'progress'
+        ? `Mối quan hệ tiến triển từ "${STAGE_LABELS[fromStage]}" lên "${STAGE_LABELS[toStage]}" sau ${signals.relationshipDays} ngày quen nhau`
+        : `Mối quan hệ lùi từ "${STAGE_LABELS[fromStage]}" về "${STAGE_LABELS[toStage]}" sau ${signals.daysSinceLastVisit} ngày người dùng vắng mặt`,
+      importance_score: direction === 'progress' ? 9 : 6
+    });
+
+    await this.database.logEvent(sessionId, 'relationship_stage_change', {
+      userId,
+      fromStage,
+      toStage,
+      direction,
+      score
+    });
+
+    this.logger.info('Relationship stage changed', { userId, fromStage, toStage, direction, score });
+  }
+
+  // Store conversation context (one row per session, keeping any conversation summary)
+  private async saveConversationContext(sessionId: string, stage: RelationshipStage, signals: EngagementSignals): Promise<void> {
+    const statsSummary = `Tổng ${signals.totalMessages} tin nhắn, ${signals.personalMemories} thông tin cá nhân, ${signals.milestones} cột mốc`;
+    const existingContext = await this.db.prepare(`
+      SELECT id FROM conversation_context WHERE session_id = ? ORDER BY id DESC LIMIT 1
+    `).bind(sessionId).first() as { id: number } | null;
+
+    if (existingContext) {
+      await this.db.prepare(`
+        UPDATE conversation_context
+        SET context_summary = CASE WHEN summarized_through_id > 0 THEN context_summary ELSE ? END,
+            relationship_stage = ?
+        WHERE id = ?
+      `).bind(statsSummary, stage, existingContext.id).run();
+    } else {
+      await this.db.prepare(`
+        INSERT INTO conversation_context
+        (session_id, context_summary, emotional_tone, relationship_stage)
+        VALUES (?, ?, ?, ?)
+      `).bind(sessionId, statsSummary, 'neutral', stage).run();
+    }
+  }
+
+  // YYYY-MM-DD arithmetic in UTC
+  private shiftDay(day: string, offset: number): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + offset);
+    return date.toISOString().substring(0, 10);
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,254 @@
+import { Bindings, STTResponse, TTSRequest } from '../types';
+import { Logger } from '../utils/logger';
+import { sniffAudioFormat } from '../utils/audio';
+import { GoogleCloudClient } from './google-cloud';
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  speechToText(audioBuffer: ArrayBuffer): Promise<STTResponse>;
+}
+
+export interface SynthesizedAudioFormat {
+  mimeType: string;
+  extension: string;
+}
+
+export interface TextToSpeechProvider {
+  readonly name: string;
+  readonly audioFormat: SynthesizedAudioFormat;
+  readonly supportsSsml: boolean; // Otherwise TTSRequest.ssml is ignored and the plain text is read
+  textToSpeech(request: TTSRequest): Promise<ArrayBuffer>;
+}
+
+// Raised before any API call when the upload isn't an encoding the provider can decode
+export class UnsupportedAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_TTS_VOICES = ['alloy', 'ash', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'];
+
+// Whisper transcription and OpenAI speech synthesis on any OpenAI-compatible endpoint
+export class OpenAISpeechProvider implements SpeechToTextProvider, TextToSpeechProvider {
+  readonly name = 'openai';
+  readonly audioFormat: SynthesizedAudioFormat = { mimeType: 'audio/mpeg', extension: 'mp3' };
+  readonly supportsSsml = false;
+  private apiKey: string;
+  private baseUrl: string;
+  private sttModel: string;
+  private sttLanguage: string;
+  private ttsModel: string;
+  private ttsVoice: string;
+  private logger: Logger;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.apiKey = bindings.OPENAI_API_KEY;
+    this.baseUrl = (bindings.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.sttModel = bindings.OPENAI_STT_MODEL || 'whisper-1';
+    this.sttLanguage = (bindings.GOOGLE_STT_LANGUAGE || 'vi-VN').split('-')[0]; // Whisper takes ISO-639-1
+    this.ttsModel = bindings.OPENAI_TTS_MODEL || 'tts-1';
+    this.ttsVoice = bindings.OPENAI_TTS_VOICE || 'nova';
+    this.logger = new Logger(sessionId);
+  }
+
+  async speechToText(audioBuffer: ArrayBuffer): Promise<STTResponse> {
+    const format = sniffAudioFormat(audioBuffer);
+    if (!format) {
+      throw new UnsupportedAudioError('Unrecognized audio format');
+    }
+
+    try {
+      const form = new FormData();
+      form.append('file', new Blob([audioBuffer]), `audio.${format.container}`);
+      form.append('model', this.sttModel);
+      form.append('language', this.sttLanguage);
+      form.append('response_format', 'verbose_json');
+
+      this.logger.info('Sending STT request to OpenAI', {
+        audioSize: audioBuffer.byteLength,
+        container: format.container,
+        model: this.sttModel
+      });
+
+      const response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`
+        },
+        body: form
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        this.logger.error('OpenAI STT API error', {
+          status: response.status,
+          error: errorData
+        });
+        throw new Error(`OpenAI STT API error: ${response.status}`);
+      }
+
+      const data = await response.json() as any;
+      const text = (data.text || '').trim();
+
+      // Whisper has no confidence score; average the segment log-probabilities instead
+      const segments: any[] = data.segments || [];
+      const confidence = segments.length > 0
+        ? segments.reduce((sum, segment) => sum + Math.exp(segment.avg_logprob ?? 0), 0) / segments.length
+        : text ? 1 : 0;
+
+      return {
+        text,
+        confidence,
+        languageCode: data.language,
+        alternatives: text ? [{ text, confidence }] : []
+      };
+
+    } catch (error) {
+      this.logger.error('Error in speech-to-text', error);
+      throw new Error('Speech recognition failed');
+    }
+  }
+
+  async textToSpeech(request: TTSRequest): Promise<ArrayBuffer> {
+    try {
+      // Persona voices are Google voice names; use the configured OpenAI voice for those
+      const voice = request.voiceId && OPENAI_TTS_VOICES.includes(request.voiceId) ? request.voiceId : this.ttsVoice;
+
+      const response = await fetch(`${this.baseUrl}/audio/speech`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: this.ttsModel,
+          voice,
+          input: request.text,
+          speed: Math.min(Math.max(request.speakingRate || 1.0, 0.25), 4.0),
+          response_format: 'mp3'
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        this.logger.error('OpenAI TTS API error', {
+          status: response.status,
+          error: errorData
+        });
+        throw new Error(`OpenAI TTS API error: ${response.status}`);
+      }
+
+      const audioBuffer = await response.arrayBuffer();
+
+      this.logger.info('TTS completed', {
+        audioSize: audioBuffer.byteLength,
+        voice
+      });
+
+      return audioBuffer;
+
+    } catch (error) {
+      this.logger.error('Error in text-to-speech', error);
+      throw new Error('Speech synthesis failed');
+    }
+  }
+}
+
+// Transcripts the fake provider cycles through, picked by upload size so a given file always gets the same one
+const FAKE_TRANSCRIPTS = [
+  'Em ơi, hôm nay anh mệt quá',
+  'Em đang làm gì đó',
+  'Kể cho anh nghe một chuyện vui đi'
+];
+
+const FAKE_SAMPLE_RATE = 16000;
+const FAKE_SECONDS_PER_CHARACTER = 0.06;
+
+// Deterministic offline provider: fixed transcripts and a sine tone as long as the text would take to read
+export class FakeSpeechProvider implements SpeechToTextProvider, TextToSpeechProvider {
+  readonly name = 'fake';
+  readonly audioFormat: SynthesizedAudioFormat = { mimeType: 'audio/wav', extension: 'wav' };
+  readonly supportsSsml = false;
+  private transcript?: string;
+
+  constructor(transcript?: string) {
+    this.transcript = transcript;
+  }
+
+  async speechToText(audioBuffer: ArrayBuffer): Promise<STTResponse> {
+    const format = sniffAudioFormat(audioBuffer);
+    if (!format) {
+      throw new UnsupportedAudioError('Unrecognized audio format');
+    }
+
+    const text = this.transcript || FAKE_TRANSCRIPTS[audioBuffer.byteLength % FAKE_TRANSCRIPTS.length];
+
+    return {
+      text,
+      confidence: 0.95,
+      languageCode: 'vi-VN',
+      alternatives: [{ text, confidence: 0.95 }],
+      words: text.split(/\s+/).map(word => ({ word, confidence: 0.95 }))
+    };
+  }
+
+  async textToSpeech(request: TTSRequest): Promise<ArrayBuffer> {
+    const seconds = Math.min(Math.max(request.text.length * FAKE_SECONDS_PER_CHARACTER, 0.5), 10)
+      / (request.speakingRate || 1.0);
+    return generateToneWav(seconds, 440);
+  }
+}
+
+// 16-bit mono PCM WAV of a sine tone
+function generateToneWav(seconds: number, frequency: number): ArrayBuffer {
+  const samples = Math.round(seconds * FAKE_SAMPLE_RATE);
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, FAKE_SAMPLE_RATE, true);
+  view.setUint32(28, FAKE_SAMPLE_RATE * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, samples * 2, true);
+
+  for (let i = 0; i < samples; i++) {
+    view.setInt16(44 + i * 2, Math.round(Math.sin(2 * Math.PI * frequency * i / FAKE_SAMPLE_RATE) * 8000), true);
+  }
+
+  return buffer;
+}
+
+function createSpeechProvider(kind: string, bindings: Bindings, sessionId: string): SpeechToTextProvider & TextToSpeechProvider {
+  switch (kind) {
+    case 'fake':
+      return new FakeSpeechProvider(bindings.FAKE_STT_TRANSCRIPT);
+    case 'openai':
+      return new OpenAISpeechProvider(bindings, sessionId);
+    default:
+      return new GoogleCloudClient(bindings, sessionId);
+  }
+}
+
+// Provider selected via STT_PROVIDER: 'google' (default), 'openai' (Whisper) or 'fake' (offline)
+export function createSpeechToTextProvider(bindings: Bindings, sessionId: string): SpeechToTextProvider {
+  return createSpeechProvider(bindings.STT_PROVIDER || 'google', bindings, sessionId);
+}
+
+// Provider selected via TTS_PROVIDER: 'google' (default), 'openai' or 'fake' (offline tone WAVs)
+export function createTextToSpeechProvider(bindings: Bindings, sessionId: string): TextToSpeechProvider {
+  return createSpeechProvider(bindings.TTS_PROVIDER || 'google', bindings, sessionId);
+}
\ No newline at end of file
@@ -89,15 +89,17 @@ export class StickerService {
   }
 
   /**
-   * Find appropriate sticker based on message content
+   * Find appropriate sticker based on message content,
+   * limited to the persona's pack when it exists
    */
-  async findStickerForMessage(message: string): Promise<Sticker | null> {
+  async findStickerForMessage(message: string, packId?: string): Promise<Sticker | null> {
     try {
       const config = await this.loadStickerConfig();
       const lowerMessage = message.toLowerCase();
+      const personaPacks = config.sticker_packs.filter(pack => pack.id === packId);
 
-      // Search through all sticker packs
-      for (const pack of config.sticker_packs) {
+      // Search through the persona's pack, or all sticker packs
+      for (const pack of personaPacks.length > 0 ? personaPacks : config.sticker_packs) {
         for (const sticker of pack.stickers) {
           // Check if any keyword matches the message
           for (const keyword of sticker.keywords) {
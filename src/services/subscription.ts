@@ -1,5 +1,13 @@
 import { Bindings, User, Referral, SubscriptionStatus, ReferralStats } from '../types';
 import { Logger } from '../utils/logger';
+import { AgeGroup, MINIMUM_AGE, ageFromBirthDate, ageGroupForAge, currentAgeGroup, isMinor } from '../utils/age';
+
+export class AgeVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgeVerificationError';
+  }
+}
 
 export class SubscriptionService {
   private db: D1Database;
@@ -168,16 +176,20 @@ export class SubscriptionService {
         canChat = messagesLeft > 0;
       }
 
-      // Check if should show paywall (after 10 messages)
-      const showPaywall = !hasActiveSubscription && messagesUsed >= this.freeMessagesLimit;
+      // Check if should show paywall (after 10 messages); minors never see one, while unverified
+      // users still do because checkout asks for their age first
+      const ageGroup = currentAgeGroup(user.birth_date, user.age_group);
+      const paymentsBlocked = !!ageGroup && isMinor(ageGroup);
+      const showPaywall = !paymentsBlocked && !hasActiveSubscription && messagesUsed >= this.freeMessagesLimit;
 
       return {
         canChat,
         messagesLeft,
         subscriptionType: user.subscription_type,
         expiresAt: user.subscription_expires_at,
-        needsPayment: !hasActiveSubscription && messagesLeft === 0,
-        showPaywall
+        needsPayment: !paymentsBlocked && !hasActiveSubscription && messagesLeft === 0,
+        showPaywall,
+        paymentsBlocked
       };
 
     } catch (error) {
@@ -186,6 +198,57 @@ export class SubscriptionService {
     }
   }
 
+  // Age gate: store the birth date and derived age group on the user and their Viet Vibes
+  // preferences. A recorded age can be lowered but not raised, so minors can't opt out later.
+  async recordAge(userId: string, birthDate: string): Promise<AgeGroup> {
+    const age = ageFromBirthDate(birthDate);
+    if (age === null) {
+      throw new AgeVerificationError('Ngày sinh không hợp lệ (định dạng YYYY-MM-DD)');
+    }
+    if (age < MINIMUM_AGE) {
+      throw new AgeVerificationError(`Ứng dụng chỉ dành cho người từ ${MINIMUM_AGE} tuổi trở lên`);
+    }
+
+    const ageGroup = ageGroupForAge(age);
+    if (!this.db) return ageGroup;
+
+    const user = await this.db.prepare(`
+      SELECT birth_date FROM users WHERE id = ?
+    `).bind(userId).first() as Pick<User, 'birth_date'> | null;
+
+    if (user?.birth_date && birthDate < user.birth_date) {
+      throw new AgeVerificationError('Không thể thay đổi tuổi đã xác minh. Vui lòng liên hệ hỗ trợ.');
+    }
+
+    await this.db.prepare(`
+      UPDATE users SET birth_date = ?, age_group = ?, age_verified_at = datetime('now') WHERE id = ?
+    `).bind(birthDate, ageGroup, userId).run();
+
+    await this.db.prepare(`
+      UPDATE user_viet_preferences SET age_group = ?, updated_at = datetime('now') WHERE user_id = ?
+    `).bind(ageGroup, userId).run();
+
+    this.logger.info('User age recorded', { userId, ageGroup });
+    return ageGroup;
+  }
+
+  // Null until the user has passed the age gate
+  async getAgeGroup(userId: string): Promise<AgeGroup | null> {
+    if (!this.db) return null;
+
+    try {
+      const user = await this.db.prepare(`
+        SELECT birth_date, age_group FROM users WHERE id = ?
+      `).bind(userId).first() as Pick<User, 'birth_date' | 'age_group'> | null;
+
+      return currentAgeGroup(user?.birth_date, user?.age_group);
+
+    } catch (error) {
+      this.logger.error('Error getting user age group', error);
+      return null;
+    }
+  }
+
   // Increment message count
   async incrementMessageCount(userId: string): Promise<void> {
     try {
@@ -0,0 +1,315 @@
+import { Bindings, TTSRequest } from '../types';
+import { Logger } from '../utils/logger';
+import { TextToSpeechProvider } from './speech-provider';
+import { ByteRange } from '../utils/audio';
+
+export interface CachedSpeech {
+  audio: ArrayBuffer;
+  cached: boolean; // Served from the cache, so nothing was synthesized or billed
+  cacheKey?: string; // Set when the audio is in the cache, so owned audio can reference it
+}
+
+export interface TTSCacheDailyStats {
+  day: string;
+  hits: number;
+  misses: number;
+  stores: number;
+  evictions: number;
+  evictedBytes: number;
+}
+
+export interface TTSCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  stores: number;
+  evictions: number;
+  evictedBytes: number;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+  daily: TTSCacheDailyStats[];
+}
+
+type StatCounter = 'hits' | 'misses' | 'stores' | 'evictions';
+
+const DEFAULT_MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_D1_AUDIO_BYTES = 1024 * 1024; // D1 rows are capped at 2MB
+const EVICTION_BATCH_SIZE = 50;
+
+// Content-addressed cache of synthesized audio, keyed by SHA-256 of everything that changes the
+// output. Audio goes to R2 under audio/cache/, or into the D1 row when R2 isn't bound.
+// TTS_CACHE_MAX_BYTES bounds the total size (least recently used entries are evicted); 0 disables it.
+// Owned reply audio may point at an entry (audio_objects.cache_key) instead of copying it; referenced
+// entries are never evicted and are released when the last reference is deleted.
+export class TTSCacheService {
+  private db: D1Database;
+  private r2?: R2Bucket;
+  private maxBytes: number;
+  private logger: Logger;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = bindings.DB;
+    this.r2 = bindings.R2;
+    const maxBytes = parseInt(bindings.TTS_CACHE_MAX_BYTES || '');
+    this.maxBytes = isNaN(maxBytes) || maxBytes < 0 ? DEFAULT_MAX_CACHE_BYTES : maxBytes;
+    this.logger = new Logger(sessionId);
+  }
+
+  static async cacheKey(provider: TextToSpeechProvider, request: TTSRequest): Promise<string> {
+    const material = JSON.stringify([
+      provider.name,
+      provider.audioFormat.extension,
+      request.voiceId || '',
+      request.speakingRate ?? null,
+      request.pitch ?? null,
+      request.volumeGainDb ?? null,
+      provider.supportsSsml ? request.ssml || null : null,
+      request.text
+    ]);
+
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Cached audio when available, otherwise synthesize and store it. Cache failures never fail the request.
+  async synthesize(provider: TextToSpeechProvider, request: TTSRequest): Promise<CachedSpeech> {
+    if (!this.db || this.maxBytes === 0) {
+      return { audio: await provider.textToSpeech(request), cached: false };
+    }
+
+    const key = await TTSCacheService.cacheKey(provider, request);
+
+    const hit = await this.lookup(key);
+    if (hit) {
+      return { audio: hit, cached: true, cacheKey: key };
+    }
+
+    const audio = await provider.textToSpeech(request);
+    const stored = await this.store(key, provider, request, audio);
+
+    return { audio, cached: false, cacheKey: stored ? key : undefined };
+  }
+
+  // Bytes of an entry (or one range of them) for /audio; null when the entry is gone
+  async read(key: string, range?: ByteRange): Promise<ReadableStream | ArrayBuffer | null> {
+    const row = await this.db.prepare(`
+      SELECT extension, storage, audio FROM tts_cache WHERE cache_key = ?
+    `).bind(key).first() as { extension: string, storage: 'r2' | 'd1', audio: ArrayBuffer | number[] | null } | null;
+
+    if (row?.storage === 'r2' && this.r2) {
+      const object = await this.r2.get(this.objectKey(key, row.extension), range ? { range } : undefined);
+      return object ? object.body : null;
+    }
+    if (row?.storage === 'd1' && row.audio) {
+      const audio = this.toArrayBuffer(row.audio);
+      return range ? audio.slice(range.offset, range.offset + range.length) : audio;
+    }
+    return null;
+  }
+
+  // Drop entries that no owned audio references anymore, so deleted history doesn't live on in the cache
+  async release(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const result = await this.db.prepare(`
+      SELECT cache_key, extension, storage FROM tts_cache
+      WHERE cache_key IN (${keys.map(() => '?').join(', ')})
+        AND NOT EXISTS (SELECT 1 FROM audio_objects WHERE audio_objects.cache_key = tts_cache.cache_key)
+    `).bind(...keys).all();
+
+    const rows = (result.results || []) as { cache_key: string, extension: string, storage: 'r2' | 'd1' }[];
+    if (rows.length === 0) return;
+
+    const r2Keys = rows.filter(row => row.storage === 'r2').map(row => this.objectKey(row.cache_key, row.extension));
+    if (r2Keys.length > 0 && this.r2) {
+      await this.r2.delete(r2Keys);
+    }
+
+    await this.db.prepare(`
+      DELETE FROM tts_cache WHERE cache_key IN (${rows.map(() => '?').join(', ')})
+    `).bind(...rows.map(row => row.cache_key)).run();
+  }
+
+  async getStats(days: number = 30): Promise<TTSCacheStats> {
+    const daily = await this.db.prepare(`
+      SELECT * FROM tts_cache_stats
+      WHERE day >= date('now', '-' || ? || ' days')
+      ORDER BY day DESC
+    `).bind(days).all();
+
+    const size = await this.db.prepare(`
+      SELECT COUNT(*) AS entries, COALESCE(SUM(size_bytes), 0) AS total_bytes FROM tts_cache
+    `).first() as { entries: number, total_bytes: number } | null;
+
+    const rows: TTSCacheDailyStats[] = (daily.results || []).map((row: any) => ({
+      day: row.day,
+      hits: Number(row.hits) || 0,
+      misses: Number(row.misses) || 0,
+      stores: Number(row.stores) || 0,
+      evictions: Number(row.evictions) || 0,
+      evictedBytes: Number(row.evicted_bytes) || 0
+    }));
+
+    const sum = (field: keyof Omit<TTSCacheDailyStats, 'day'>) => rows.reduce((total, row) => total + row[field], 0);
+    const hits = sum('hits');
+    const misses = sum('misses');
+
+    return {
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? Math.round(hits / (hits + misses) * 1000) / 1000 : 0,
+      stores: sum('stores'),
+      evictions: sum('evictions'),
+      evictedBytes: sum('evictedBytes'),
+      entries: Number(size?.entries) || 0,
+      totalBytes: Number(size?.total_bytes) || 0,
+      maxBytes: this.maxBytes,
+      daily: rows
+    };
+  }
+
+  private async lookup(key: string): Promise<ArrayBuffer | null> {
+    try {
+      const row = await this.db.prepare(`
+        SELECT * FROM tts_cache WHERE cache_key = ?
+      `).bind(key).first() as any;
+
+      let audio: ArrayBuffer | null = null;
+      if (row?.storage === 'd1') {
+        audio = this.toArrayBuffer(row.audio);
+      } else if (row?.storage === 'r2' && this.r2) {
+        const object = await this.r2.get(this.objectKey(key, row.extension));
+        audio = object ? await object.arrayBuffer() : null;
+      }
+
+      if (!audio) {
+        // The R2 object is gone (or R2 was unbound since): forget the entry
+        if (row) {
+          await this.db.prepare(`DELETE FROM tts_cache WHERE cache_key = ?`).bind(key).run();
+        }
+        await this.recordStat('misses');
+        return null;
+      }
+
+      await this.db.prepare(`
+        UPDATE tts_cache SET hit_count = hit_count + 1, last_accessed_at = CURRENT_TIMESTAMP
+        WHERE cache_key = ?
+      `).bind(key).run();
+      await this.recordStat('hits');
+
+      return audio;
+
+    } catch (error) {
+      this.logger.warn('TTS cache lookup failed', error);
+      return null;
+    }
+  }
+
+  // True when the audio is now in the cache
+  private async store(key: string, provider: TextToSpeechProvider, request: TTSRequest, audio: ArrayBuffer): Promise<boolean> {
+    const size = audio.byteLength;
+    if (size === 0 || size > this.maxBytes || (!this.r2 && size > MAX_D1_AUDIO_BYTES)) {
+      return false;
+    }
+
+    try {
+      const { mimeType, extension } = provider.audioFormat;
+
+      if (this.r2) {
+        await this.r2.put(this.objectKey(key, extension), audio, {
+          httpMetadata: { contentType: mimeType }
+        });
+      }
+
+      await this.db.prepare(`
+        INSERT OR REPLACE INTO tts_cache
+        (cache_key, provider, voice_id, speaking_rate, mime_type, extension, size_bytes, storage, audio)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        key,
+        provider.name,
+        request.voiceId || null,
+        request.speakingRate ?? null,
+        mimeType,
+        extension,
+        size,
+        this.r2 ? 'r2' : 'd1',
+        this.r2 ? null : audio
+      ).run();
+
+      await this.recordStat('stores');
+      await this.evict(key);
+      return true;
+
+    } catch (error) {
+      this.logger.warn('TTS cache store failed', error);
+      return false;
+    }
+  }
+
+  // Drop least recently used entries until the cache fits in maxBytes. Entries owned audio points at
+  // are kept, as is the one just stored (its caller is about to reference it).
+  private async evict(keep: string): Promise<void> {
+    const total = await this.db.prepare(`
+      SELECT COALESCE(SUM(size_bytes), 0) AS total_bytes FROM tts_cache
+    `).first() as { total_bytes: number } | null;
+
+    let excess = (Number(total?.total_bytes) || 0) - this.maxBytes;
+
+    while (excess > 0) {
+      const result = await this.db.prepare(`
+        SELECT cache_key, extension, storage, size_bytes FROM tts_cache
+        WHERE cache_key != ?
+          AND NOT EXISTS (SELECT 1 FROM audio_objects WHERE audio_objects.cache_key = tts_cache.cache_key)
+        ORDER BY last_accessed_at ASC, created_at ASC
+        LIMIT ?
+      `).bind(keep, EVICTION_BATCH_SIZE).all();
+
+      const victims: any[] = [];
+      for (const row of result.results || []) {
+        if (excess <= 0) break;
+        victims.push(row);
+        excess -= Number(row.size_bytes) || 0;
+      }
+      if (victims.length === 0) break;
+
+      const r2Keys = victims.filter(row => row.storage === 'r2').map(row => this.objectKey(row.cache_key, row.extension));
+      if (r2Keys.length > 0 && this.r2) {
+        await this.r2.delete(r2Keys);
+      }
+
+      await this.db.prepare(`
+        DELETE FROM tts_cache WHERE cache_key IN (${victims.map(() => '?').join(', ')})
+      `).bind(...victims.map(row => row.cache_key)).run();
+
+      const evictedBytes = victims.reduce((sum, row) => sum + (Number(row.size_bytes) || 0), 0);
+      await this.recordStat('evictions', victims.length, evictedBytes);
+      this.logger.info('TTS cache entries evicted', { count: victims.length, evictedBytes });
+    }
+  }
+
+  private async recordStat(counter: StatCounter, count: number = 1, evictedBytes: number = 0): Promise<void> {
+    try {
+      await this.db.prepare(`
+        INSERT INTO tts_cache_stats (day, ${counter}, evicted_bytes)
+        VALUES (date('now'), ?, ?)
+        ON CONFLICT(day) DO UPDATE SET
+          ${counter} = ${counter} + excluded.${counter},
+          evicted_bytes = evicted_bytes + excluded.evicted_bytes
+      `).bind(count, evictedBytes).run();
+
+    } catch (error) {
+      this.logger.warn('Error recording TTS cache stats', error);
+    }
+  }
+
+  private objectKey(key: string, extension: string): string {
+    return `audio/cache/${key}.${extension}`;
+  }
+
+  // D1 returns BLOB columns as arrays of bytes
+  private toArrayBuffer(blob: ArrayBuffer | number[]): ArrayBuffer {
+    return blob instanceof ArrayBuffer ? blob : new Uint8Array(blob).buffer;
+  }
+}
\ No newline at end of file
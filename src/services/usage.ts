@@ -0,0 +1,266 @@
+import { Bindings } from '../types';
+import { Logger } from '../utils/logger';
+
+export type UsageType = 'llm' | 'stt' | 'tts';
+
+export interface UsageEntry {
+  userId?: string; // Resolved from the session when omitted
+  sessionId: string;
+  usageType: UsageType;
+  operation: string;
+  provider?: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  sttSeconds?: number;
+  ttsCharacters?: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  sttSeconds: number;
+  ttsCharacters: number;
+  estimatedCostUsd: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  day: string;
+}
+
+export interface SubscriptionUsageRollup extends UsageTotals {
+  day: string;
+  subscriptionType: string;
+  activeUsers: number;
+  costPerUserUsd: number;
+}
+
+// USD per 1M tokens; unknown models are priced as the default model
+const LLM_PRICING: Record<string, { prompt: number, completion: number }> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.60 },
+  'gpt-4o': { prompt: 2.50, completion: 10.00 },
+  'gpt-4.1-mini': { prompt: 0.40, completion: 1.60 },
+  'gpt-3.5-turbo': { prompt: 0.50, completion: 1.50 },
+  'text-embedding-3-small': { prompt: 0.02, completion: 0 },
+  'text-embedding-3-large': { prompt: 0.13, completion: 0 }
+};
+const DEFAULT_LLM_PRICING = LLM_PRICING['gpt-4o-mini'];
+
+const STT_USD_PER_SECOND = 0.024 / 60;           // Google Speech-to-Text standard
+const TTS_USD_PER_CHARACTER = 16 / 1_000_000;    // Google Neural2/WaveNet voices
+const OPENAI_STT_USD_PER_SECOND = 0.006 / 60;    // Whisper
+const OPENAI_TTS_USD_PER_CHARACTER = 15 / 1_000_000; // tts-1
+
+export class UsageService {
+  private db: D1Database;
+  private logger: Logger;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = bindings.DB;
+    this.logger = new Logger(sessionId);
+  }
+
+  // Append one provider call to the ledger. Never throws: accounting must not break a reply.
+  async recordUsage(entry: UsageEntry): Promise<void> {
+    if (!this.db) return;
+
+    try {
+      const userId = entry.userId || await this.resolveUserId(entry.sessionId);
+      const user = await this.db.prepare(`
+        SELECT subscription_type FROM users WHERE id = ?
+      `).bind(userId).first() as { subscription_type: string } | null;
+
+      await this.db.prepare(`
+        INSERT INTO usage_ledger (
+          user_id, session_id, subscription_type, usage_type, operation, provider, model,
+          prompt_tokens, completion_tokens, stt_seconds, tts_characters, estimated_cost_usd
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        userId,
+        entry.sessionId,
+        user?.subscription_type || 'free',
+        entry.usageType,
+        entry.operation,
+        entry.provider || null,
+        entry.model || null,
+        entry.promptTokens || 0,
+        entry.completionTokens || 0,
+        entry.sttSeconds || 0,
+        entry.ttsCharacters || 0,
+        UsageService.estimateCost(entry)
+      ).run();
+
+    } catch (error) {
+      this.logger.error('Error recording usage', error);
+    }
+  }
+
+  // Totals and per-day breakdown for one user over the last N days
+  async getUserUsage(userId: string, days: number = 30): Promise<{ totals: UsageTotals, daily: DailyUsage[] }> {
+    const empty = { totals: this.emptyTotals(), daily: [] };
+    if (!this.db) return empty;
+
+    try {
+      const result = await this.db.prepare(`
+        SELECT
+          date(created_at) AS day,
+          COUNT(*) AS requests,
+          SUM(prompt_tokens) AS prompt_tokens,
+          SUM(completion_tokens) AS completion_tokens,
+          SUM(stt_seconds) AS stt_seconds,
+          SUM(tts_characters) AS tts_characters,
+          SUM(estimated_cost_usd) AS estimated_cost_usd
+        FROM usage_ledger
+        WHERE user_id = ? AND created_at >= datetime('now', '-' || ? || ' days')
+        GROUP BY date(created_at)
+        ORDER BY day DESC
+      `).bind(userId, days).all();
+
+      const daily = (result.results || []).map((row: any) => ({
+        day: row.day as string,
+        ...this.toTotals(row)
+      }));
+
+      const totals = daily.reduce((sum, day) => ({
+        requests: sum.requests + day.requests,
+        promptTokens: sum.promptTokens + day.promptTokens,
+        completionTokens: sum.completionTokens + day.completionTokens,
+        sttSeconds: sum.sttSeconds + day.sttSeconds,
+        ttsCharacters: sum.ttsCharacters + day.ttsCharacters,
+        estimatedCostUsd: sum.estimatedCostUsd + day.estimatedCostUsd
+      }), this.emptyTotals());
+
+      return { totals, daily };
+
+    } catch (error) {
+      this.logger.error('Error getting user usage', error);
+      return empty;
+    }
+  }
+
+  // Rebuild the per-user rollup rows for one UTC day (YYYY-MM-DD) from the ledger
+  async rollupDailyUsage(day: string): Promise<number> {
+    if (!this.db) return 0;
+
+    try {
+      // One batch (a single transaction), so the day is never left empty or counted twice
+      const [, result] = await this.db.batch([
+        this.db.prepare(`
+          DELETE FROM usage_daily_rollups WHERE day = ?
+        `).bind(day),
+        this.db.prepare(`
+          INSERT INTO usage_daily_rollups (
+            day, user_id, subscription_type, requests, prompt_tokens, completion_tokens,
+            stt_seconds, tts_characters, estimated_cost_usd, updated_at
+          )
+          SELECT
+            date(created_at), user_id, subscription_type, COUNT(*),
+            SUM(prompt_tokens), SUM(completion_tokens), SUM(stt_seconds),
+            SUM(tts_characters), SUM(estimated_cost_usd), datetime('now')
+          FROM usage_ledger
+          WHERE date(created_at) = ?
+          GROUP BY date(created_at), user_id, subscription_type
+        `).bind(day)
+      ]);
+
+      const rows = result.meta?.changes || 0;
+      this.logger.info('Daily usage rolled up', { day, rows });
+      return rows;
+
+    } catch (error) {
+      this.logger.error('Error rolling up daily usage', error);
+      return 0;
+    }
+  }
+
+  // Cost per subscription_type per day, from the rollup table
+  async getSubscriptionRollups(days: number = 30): Promise<SubscriptionUsageRollup[]> {
+    if (!this.db) return [];
+
+    try {
+      const result = await this.db.prepare(`
+        SELECT
+          day,
+          subscription_type,
+          COUNT(DISTINCT user_id) AS active_users,
+          SUM(requests) AS requests,
+          SUM(prompt_tokens) AS prompt_tokens,
+          SUM(completion_tokens) AS completion_tokens,
+          SUM(stt_seconds) AS stt_seconds,
+          SUM(tts_characters) AS tts_characters,
+          SUM(estimated_cost_usd) AS estimated_cost_usd
+        FROM usage_daily_rollups
+        WHERE day >= date('now', '-' || ? || ' days')
+        GROUP BY day, subscription_type
+        ORDER BY day DESC, subscription_type
+      `).bind(days).all();
+
+      return (result.results || []).map((row: any) => {
+        const totals = this.toTotals(row);
+        const activeUsers = Number(row.active_users) || 0;
+
+        return {
+          day: row.day as string,
+          subscriptionType: row.subscription_type as string,
+          activeUsers,
+          ...totals,
+          costPerUserUsd: activeUsers > 0 ? totals.estimatedCostUsd / activeUsers : 0
+        };
+      });
+
+    } catch (error) {
+      this.logger.error('Error getting subscription usage rollups', error);
+      return [];
+    }
+  }
+
+  // Rough USD cost of a single ledger entry based on public list prices
+  static estimateCost(entry: UsageEntry): number {
+    switch (entry.usageType) {
+      case 'llm': {
+        if (entry.provider === 'mock') return 0;
+        const pricing = LLM_PRICING[entry.model || ''] || DEFAULT_LLM_PRICING;
+        return ((entry.promptTokens || 0) * pricing.prompt + (entry.completionTokens || 0) * pricing.completion) / 1_000_000;
+      }
+      case 'stt':
+        if (entry.provider === 'fake') return 0;
+        return (entry.sttSeconds || 0) * (entry.provider === 'openai' ? OPENAI_STT_USD_PER_SECOND : STT_USD_PER_SECOND);
+      case 'tts':
+        if (entry.provider === 'fake') return 0;
+        return (entry.ttsCharacters || 0) * (entry.provider === 'openai' ? OPENAI_TTS_USD_PER_CHARACTER : TTS_USD_PER_CHARACTER);
+      default:
+        return 0;
+    }
+  }
+
+  private async resolveUserId(sessionId: string): Promise<string> {
+    const session = await this.db.prepare(`
+      SELECT user_id FROM sessions WHERE id = ?
+    `).bind(sessionId).first() as { user_id: string | null } | null;
+
+    return session?.user_id || 'anonymous';
+  }
+
+  private toTotals(row: any): UsageTotals {
+    return {
+      requests: Number(row.requests) || 0,
+      promptTokens: Number(row.prompt_tokens) || 0,
+      completionTokens: Number(row.completion_tokens) || 0,
+      sttSeconds: Number(row.stt_seconds) || 0,
+      ttsCharacters: Number(row.tts_characters) || 0,
+      estimatedCostUsd: Number(row.estimated_cost_usd) || 0
+    };
+  }
+
+  private emptyTotals(): UsageTotals {
+    return {
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      sttSeconds: 0,
+      ttsCharacters: 0,
+      estimatedCostUsd: 0
+    };
+  }
+}
\ No newline at end of file
@@ -1,5 +1,31 @@
 import { Bindings } from '../types';
 import { Logger } from '../utils/logger';
+import { AgeGroup, currentAgeGroup } from '../utils/age';
+import { Addressing, DEFAULT_ADDRESSING, adaptPronouns, addressTerm, capitalize } from '../utils/addressing';
+
+export type VietRegion = 'north' | 'central' | 'south';
+
+// Provinces and major cities by region, without diacritics
+const HOMETOWN_REGIONS: Record<VietRegion, string[]> = {
+  north: [
+    'ha noi', 'hanoi', 'hai phong', 'quang ninh', 'ha long', 'bac ninh', 'bac giang', 'bac kan',
+    'nam dinh', 'thai binh', 'ninh binh', 'hai duong', 'hung yen', 'ha nam', 'vinh phuc', 'phu tho',
+    'thai nguyen', 'lang son', 'lao cai', 'sapa', 'sa pa', 'son la', 'dien bien', 'hoa binh',
+    'cao bang', 'ha giang', 'tuyen quang', 'yen bai', 'lai chau'
+  ],
+  central: [
+    'thanh hoa', 'nghe an', 'vinh', 'ha tinh', 'quang binh', 'quang tri', 'hue', 'thua thien',
+    'da nang', 'quang nam', 'hoi an', 'quang ngai', 'binh dinh', 'quy nhon', 'phu yen', 'khanh hoa',
+    'nha trang', 'ninh thuan', 'binh thuan', 'phan thiet', 'kon tum', 'gia lai', 'pleiku',
+    'dak lak', 'buon ma thuot', 'dak nong', 'lam dong', 'da lat'
+  ],
+  south: [
+    'ho chi minh', 'sai gon', 'saigon', 'tphcm', 'hcm', 'binh duong', 'dong nai', 'bien hoa',
+    'vung tau', 'ba ria', 'tay ninh', 'binh phuoc', 'long an', 'tien giang', 'my tho', 'ben tre',
+    'vinh long', 'tra vinh', 'can tho', 'hau giang', 'soc trang', 'bac lieu', 'ca mau',
+    'kien giang', 'phu quoc', 'rach gia', 'an giang', 'chau doc', 'long xuyen', 'dong thap'
+  ]
+};
 
 export interface VietDialectPattern {
   id?: number;
@@ -67,9 +93,16 @@ export class VietVibesService {
       `).bind(userId).first() as UserVietPreferences;
 
       if (!preferences) {
-        // Create default preferences
+        // Create default preferences, using the age group from the age gate when there is one
         const defaultPrefs = this.getDefaultVietPreferences(userId);
-        
+        const user = await this.db.prepare(`
+          SELECT birth_date, age_group FROM users WHERE id = ?
+        `).bind(userId).first() as { birth_date: string | null, age_group: AgeGroup | null } | null;
+        const ageGroup = currentAgeGroup(user?.birth_date, user?.age_group);
+        if (ageGroup) {
+          defaultPrefs.age_group = ageGroup;
+        }
+
         await this.db.prepare(`
           INSERT INTO user_viet_preferences 
           (user_id, preferred_region, formality_preference, slang_frequency, 
@@ -106,13 +139,18 @@ export class VietVibesService {
     };
   }
 
-  // Get appropriate pronouns based on relationship stage and user preferences
-  async getPronouns(userId: string, relationshipStage: string): Promise<{ self: string, other: string, formality: string }> {
+  // Get appropriate pronouns based on relationship stage, user preferences and how the user
+  // wants to be addressed (stage forms in viet_pronoun_system are written for an "anh" user)
+  async getPronouns(
+    userId: string,
+    relationshipStage: string,
+    addressing: Addressing = DEFAULT_ADDRESSING
+  ): Promise<{ self: string, other: string, formality: string }> {
     try {
       const preferences = await this.getUserVietPreferences(userId);
       
       if (!this.db) {
-        return this.getDefaultPronouns(relationshipStage, preferences.formality_preference);
+        return this.getDefaultPronouns(relationshipStage, preferences.formality_preference, addressing);
       }
 
       // Query pronoun system based on relationship stage and preferences
@@ -129,41 +167,41 @@ export class VietVibesService {
       `).bind(relationshipStage, preferences.formality_preference).first() as VietPronounSystem;
 
       if (pronouns) {
-        return {
+        return adaptPronouns({
           self: pronouns.pronoun_self,
           other: pronouns.pronoun_other,
           formality: pronouns.formality
-        };
+        }, addressing);
       }
 
-      return this.getDefaultPronouns(relationshipStage, preferences.formality_preference);
+      return this.getDefaultPronouns(relationshipStage, preferences.formality_preference, addressing);
 
     } catch (error) {
       this.logger.error('Error getting pronouns', error);
-      return this.getDefaultPronouns(relationshipStage, 'casual');
+      return this.getDefaultPronouns(relationshipStage, 'casual', addressing);
     }
   }
 
-  private getDefaultPronouns(stage: string, formality: string): { self: string, other: string, formality: string } {
-    // Default Vietnamese girlfriend pronouns (most common usage)
+  private getDefaultPronouns(stage: string, formality: string, addressing: Addressing): { self: string, other: string, formality: string } {
+    // Default Vietnamese companion pronouns (most common usage), adapted to the user's address form
     switch (stage) {
       case 'new':
-        return { self: 'em', other: formality === 'formal' ? 'anh' : 'anh', formality };
       case 'getting_to_know':
-        return { self: 'em', other: 'anh', formality };
+        return adaptPronouns({ self: 'em', other: 'anh', formality }, addressing);
       case 'close':
       case 'intimate':
       case 'long_term':
-        return { self: 'em', other: 'anh yêu', formality: 'intimate' };
+        return adaptPronouns({ self: 'em', other: 'anh yêu', formality: 'intimate' }, addressing);
       default:
-        return { self: 'em', other: 'anh', formality: 'casual' };
+        return adaptPronouns({ self: 'em', other: 'anh', formality: 'casual' }, addressing);
     }
   }
 
-  // Get Vietnamese expressions and slang for current context
-  async getVietExpressions(userId: string, emotionalTone?: string, context?: string): Promise<VietDialectPattern[]> {
+  // Get Vietnamese expressions and slang for current context (region overrides the user's preferred dialect)
+  async getVietExpressions(userId: string, emotionalTone?: string, context?: string, region?: VietRegion): Promise<VietDialectPattern[]> {
     try {
       const preferences = await this.getUserVietPreferences(userId);
+      const dialectRegion = region || preferences.preferred_region;
       
       if (!this.db) {
         return [];
@@ -173,7 +211,7 @@ export class VietVibesService {
         SELECT * FROM viet_dialect_patterns 
         WHERE (region = ? OR region = 'general')
       `;
-      let params = [preferences.preferred_region];
+      let params: string[] = [dialectRegion];
 
       // Filter by formality
       if (preferences.formality_preference !== 'casual') {
@@ -192,7 +230,7 @@ export class VietVibesService {
         CASE WHEN formality_level = ? THEN 0 ELSE 1 END
         LIMIT 10`;
       
-      params.push(preferences.preferred_region, preferences.formality_preference);
+      params.push(dialectRegion, preferences.formality_preference);
 
       const expressions = await this.db.prepare(query).bind(...params).all();
       return expressions.results as VietDialectPattern[];
@@ -303,12 +341,16 @@ export class VietVibesService {
     userId: string, 
     basePrompt: string, 
     relationshipStage: string,
-    emotionalContext?: string
+    emotionalContext?: string,
+    companionRegion?: VietRegion,
+    addressing: Addressing = DEFAULT_ADDRESSING
   ): Promise<string> {
     try {
       const preferences = await this.getUserVietPreferences(userId);
-      const pronouns = await this.getPronouns(userId, relationshipStage);
-      const expressions = await this.getVietExpressions(userId, emotionalContext, 'romantic');
+      const pronouns = await this.getPronouns(userId, relationshipStage, addressing);
+      const self = capitalize(pronouns.self);
+      const other = addressTerm(addressing);
+      const expressions = await this.getVietExpressions(userId, emotionalContext, 'romantic', companionRegion);
       const culturalRefs = await this.getCulturalReferences(userId);
 
       let vietVibesContext = '\n\n=== VIET VIBES: VIETNAMESE CULTURAL ADAPTATION ===\n';
@@ -322,6 +364,9 @@ export class VietVibesService {
       // Add regional preferences
       vietVibesContext += `\n🏮 REGIONAL PREFERENCES:\n`;
       vietVibesContext += `- User region: ${preferences.preferred_region} Vietnam\n`;
+      if (companionRegion) {
+        vietVibesContext += `- Your hometown region: ${companionRegion} Vietnam (speak with its dialect)\n`;
+      }
       vietVibesContext += `- Formality: ${preferences.formality_preference}\n`;
       vietVibesContext += `- Slang level: ${preferences.slang_frequency}\n`;
 
@@ -348,7 +393,7 @@ export class VietVibesService {
       }
 
       // Add behavioral guidelines
-      vietVibesContext += `\n💕 VIETNAMESE GIRLFRIEND BEHAVIOR:\n`;
+      vietVibesContext += `\n💕 VIETNAMESE ${addressing.companionGender === 'male' ? 'BOYFRIEND' : 'GIRLFRIEND'} BEHAVIOR:\n`;
       vietVibesContext += `- Use Vietnamese sentence endings naturally (nhé, nha, đấy, ạ)\n`;
       vietVibesContext += `- Mix Vietnamese and affectionate terms organically\n`;
       vietVibesContext += `- Reference Vietnamese culture, food, and experiences\n`;
@@ -359,20 +404,20 @@ export class VietVibesService {
       switch (relationshipStage) {
         case 'new':
           vietVibesContext += `- Be polite and slightly formal, use "ạ" endings\n`;
-          vietVibesContext += `- Example: "Chào anh ạ! Em rất vui được gặp anh!"\n`;
+          vietVibesContext += `- Example: "Chào ${other} ạ! ${self} rất vui được gặp ${other}!"\n`;
           break;
         case 'getting_to_know':
           vietVibesContext += `- Be friendly and curious, use "nhé" endings\n`;
-          vietVibesContext += `- Example: "Anh thích ăn phở không? Em biết quán ngon lắm!"\n`;
+          vietVibesContext += `- Example: "${capitalize(other)} thích ăn phở không? ${self} biết quán ngon lắm!"\n`;
           break;
         case 'close':
         case 'intimate':
           vietVibesContext += `- Be affectionate and caring, use "nha" endings\n`;
-          vietVibesContext += `- Example: "Em yêu anh lắm! Anh đi làm cẩn thận nha!"\n`;
+          vietVibesContext += `- Example: "${self} yêu ${other} lắm! ${capitalize(other)} đi làm cẩn thận nha!"\n`;
           break;
         case 'long_term':
           vietVibesContext += `- Be deeply caring and intimate, use "ơi" address\n`;
-          vietVibesContext += `- Example: "Anh yêu ơi, em nhớ anh ghê! Về sớm với em nhé!"\n`;
+          vietVibesContext += `- Example: "${capitalize(other)} ơi, ${pronouns.self} nhớ ${other} ghê! Về sớm với ${pronouns.self} nhé!"\n`;
           break;
       }
 
@@ -386,6 +431,28 @@ export class VietVibesService {
     }
   }
 
+  // Map a free-text hometown ("Đà Nẵng", "quê Cần Thơ") to its dialect region
+  detectHometownRegion(hometown: string): VietRegion | null {
+    const normalized = hometown
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/đ/g, 'd')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ');
+
+    // Longest matching place wins, so "Vĩnh Long" isn't read as "Vinh"
+    let match: { region: VietRegion, length: number } | null = null;
+    for (const [region, places] of Object.entries(HOMETOWN_REGIONS) as [VietRegion, string[]][]) {
+      for (const place of places) {
+        if (` ${normalized} `.includes(` ${place} `) && (!match || place.length > match.length)) {
+          match = { region, length: place.length };
+        }
+      }
+    }
+    return match?.region || null;
+  }
+
   // Analyze user message for Vietnamese linguistic patterns
   async analyzeVietnamesePatterns(userMessage: string, userId: string): Promise<{
     detectedRegion?: string;
@@ -0,0 +1,152 @@
+import { Bindings, VoiceSettings } from '../types';
+import { Logger } from '../utils/logger';
+import { DatabaseService } from './database';
+import { Persona } from './persona';
+
+export interface VoiceOption {
+  id: string;
+  label: string;
+  language: string; // BCP-47; 'multi' for voices that read any language
+  gender: 'female' | 'male';
+}
+
+// Voice, rate and language a TTS request should use, and where they came from
+export interface ResolvedVoice {
+  voiceId: string;
+  speakingRate: number;
+  language: string;
+  source: 'session' | 'persona' | 'default';
+}
+
+export interface VoiceSettingsUpdate {
+  voiceId?: string;
+  speakingRate?: number;
+  language?: string;
+}
+
+export class VoiceSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoiceSettingsError';
+  }
+}
+
+export const SUPPORTED_VOICE_LANGUAGES = ['vi-VN', 'en-US'];
+export const MIN_SPEAKING_RATE = 0.25;
+export const MAX_SPEAKING_RATE = 4.0;
+
+const GOOGLE_VOICES: VoiceOption[] = [
+  { id: 'vi-VN-Neural2-A', label: 'Neural2 A', language: 'vi-VN', gender: 'female' },
+  { id: 'vi-VN-Neural2-D', label: 'Neural2 D', language: 'vi-VN', gender: 'male' },
+  { id: 'vi-VN-Wavenet-A', label: 'WaveNet A', language: 'vi-VN', gender: 'female' },
+  { id: 'vi-VN-Wavenet-B', label: 'WaveNet B', language: 'vi-VN', gender: 'male' },
+  { id: 'vi-VN-Wavenet-C', label: 'WaveNet C', language: 'vi-VN', gender: 'female' },
+  { id: 'vi-VN-Wavenet-D', label: 'WaveNet D', language: 'vi-VN', gender: 'male' },
+  { id: 'vi-VN-Standard-A', label: 'Standard A', language: 'vi-VN', gender: 'female' },
+  { id: 'vi-VN-Standard-B', label: 'Standard B', language: 'vi-VN', gender: 'male' },
+  { id: 'vi-VN-Standard-C', label: 'Standard C', language: 'vi-VN', gender: 'female' },
+  { id: 'vi-VN-Standard-D', label: 'Standard D', language: 'vi-VN', gender: 'male' },
+  { id: 'en-US-Neural2-F', label: 'Neural2 F', language: 'en-US', gender: 'female' },
+  { id: 'en-US-Neural2-C', label: 'Neural2 C', language: 'en-US', gender: 'female' },
+  { id: 'en-US-Neural2-D', label: 'Neural2 D', language: 'en-US', gender: 'male' },
+  { id: 'en-US-Neural2-J', label: 'Neural2 J', language: 'en-US', gender: 'male' }
+];
+
+const OPENAI_VOICES: VoiceOption[] = [
+  { id: 'nova', label: 'Nova', language: 'multi', gender: 'female' },
+  { id: 'shimmer', label: 'Shimmer', language: 'multi', gender: 'female' },
+  { id: 'coral', label: 'Coral', language: 'multi', gender: 'female' },
+  { id: 'sage', label: 'Sage', language: 'multi', gender: 'female' },
+  { id: 'alloy', label: 'Alloy', language: 'multi', gender: 'female' },
+  { id: 'fable', label: 'Fable', language: 'multi', gender: 'male' },
+  { id: 'ash', label: 'Ash', language: 'multi', gender: 'male' },
+  { id: 'echo', label: 'Echo', language: 'multi', gender: 'male' },
+  { id: 'onyx', label: 'Onyx', language: 'multi', gender: 'male' }
+];
+
+// Session voice settings validated against the voices of the configured TTS provider.
+// Resolution order: session settings, persona voice, then GOOGLE_TTS_VOICE (OPENAI_TTS_VOICE for OpenAI).
+export class VoiceSettingsService {
+  private db: DatabaseService;
+  private provider: string;
+  private defaultVoiceId: string;
+  private defaultSpeakingRate: number;
+  private logger: Logger;
+
+  constructor(bindings: Bindings, sessionId: string) {
+    this.db = new DatabaseService(bindings, sessionId);
+    this.provider = bindings.TTS_PROVIDER || 'google';
+    this.defaultVoiceId = this.provider === 'openai'
+      ? bindings.OPENAI_TTS_VOICE || 'nova'
+      : bindings.GOOGLE_TTS_VOICE || 'vi-VN-Neural2-A';
+    this.defaultSpeakingRate = parseFloat(bindings.GOOGLE_TTS_SPEAKING_RATE) || 1.0;
+    this.logger = new Logger(sessionId);
+  }
+
+  // Voices the configured provider can synthesize (the fake provider accepts the Google ids)
+  getCatalog(): VoiceOption[] {
+    return this.provider === 'openai' ? OPENAI_VOICES : GOOGLE_VOICES;
+  }
+
+  findVoice(voiceId: string): VoiceOption | undefined {
+    return this.getCatalog().find(voice => voice.id === voiceId);
+  }
+
+  async resolve(sessionId: string, persona?: Persona): Promise<ResolvedVoice> {
+    const settings = await this.db.getVoiceSettings(sessionId);
+    const rate = settings?.speaking_rate ?? persona?.speakingRate ?? this.defaultSpeakingRate;
+    const speakingRate = this.isValidRate(rate) ? rate : this.defaultSpeakingRate;
+
+    const candidates: [string | undefined, ResolvedVoice['source']][] = [
+      [settings?.voice_id, 'session'],
+      [persona?.ttsVoice, 'persona'],
+      [this.defaultVoiceId, 'default']
+    ];
+
+    for (const [voiceId, source] of candidates) {
+      const voice = voiceId ? this.findVoice(voiceId) : undefined;
+      if (voice) {
+        return { voiceId: voice.id, speakingRate, language: this.voiceLanguage(voice, settings), source };
+      }
+    }
+
+    // A GOOGLE_TTS_VOICE outside the catalog is still trusted as the last resort
+    return { voiceId: this.defaultVoiceId, speakingRate, language: settings?.language || 'vi-VN', source: 'default' };
+  }
+
+  // Validate and save a partial update; the session's current voice decides the language when not given
+  async update(sessionId: string, changes: VoiceSettingsUpdate, persona?: Persona): Promise<ResolvedVoice> {
+    const current = await this.resolve(sessionId, persona);
+    const voiceId = changes.voiceId ?? current.voiceId;
+    const voice = this.findVoice(voiceId);
+
+    if (!voice) {
+      throw new VoiceSettingsError(`Giọng đọc không hợp lệ: ${voiceId}`);
+    }
+    if (changes.speakingRate !== undefined && !this.isValidRate(changes.speakingRate)) {
+      throw new VoiceSettingsError(`Tốc độ đọc phải từ ${MIN_SPEAKING_RATE} đến ${MAX_SPEAKING_RATE}`);
+    }
+    if (changes.language !== undefined && !SUPPORTED_VOICE_LANGUAGES.includes(changes.language)) {
+      throw new VoiceSettingsError(`Ngôn ngữ không hợp lệ. Hỗ trợ: ${SUPPORTED_VOICE_LANGUAGES.join(', ')}`);
+    }
+
+    // A new voice brings its own language unless one is given; a language must match the voice
+    const language = changes.language ?? (changes.voiceId && voice.language !== 'multi' ? voice.language : current.language);
+    if (voice.language !== 'multi' && voice.language !== language) {
+      throw new VoiceSettingsError(`Giọng ${voice.id} chỉ đọc được ${voice.language}`);
+    }
+
+    await this.db.updateVoiceSettings(sessionId, voice.id, changes.speakingRate ?? current.speakingRate, language);
+    this.logger.info('Voice settings updated', { sessionId, voiceId: voice.id, language });
+
+    return this.resolve(sessionId, persona);
+  }
+
+  private isValidRate(rate: number): boolean {
+    return typeof rate === 'number' && rate >= MIN_SPEAKING_RATE && rate <= MAX_SPEAKING_RATE;
+  }
+
+  private voiceLanguage(voice: VoiceOption, settings: VoiceSettings | null): string {
+    return voice.language === 'multi' ? settings?.language || 'vi-VN' : voice.language;
+  }
+}
\ No newline at end of file
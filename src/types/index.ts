@@ -3,16 +3,39 @@ export interface Bindings {
   DB: D1Database;
   R2?: R2Bucket;
   OPENAI_API_KEY: string;
+  LLM_PROVIDER?: string; // 'openai' (default) or 'mock'
+  LLM_BASE_URL?: string; // OpenAI-compatible endpoint, defaults to https://api.openai.com/v1
+  LLM_MODEL?: string;
+  LLM_FALLBACK_MODELS?: string; // Ordered, comma-separated "provider:model" or "model"
+  LLM_MAX_RETRIES?: string;
+  LLM_TIMEOUT_MS?: string;
+  EMBEDDING_MODEL?: string; // Memory embeddings, defaults to text-embedding-3-small
   GOOGLE_API_KEY: string;
   GOOGLE_PROJECT_ID: string;
   GOOGLE_STT_LANGUAGE: string;
+  GOOGLE_STT_ALTERNATIVE_LANGUAGES?: string; // Comma-separated, e.g. "en-US" for mixed Vietnamese/English speech
+  GOOGLE_STT_MAX_ALTERNATIVES?: string;
+  GOOGLE_STT_MODEL?: string;
+  MAX_RECORDING_SECONDS?: string; // Longest voice message accepted, defaults to 60
+  STT_PROVIDER?: string; // 'google' (default), 'openai' (Whisper) or 'fake' (offline)
+  TTS_PROVIDER?: string; // 'google' (default), 'openai' or 'fake' (offline tone WAVs)
+  OPENAI_STT_MODEL?: string;
+  OPENAI_TTS_MODEL?: string;
+  OPENAI_TTS_VOICE?: string;
+  FAKE_STT_TRANSCRIPT?: string; // Fixed transcript for the fake STT provider
   GOOGLE_TTS_VOICE: string;
   GOOGLE_TTS_SPEAKING_RATE: string;
+  TTS_CACHE_MAX_BYTES?: string; // Size bound of the synthesized audio cache, defaults to 50MB; 0 disables it
+  AUDIO_URL_SECRET?: string; // HMAC key for signed /audio links; audio links are disabled without it
+  AUDIO_URL_TTL_SECONDS?: string; // Lifetime of signed /audio links, defaults to 3600
   APP_BASE_URL: string;
   MAX_MESSAGE_TOKENS: string;
   ALLOWED_ORIGINS: string;
   ENABLE_CONTENT_FILTER: string;
   FILTER_SEVERITY: string;
+  MODERATION_PROVIDER?: string; // 'openai' adds the OpenAI moderation endpoint to the lexicon checks
+  MODERATION_POLICY?: string; // JSON per-category overrides of the FILTER_SEVERITY actions
+  ADMIN_API_KEY?: string; // Bearer token for operator endpoints (/api/moderation, /api/usage rollups and TTS cache stats)
   
   // PayOS Integration
   PAYOS_CLIENT_ID: string;
@@ -52,6 +75,16 @@ export interface VoiceSettings {
   language: string;
 }
 
+// Per-persona prosody; the session's VoiceSettings still pick the voice and speaking rate
+export interface VoiceProfile {
+  persona_id: string;
+  pitch: number; // Semitones
+  volume_gain_db: number;
+  sentence_pause_ms: number;
+  expressiveness: number; // 0-1, how strongly the reply's mood shifts prosody
+  emoji_mode: 'strip' | 'cue';
+}
+
 // API request/response types
 export interface ChatRequest {
   text: string;
@@ -68,15 +101,31 @@ export interface STTRequest {
   // Binary audio data
 }
 
+export interface STTWord {
+  word: string;
+  confidence?: number;
+}
+
+export interface STTAlternative {
+  text: string;
+  confidence?: number;
+}
+
 export interface STTResponse {
   text: string;
   confidence?: number;
+  languageCode?: string; // Language Google picked among the primary and alternative languages
+  alternatives?: STTAlternative[]; // N-best transcripts, best first
+  words?: STTWord[]; // Word confidences for the best transcript
 }
 
 export interface TTSRequest {
   text: string;
+  ssml?: string; // Used instead of text by providers that support SSML
   voiceId?: string;
   speakingRate?: number;
+  pitch?: number;
+  volumeGainDb?: number;
 }
 
 export interface MessageRequest {
@@ -88,13 +137,30 @@ export interface MessageResponse {
   text: string;
   audioUrl: string;
   sessionId: string;
+  crisis?: { // Present when the reply is a crisis safe-response script
+    level: string;
+    hotlines: { name: string; phone: string; description: string }[];
+  };
+}
+
+// LLM prompt types
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationHistory {
+  summary?: string;
+  turns: ChatCompletionMessage[];
 }
 
 // Content filter types
 export interface ContentFilterResult {
   isAllowed: boolean;
+  action?: 'allow' | 'soften' | 'block';
+  scores?: Record<string, number>; // Per-category moderation scores (0-1)
   reason?: string;
-  filteredText?: string;
+  filteredText?: string; // Text with flagged words masked
 }
 
 // Subscription and Payment types
@@ -107,6 +173,9 @@ export interface User {
   subscription_type: 'free' | 'weekly' | 'monthly';
   subscription_expires_at?: string;
   messages_used: number;
+  birth_date?: string;
+  age_group?: 'teen' | 'young_adult' | 'adult' | 'elder'; // NULL until the age gate; 'teen' = under 18
+  age_verified_at?: string;
   created_at: string;
   last_active: string;
 }
@@ -154,6 +223,7 @@ export interface SubscriptionStatus {
   expiresAt?: string;
   needsPayment: boolean;
   showPaywall: boolean;
+  paymentsBlocked?: boolean; // Under-18 users can't buy subscriptions
 }
 
 export interface ReferralStats {
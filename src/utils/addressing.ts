@@ -0,0 +1,131 @@
+// Vietnamese forms of address between the companion and the user. Pronouns depend on
+// both genders: a girlfriend says "em" to an "anh"/"chị", a boyfriend says "anh" to "em",
+// and "mình"/"bạn" is the neutral pair when the user's gender is unknown.
+
+export type UserGender = 'male' | 'female' | 'other' | 'unspecified';
+export type AddressForm = 'anh' | 'chị' | 'bạn' | 'custom';
+export type CompanionGender = 'female' | 'male';
+
+export interface Addressing {
+  userGender: UserGender;
+  addressForm?: AddressForm; // Chosen by the user; derived from the genders when missing
+  nickname?: string;         // Used when addressForm is 'custom'
+  companionGender: CompanionGender;
+}
+
+export interface Pronouns {
+  self: string;
+  other: string;
+  formality: string;
+}
+
+export const USER_GENDERS: UserGender[] = ['male', 'female', 'other', 'unspecified'];
+export const ADDRESS_FORMS: AddressForm[] = ['anh', 'chị', 'bạn', 'custom'];
+export const COMPANION_GENDERS: CompanionGender[] = ['female', 'male'];
+
+export const DEFAULT_ADDRESSING: Addressing = {
+  userGender: 'unspecified',
+  companionGender: 'female'
+};
+
+// What the companion calls the user
+export function addressTerm(addressing: Addressing): string {
+  if (addressing.addressForm === 'custom' && addressing.nickname) {
+    return addressing.nickname;
+  }
+  if (addressing.addressForm && addressing.addressForm !== 'custom') {
+    return addressing.addressForm;
+  }
+  if (addressing.companionGender === 'male') {
+    return 'em';
+  }
+
+  switch (addressing.userGender) {
+    case 'male':
+      return 'anh';
+    case 'female':
+      return 'chị';
+    default:
+      return 'bạn';
+  }
+}
+
+// What the companion calls itself
+export function selfTerm(addressing: Addressing): string {
+  const other = addressTerm(addressing);
+
+  if (other === 'bạn') return 'mình';
+  if (other === 'anh' || other === 'chị') return 'em';
+  if (other === 'em') return addressing.companionGender === 'male' ? 'anh' : 'chị';
+
+  // Nickname
+  return addressing.companionGender === 'male' ? 'anh' : 'em';
+}
+
+export function basePronouns(addressing: Addressing, formality: string = 'casual'): Pronouns {
+  return {
+    self: selfTerm(addressing),
+    other: addressTerm(addressing),
+    formality
+  };
+}
+
+// Apply the user's address term to stage-specific pronouns written for an "anh" user,
+// keeping endearments ("anh yêu ơi" -> "chị yêu ơi"). Neutral and nickname forms drop them.
+export function adaptPronouns(stagePronouns: Pronouns, addressing: Addressing): Pronouns {
+  const other = addressTerm(addressing);
+  const self = selfTerm(addressing);
+
+  if (!['anh', 'chị', 'em'].includes(other)) {
+    return { self, other, formality: stagePronouns.formality };
+  }
+
+  return {
+    self,
+    other: stagePronouns.other.replace(/^anh/, other),
+    formality: stagePronouns.formality
+  };
+}
+
+export function companionRole(addressing: Addressing): string {
+  return addressing.companionGender === 'male' ? 'bạn trai' : 'bạn gái';
+}
+
+export function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export type CannedReply =
+  | 'off_topic'
+  | 'empty_reply'
+  | 'technical_difficulty'
+  | 'rethink'
+  | 'chat_error'
+  | 'chat_error_reply'
+  | 'message_error'
+  | 'message_error_reply';
+
+const CANNED_REPLIES: Record<CannedReply, string> = {
+  off_topic: '{Self} muốn chúng ta nói chuyện tích cực và phù hợp hơn. Chúng ta nói về chủ đề khác nhé {other}? ❤️',
+  empty_reply: '{Self} xin lỗi, {self} không thể tạo phản hồi ngay bây giờ. {Other} thử lại nhé! 💕',
+  technical_difficulty: '{Self} đang gặp một chút khó khăn kỹ thuật. {Other} thử lại sau một chút nhé! 🥰',
+  rethink: 'Để {self} suy nghĩ cách trả lời hay hơn nhé {other}! ❤️',
+  chat_error: '{Self} đang gặp khó khăn trong việc phản hồi. {Other} thử lại nhé! 💕',
+  chat_error_reply: 'Xin lỗi {other}, {self} gặp sự cố. {Other} gửi lại tin nhắn được không! ❤️',
+  message_error: '{Self} đang gặp khó khăn. {Other} thử lại nhé! 💕',
+  message_error_reply: 'Xin lỗi {other}, {self} gặp sự cố. {Other} thử lại được không! ❤️'
+};
+
+// Fixed replies with the companion's and the user's pronouns filled in
+export function cannedReply(reply: CannedReply, pronouns: { self: string, other: string }): string {
+  return fillPronouns(CANNED_REPLIES[reply], pronouns);
+}
+
+// Fill {self}/{Self}/{other}/{Other} placeholders in a reply template
+export function fillPronouns(template: string, pronouns: { self: string, other: string }): string {
+  return template
+    .replace(/\{Self\}/g, capitalize(pronouns.self))
+    .replace(/\{self\}/g, pronouns.self)
+    .replace(/\{Other\}/g, capitalize(pronouns.other))
+    .replace(/\{other\}/g, pronouns.other);
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { MiddlewareHandler } from 'hono';
+import { Bindings } from '../types';
+import { Logger } from './logger';
+
+// Operator-only routes: requires "Authorization: Bearer <ADMIN_API_KEY>".
+// Closed when ADMIN_API_KEY is not configured.
+export const requireAdmin: MiddlewareHandler<{ Bindings: Bindings }> = async (c, next) => {
+  if (c.req.method === 'OPTIONS') {
+    return next();
+  }
+
+  const adminKey = c.env.ADMIN_API_KEY;
+  const token = c.req.header('authorization')?.replace(/^Bearer\s+/i, '') || '';
+
+  if (!adminKey || !constantTimeEqual(token, adminKey)) {
+    new Logger('admin_auth').warn('Rejected operator request', { path: c.req.path });
+    return c.json({ error: 'Không có quyền truy cập' }, 401);
+  }
+
+  await next();
+};
+
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
\ No newline at end of file
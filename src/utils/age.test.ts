@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ageFromBirthDate, ageGroupForAge, currentAgeGroup, isMinor } from './age';
+
+const today = new Date(Date.UTC(2026, 9, 19));
+
+describe('ageFromBirthDate', () => {
+  it('counts whole years, adding one on the birthday', () => {
+    expect(ageFromBirthDate('2008-10-19', today)).toBe(18);
+    expect(ageFromBirthDate('2008-10-20', today)).toBe(17);
+    expect(ageFromBirthDate('2008-11-01', today)).toBe(17);
+  });
+
+  it('handles 29 February birthdays', () => {
+    expect(ageFromBirthDate('2008-02-29', new Date(Date.UTC(2026, 1, 28)))).toBe(17);
+    expect(ageFromBirthDate('2008-02-29', new Date(Date.UTC(2026, 2, 1)))).toBe(18);
+  });
+
+  it('rejects malformed, impossible and future dates', () => {
+    expect(ageFromBirthDate('19/10/2008', today)).toBeNull();
+    expect(ageFromBirthDate('2007-02-29', today)).toBeNull();
+    expect(ageFromBirthDate('2008-13-01', today)).toBeNull();
+    expect(ageFromBirthDate('2030-01-01', today)).toBeNull();
+  });
+});
+
+describe('ageGroupForAge', () => {
+  it('puts everyone under 18 in the teen group', () => {
+    expect(ageGroupForAge(13)).toBe('teen');
+    expect(ageGroupForAge(17)).toBe('teen');
+    expect(ageGroupForAge(18)).toBe('young_adult');
+    expect(ageGroupForAge(25)).toBe('adult');
+    expect(ageGroupForAge(45)).toBe('elder');
+  });
+});
+
+describe('currentAgeGroup', () => {
+  it('recomputes the group from the birth date', () => {
+    expect(currentAgeGroup('2008-10-19', 'teen', today)).toBe('young_adult');
+    expect(currentAgeGroup('2008-10-20', 'teen', today)).toBe('teen');
+  });
+
+  it('falls back to the stored group without a valid birth date', () => {
+    expect(currentAgeGroup(null, 'teen', today)).toBe('teen');
+    expect(currentAgeGroup('not a date', 'adult', today)).toBe('adult');
+    expect(currentAgeGroup(undefined, undefined, today)).toBeNull();
+  });
+});
+
+describe('isMinor', () => {
+  it('treats teens and users without a recorded age as minors', () => {
+    expect(isMinor('teen')).toBe(true);
+    expect(isMinor(null)).toBe(true);
+    expect(isMinor(undefined)).toBe(true);
+    expect(isMinor('young_adult')).toBe(false);
+  });
+});
\ No newline at end of file
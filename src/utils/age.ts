@@ -0,0 +1,59 @@
+import { Bindings } from '../types';
+
+// Same vocabulary as user_viet_preferences.age_group; 'teen' means under 18
+export type AgeGroup = 'teen' | 'young_adult' | 'adult' | 'elder';
+
+export const MINIMUM_AGE = 13;
+export const ADULT_AGE = 18;
+
+// Whole years between a YYYY-MM-DD birth date and today (UTC); null when the date is invalid
+export function ageFromBirthDate(birthDate: string, now: Date = new Date()): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(birthDate);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || date > now) {
+    return null;
+  }
+
+  let age = now.getUTCFullYear() - year;
+  const birthdayPassed = now.getUTCMonth() > month - 1
+    || (now.getUTCMonth() === month - 1 && now.getUTCDate() >= day);
+  if (!birthdayPassed) age--;
+
+  return age;
+}
+
+// Age group as of today, derived from the birth date so a teen becomes an adult on their 18th
+// birthday; the stored group is only used when there is no valid birth date
+export function currentAgeGroup(
+  birthDate?: string | null,
+  storedGroup?: AgeGroup | null,
+  now: Date = new Date()
+): AgeGroup | null {
+  const age = birthDate ? ageFromBirthDate(birthDate, now) : null;
+  return age !== null ? ageGroupForAge(age) : storedGroup || null;
+}
+
+export function ageGroupForAge(age: number): AgeGroup {
+  if (age < ADULT_AGE) return 'teen';
+  if (age < 25) return 'young_adult';
+  if (age < 45) return 'adult';
+  return 'elder';
+}
+
+// Users who haven't passed the age gate get the under-18 experience until they do
+export function isMinor(ageGroup?: string | null): boolean {
+  return !ageGroup || ageGroup === 'teen';
+}
+
+// Content filter forced on at 'high' with no per-category relaxations, for under-18 users
+export function minorProtectedBindings(bindings: Bindings): Bindings {
+  return {
+    ...bindings,
+    ENABLE_CONTENT_FILTER: 'true',
+    FILTER_SEVERITY: 'high',
+    MODERATION_POLICY: undefined
+  };
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Bindings } from '../types';
+import { createSignedAudioUrl, verifyAudioSignature } from './audio-url';
+
+const bindings = { AUDIO_URL_SECRET: 'test-secret', AUDIO_URL_TTL_SECONDS: '600' } as Bindings;
+const now = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+async function signedParams(path: string, userId: string) {
+  const url = new URL(await createSignedAudioUrl(bindings, path, userId, now), 'https://app.test');
+  expect(url.pathname).toBe(`/audio/${path}`);
+  return Object.fromEntries(url.searchParams) as { u: string, exp: string, sig: string };
+}
+
+describe('verifyAudioSignature', () => {
+  it('accepts a link until it expires', async () => {
+    const params = await signedParams('reply.mp3', 'user_1');
+
+    expect(params.exp).toBe(String(now / 1000 + 600));
+    expect(await verifyAudioSignature(bindings, 'reply.mp3', params, now)).toBe('valid');
+    expect(await verifyAudioSignature(bindings, 'reply.mp3', params, now + 601_000)).toBe('expired');
+  });
+
+  it('rejects links for another user, file or expiry', async () => {
+    const params = await signedParams('reply.mp3', 'user_1');
+
+    expect(await verifyAudioSignature(bindings, 'reply.mp3', { ...params, u: 'user_2' }, now)).toBe('invalid');
+    expect(await verifyAudioSignature(bindings, 'other.mp3', params, now)).toBe('invalid');
+    expect(await verifyAudioSignature(bindings, 'reply.mp3', { ...params, exp: String(Number(params.exp) + 3600) }, now)).toBe('invalid');
+  });
+
+  it('rejects incomplete links and everything when no secret is configured', async () => {
+    const params = await signedParams('reply.mp3', 'user_1');
+
+    expect(await verifyAudioSignature(bindings, 'reply.mp3', { u: params.u, exp: params.exp }, now)).toBe('invalid');
+    expect(await verifyAudioSignature(bindings, 'reply.mp3', { ...params, exp: 'soon' }, now)).toBe('invalid');
+    expect(await verifyAudioSignature({} as Bindings, 'reply.mp3', params, now)).toBe('invalid');
+  });
+});
\ No newline at end of file
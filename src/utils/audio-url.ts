@@ -0,0 +1,53 @@
+import { Bindings } from '../types';
+import { constantTimeEqual } from './admin-auth';
+
+export const DEFAULT_AUDIO_URL_TTL_SECONDS = 3600;
+
+export type AudioSignatureCheck = 'valid' | 'expired' | 'invalid';
+
+// Signed links to /audio/<path>: ?u=<owner>&exp=<unix seconds>&sig=<HMAC-SHA256 of path, owner and expiry>.
+// Audio elements can't send headers, so the link itself proves which user it was issued to.
+// Closed when AUDIO_URL_SECRET is not configured.
+export async function createSignedAudioUrl(
+  bindings: Bindings,
+  path: string,
+  userId: string,
+  now: number = Date.now()
+): Promise<string> {
+  const ttl = parseInt(bindings.AUDIO_URL_TTL_SECONDS || '') || DEFAULT_AUDIO_URL_TTL_SECONDS;
+  const expires = Math.floor(now / 1000) + ttl;
+  const signature = await sign(audioUrlSecret(bindings), path, userId, expires);
+
+  const query = new URLSearchParams({ u: userId, exp: String(expires), sig: signature });
+  return `${bindings.APP_BASE_URL || ''}/audio/${path}?${query}`;
+}
+
+export async function verifyAudioSignature(
+  bindings: Bindings,
+  path: string,
+  params: { u?: string, exp?: string, sig?: string },
+  now: number = Date.now()
+): Promise<AudioSignatureCheck> {
+  const expires = parseInt(params.exp || '');
+  if (!bindings.AUDIO_URL_SECRET || !params.u || !params.sig || isNaN(expires)) return 'invalid';
+
+  const expected = await sign(bindings.AUDIO_URL_SECRET, path, params.u, expires);
+  if (!constantTimeEqual(params.sig, expected)) return 'invalid';
+
+  return expires * 1000 < now ? 'expired' : 'valid';
+}
+
+function audioUrlSecret(bindings: Bindings): string {
+  if (!bindings.AUDIO_URL_SECRET) {
+    throw new Error('AUDIO_URL_SECRET is not configured');
+  }
+  return bindings.AUDIO_URL_SECRET;
+}
+
+async function sign(secret: string, path: string, userId: string, expires: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${path}\n${userId}\n${expires}`));
+
+  return Array.from(new Uint8Array(signature)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
\ No newline at end of file
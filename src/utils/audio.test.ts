@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { getAudioDuration, parseAudioMetadata, parseRangeHeader } from './audio';
+
+// PCM WAV with a fmt chunk and dataBytes of silence; declaredSize overrides the data chunk size
+function wav(sampleRate: number, channels: number, dataBytes: number, declaredSize: number = dataBytes): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(buffer);
+  const text = (offset: number, value: string) => [...value].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, declaredSize, true);
+
+  return buffer;
+}
+
+describe('parseAudioMetadata', () => {
+  it('reads the format and duration of a WAV file', () => {
+    expect(parseAudioMetadata(wav(16000, 1, 32000))).toEqual({
+      container: 'wav',
+      codec: 'pcm',
+      channels: 1,
+      sampleRate: 16000,
+      duration: 1
+    });
+  });
+
+  it('uses the uploaded bytes when a streaming recorder left the data size unset', () => {
+    expect(parseAudioMetadata(wav(8000, 1, 8000, 0))?.duration).toBe(0.5);
+    expect(parseAudioMetadata(wav(8000, 1, 8000, 0xffffffff))?.duration).toBe(0.5);
+  });
+
+  it('returns null for data that is not a known audio container', () => {
+    expect(parseAudioMetadata(new TextEncoder().encode('definitely not audio').buffer as ArrayBuffer)).toBeNull();
+  });
+});
+
+describe('getAudioDuration', () => {
+  it('prefers the parsed duration', () => {
+    expect(getAudioDuration(wav(16000, 2, 96000))).toBe(1.5);
+  });
+
+  it('estimates unknown streams at 16KB per second, and at least one second', () => {
+    expect(getAudioDuration(new ArrayBuffer(48000), null)).toBe(3);
+    expect(getAudioDuration(new ArrayBuffer(100), null)).toBe(1);
+  });
+});
+
+describe('parseRangeHeader', () => {
+  it('serves the whole file without a usable header', () => {
+    expect(parseRangeHeader(undefined, 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+    expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=0-10,20-30', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=50-10', 1000)).toBeNull();
+  });
+
+  it('parses closed and open-ended ranges', () => {
+    expect(parseRangeHeader('bytes=0-99', 1000)).toEqual({ offset: 0, length: 100 });
+    expect(parseRangeHeader('bytes=900-', 1000)).toEqual({ offset: 900, length: 100 });
+    expect(parseRangeHeader(' bytes=10-10 ', 1000)).toEqual({ offset: 10, length: 1 });
+  });
+
+  it('clamps the end to the last byte', () => {
+    expect(parseRangeHeader('bytes=990-5000', 1000)).toEqual({ offset: 990, length: 10 });
+  });
+
+  it('parses suffix ranges, capped at the file size', () => {
+    expect(parseRangeHeader('bytes=-100', 1000)).toEqual({ offset: 900, length: 100 });
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ offset: 0, length: 1000 });
+  });
+
+  it('reports ranges that start past the end as unsatisfiable', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-10', 0)).toBe('unsatisfiable');
+  });
+});
\ No newline at end of file
@@ -2,15 +2,398 @@
 export const SUPPORTED_AUDIO_FORMATS = [
   'audio/webm',
   'audio/wav',
+  'audio/x-wav',
+  'audio/wave',
   'audio/mp3',
   'audio/mpeg',
   'audio/ogg'
 ];
 
+// Compares the media type only, so "audio/webm;codecs=opus" is accepted
 export function isValidAudioFormat(contentType: string): boolean {
-  return SUPPORTED_AUDIO_FORMATS.some(format => 
-    contentType.includes(format.split('/')[1])
-  );
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  return SUPPORTED_AUDIO_FORMATS.includes(mediaType);
+}
+
+export const MAX_RECORDING_SECONDS = 60;
+
+export function getMaxRecordingSeconds(configured?: string): number {
+  return parseInt(configured || '') || MAX_RECORDING_SECONDS;
+}
+
+export type AudioContainer = 'wav' | 'ogg' | 'webm' | 'mp3';
+
+// What the first bytes of an upload say about it; codec and sampleRate are set when the header has them
+export interface AudioFormat {
+  container: AudioContainer;
+  codec?: string; // 'pcm', 'mulaw', 'alaw', 'opus', 'vorbis', 'mp3'
+  sampleRate?: number;
+  channels?: number;
+}
+
+// Duration comes from the stream itself (chunk sizes, timecodes, granule positions, frame counts)
+export interface AudioMetadata extends AudioFormat {
+  duration?: number; // Seconds; unset when the stream doesn't say
+}
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000] // MPEG-2.5
+};
+
+// Bitrates in kbps by bitrate index
+const MP3_BITRATES = {
+  v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  v2l23: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+const WAV_CODECS: Record<number, string> = { 1: 'pcm', 6: 'alaw', 7: 'mulaw' };
+
+const MATROSKA_CODECS: Record<string, string> = { A_OPUS: 'opus', A_VORBIS: 'vorbis', 'A_MPEG/L3': 'mp3', A_PCM: 'pcm' };
+
+// EBML master elements whose children we read: Segment, Info, Tracks, TrackEntry, Audio, Cluster, BlockGroup
+const EBML_MASTER_IDS = new Set([0x18538067, 0x1549a966, 0x1654ae6b, 0xae, 0xe1, 0x1f43b675, 0xa0]);
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function indexOfAscii(bytes: Uint8Array, needle: string, limit: number): number {
+  const end = Math.min(bytes.length, limit) - needle.length;
+  for (let i = 0; i <= end; i++) {
+    if (ascii(bytes, i, needle.length) === needle) return i;
+  }
+  return -1;
+}
+
+// Identify the container from magic bytes rather than trusting the Content-Type header
+export function sniffAudioFormat(audioBuffer: ArrayBuffer): AudioFormat | null {
+  const bytes = new Uint8Array(audioBuffer);
+  if (bytes.length < 12) return null;
+  const view = new DataView(audioBuffer);
+
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') {
+    const fmt = indexOfAscii(bytes, 'fmt ', 512);
+    if (fmt < 0 || fmt + 16 > bytes.length) return { container: 'wav' };
+    return {
+      container: 'wav',
+      codec: WAV_CODECS[view.getUint16(fmt + 8, true)],
+      channels: view.getUint16(fmt + 10, true),
+      sampleRate: view.getUint32(fmt + 12, true)
+    };
+  }
+
+  if (ascii(bytes, 0, 4) === 'OggS') {
+    const opusHead = indexOfAscii(bytes, 'OpusHead', 512);
+    if (opusHead >= 0 && opusHead + 16 <= bytes.length) {
+      return {
+        container: 'ogg',
+        codec: 'opus',
+        channels: bytes[opusHead + 9],
+        sampleRate: view.getUint32(opusHead + 12, true) // Original input rate, 0 when unknown
+      };
+    }
+    return { container: 'ogg', codec: indexOfAscii(bytes, 'vorbis', 512) >= 0 ? 'vorbis' : undefined };
+  }
+
+  if (view.getUint32(0) === 0x1a45dfa3) { // EBML header (WebM/Matroska)
+    const scan = 4096;
+    const codec = indexOfAscii(bytes, 'A_OPUS', scan) >= 0 ? 'opus'
+      : indexOfAscii(bytes, 'A_VORBIS', scan) >= 0 ? 'vorbis'
+      : undefined;
+    return { container: 'webm', codec };
+  }
+
+  // MP3: optional ID3v2 tag, then a frame header
+  const frame = parseMp3Frame(bytes, id3TagLength(bytes));
+  if (frame) {
+    return { container: 'mp3', codec: 'mp3', sampleRate: frame.sampleRate, channels: frame.channels };
+  }
+
+  return null;
+}
+
+// Container metadata plus duration; malformed or truncated streams keep whatever was read
+export function parseAudioMetadata(audioBuffer: ArrayBuffer): AudioMetadata | null {
+  const format = sniffAudioFormat(audioBuffer);
+  if (!format) return null;
+
+  const parsers: Record<AudioContainer, (buffer: ArrayBuffer) => Partial<AudioMetadata>> = {
+    wav: parseWav,
+    webm: parseMatroska,
+    ogg: parseOgg,
+    mp3: parseMp3
+  };
+
+  try {
+    const parsed = parsers[format.container](audioBuffer);
+    return { ...format, ...parsed };
+  } catch {
+    return format;
+  }
+}
+
+function parseWav(buffer: ArrayBuffer): Partial<AudioMetadata> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const result: Partial<AudioMetadata> = {};
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'fmt ') {
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (id === 'data') {
+      // Streaming recorders leave the size at 0 or 0xFFFFFFFF; fall back to what was uploaded
+      const available = bytes.length - offset - 8;
+      const dataSize = size === 0 || size > available ? available : size;
+      if (byteRate > 0) result.duration = dataSize / byteRate;
+      break;
+    }
+
+    offset += 8 + size + (size % 2); // Chunks are word-aligned
+  }
+
+  return result;
+}
+
+// WebM/Matroska: declared Info/Duration, or the last block timecode for MediaRecorder
+// output, which streams clusters of unknown size and never writes a duration
+function parseMatroska(buffer: ArrayBuffer): Partial<AudioMetadata> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const result: Partial<AudioMetadata> = {};
+  let timecodeScale = 1000000; // Nanoseconds per tick
+  let declaredDuration = 0;
+  let clusterTimecode = 0;
+  let lastTimecode = 0;
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = id && readVint(bytes, offset + id.length, false);
+    if (!id || !size) break;
+
+    const start = offset + id.length + size.length;
+    if (EBML_MASTER_IDS.has(id.value)) {
+      offset = start; // Read children in place; works for unknown-size masters too
+      continue;
+    }
+    if (size.value < 0 || start + size.value > bytes.length) break;
+
+    switch (id.value) {
+      case 0x2ad7b1: // TimecodeScale
+        timecodeScale = readUint(bytes, start, size.value);
+        break;
+      case 0x4489: // Duration
+        declaredDuration = size.value === 4 ? view.getFloat32(start) : view.getFloat64(start);
+        break;
+      case 0x86: { // CodecID
+        const codecId = ascii(bytes, start, size.value).replace(/\0+$/, '');
+        if (codecId.startsWith('A_')) result.codec = MATROSKA_CODECS[codecId] || codecId.toLowerCase();
+        break;
+      }
+      case 0xb5: // SamplingFrequency
+        result.sampleRate = size.value === 4 ? view.getFloat32(start) : view.getFloat64(start);
+        break;
+      case 0x9f: // Channels
+        result.channels = readUint(bytes, start, size.value);
+        break;
+      case 0xe7: // Cluster Timecode
+        clusterTimecode = readUint(bytes, start, size.value);
+        break;
+      case 0xa3: // SimpleBlock
+      case 0xa1: { // Block: track number, then a timecode relative to the cluster
+        const track = readVint(bytes, start, false);
+        if (track && size.value >= track.length + 2) {
+          lastTimecode = Math.max(lastTimecode, clusterTimecode + view.getInt16(start + track.length));
+        }
+        break;
+      }
+    }
+
+    offset = start + size.value;
+  }
+
+  const ticks = declaredDuration > 0 ? declaredDuration : lastTimecode;
+  if (ticks > 0) result.duration = ticks * timecodeScale / 1e9;
+
+  return result;
+}
+
+// Ogg: the last page's granule position counts samples (48 kHz for Opus, minus pre-skip)
+function parseOgg(buffer: ArrayBuffer): Partial<AudioMetadata> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const result: Partial<AudioMetadata> = {};
+  let granuleRate = 0;
+  let preSkip = 0;
+  let granule = -1;
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length && ascii(bytes, offset, 4) === 'OggS') {
+    const segments = bytes[offset + 26];
+    const body = offset + 27 + segments;
+    if (body > bytes.length) break;
+
+    let bodySize = 0;
+    for (let i = 0; i < segments; i++) bodySize += bytes[offset + 27 + i];
+
+    if (offset === 0) {
+      if (ascii(bytes, body, 8) === 'OpusHead') {
+        preSkip = view.getUint16(body + 10, true);
+        granuleRate = 48000;
+      } else if (ascii(bytes, body + 1, 6) === 'vorbis') {
+        result.channels = bytes[body + 11];
+        result.sampleRate = granuleRate = view.getUint32(body + 12, true);
+      }
+    }
+
+    // All ones means no packet ends on this page
+    const low = view.getUint32(offset + 6, true);
+    const high = view.getUint32(offset + 10, true);
+    if (low !== 0xffffffff || high !== 0xffffffff) granule = high * 2 ** 32 + low;
+
+    offset = body + bodySize;
+  }
+
+  if (granuleRate > 0 && granule > 0) result.duration = Math.max(0, granule - preSkip) / granuleRate;
+
+  return result;
+}
+
+// MP3: walk every frame header and count samples, so VBR files come out right too
+function parseMp3(buffer: ArrayBuffer): Partial<AudioMetadata> {
+  const bytes = new Uint8Array(buffer);
+  let offset = id3TagLength(bytes);
+  let samples = 0;
+  let sampleRate = 0;
+
+  while (offset + 4 <= bytes.length) {
+    const frame = parseMp3Frame(bytes, offset);
+    if (!frame) {
+      offset++; // Resync past junk and ID3v1 tags
+      continue;
+    }
+    sampleRate = sampleRate || frame.sampleRate;
+    samples += frame.samples;
+    offset += frame.length;
+  }
+
+  return sampleRate > 0 ? { duration: samples / sampleRate } : {};
+}
+
+function id3TagLength(bytes: Uint8Array): number {
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== 'ID3') return 0;
+  return 10 + ((bytes[6] & 0x7f) << 21 | (bytes[7] & 0x7f) << 14 | (bytes[8] & 0x7f) << 7 | (bytes[9] & 0x7f));
+}
+
+function parseMp3Frame(bytes: Uint8Array, offset: number): { length: number, samples: number, sampleRate: number, channels: number } | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const version = (bytes[offset + 1] >> 3) & 0x03; // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+  const layer = (bytes[offset + 1] >> 1) & 0x03; // 3 = Layer I, 2 = Layer II, 1 = Layer III
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRate = MP3_SAMPLE_RATES[version]?.[(bytes[offset + 2] >> 2) & 0x03];
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+
+  // Reserved values and free-format bitrates can't be measured
+  if (layer === 0 || !sampleRate || bitrateIndex === 0 || bitrateIndex === 15) return null;
+
+  const mpeg1 = version === 3;
+  const table = mpeg1
+    ? [MP3_BITRATES.v1l3, MP3_BITRATES.v1l2, MP3_BITRATES.v1l1][layer - 1]
+    : layer === 3 ? MP3_BITRATES.v2l1 : MP3_BITRATES.v2l23;
+  const bitrate = table[bitrateIndex] * 1000;
+
+  const samples = layer === 3 ? 384 : layer === 2 || mpeg1 ? 1152 : 576;
+  const length = layer === 3
+    ? (Math.floor(12 * bitrate / sampleRate) + padding) * 4
+    : Math.floor((samples / 8) * bitrate / sampleRate) + padding;
+
+  return { length, samples, sampleRate, channels: (bytes[offset + 3] >> 6) === 3 ? 1 : 2 };
+}
+
+// EBML variable-length integer; sizes of all ones (unknown size) come back as -1
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number, length: number } | null {
+  const first = bytes[offset];
+  if (!first) return null;
+
+  let length = 1;
+  let mask = 0x80;
+  while (!(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = (first & (mask - 1)) === mask - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes = allOnes && bytes[offset + i] === 0xff;
+  }
+
+  return { value: !keepMarker && allOnes ? -1 : value, length };
+}
+
+function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i];
+  return value;
+}
+
+// Join synthesized segments into one file: MP3 frames concatenate as they are,
+// WAV segments keep the first header with the sizes rewritten
+export function concatAudioSegments(segments: ArrayBuffer[], extension: string): ArrayBuffer {
+  if (segments.length === 1) return segments[0];
+
+  const parts = extension === 'wav'
+    ? segments.map((segment, i) => {
+      const data = findWavData(segment);
+      return new Uint8Array(segment, i === 0 ? 0 : data.offset, i === 0 ? data.offset + data.size : data.size);
+    })
+    : segments.map(segment => new Uint8Array(segment));
+
+  const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.byteLength;
+  }
+
+  if (extension === 'wav') {
+    const view = new DataView(joined.buffer);
+    const dataOffset = findWavData(segments[0]).offset;
+    view.setUint32(4, joined.byteLength - 8, true);
+    view.setUint32(dataOffset - 4, joined.byteLength - dataOffset, true);
+  }
+
+  return joined.buffer;
+}
+
+// Offset and size of the samples in a WAV file
+function findWavData(buffer: ArrayBuffer): { offset: number, size: number } {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (ascii(bytes, offset, 4) === 'data') {
+      return { offset: offset + 8, size: Math.min(size, bytes.length - offset - 8) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  return { offset: bytes.length, size: 0 };
 }
 
 export function generateAudioFilename(extension: string = 'mp3'): string {
@@ -19,14 +402,43 @@ export function generateAudioFilename(extension: string = 'mp3'): string {
   return `audio/${timestamp}-${random}.${extension}`;
 }
 
-export function getAudioDuration(audioBuffer: ArrayBuffer): number {
-  // Rough estimation - in a real implementation you'd parse the audio headers
-  // For MP3: ~128kbps = 16KB/s, so duration ≈ bytes / 16000
-  const estimatedDuration = audioBuffer.byteLength / 16000;
-  return Math.max(1, Math.min(estimatedDuration, 60)); // 1-60 seconds
+// Seconds of audio for billing; streams without a usable duration are estimated at 128kbps (16KB/s)
+export function getAudioDuration(audioBuffer: ArrayBuffer, metadata: AudioMetadata | null = parseAudioMetadata(audioBuffer)): number {
+  if (metadata?.duration && metadata.duration > 0) {
+    return Math.round(metadata.duration * 100) / 100;
+  }
+  return Math.max(1, audioBuffer.byteLength / 16000);
 }
 
 export async function validateAudioSize(audioBuffer: ArrayBuffer, maxSizeMB: number = 5): Promise<boolean> {
   const sizeMB = audioBuffer.byteLength / (1024 * 1024);
   return sizeMB <= maxSizeMB;
+}
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+// Single range of a "Range: bytes=..." header; null when absent, malformed or multi-range
+// (serve the whole file), 'unsatisfiable' when it starts past the end
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | null | 'unsatisfiable' {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2]);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    const length = Math.min(suffix, size);
+    return { offset: size - length, length };
+  }
+
+  const start = parseInt(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+
+  if (start >= size) return 'unsatisfiable';
+  if (end < start) return null;
+
+  return { offset: start, length: end - start + 1 };
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+// Sentence chunking for per-sentence speech synthesis
+
+// Sentence-final punctuation (with closing quotes/brackets) followed by whitespace, or a line break.
+// "3.5" and "v.v" stay whole because a space must follow.
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*(?:\s+|$)|\n+/g;
+const LEADING_EMOJI = /^(?:\p{Extended_Pictographic}|\u200d|\ufe0f|\s)+/u;
+const MIN_CHUNK_LENGTH = 12; // Short interjections ("Dạ!", "Ừm...") ride along with the next sentence
+const MAX_CHUNK_LENGTH = 200; // Run-on sentences are split at commas, then at spaces
+
+export function splitIntoSentences(text: string, maxLength: number = MAX_CHUNK_LENGTH): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  const addSentence = (sentence: string) => {
+    // "Chào anh ạ! ❤️ Hôm nay..." - the emoji closes the previous sentence
+    const emoji = sentence.match(LEADING_EMOJI)?.[0];
+    if (emoji && sentences.length > 0) {
+      sentences[sentences.length - 1] += ` ${emoji.trim()}`;
+      sentence = sentence.slice(emoji.length);
+    }
+    sentences.push(sentence.trim());
+  };
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = (match.index ?? 0) + match[0].length;
+    addSentence(text.slice(start, end).trim());
+    start = end;
+  }
+  addSentence(text.slice(start).trim());
+
+  const chunks: string[] = [];
+  let pending = '';
+
+  for (const sentence of sentences.filter(Boolean)) {
+    // Emoji and stray punctuation between sentences belong to the previous one
+    if (!/[\p{L}\p{N}]/u.test(sentence) && chunks.length > 0 && !pending) {
+      chunks[chunks.length - 1] += ` ${sentence}`;
+      continue;
+    }
+
+    const combined = pending ? `${pending} ${sentence}` : sentence;
+    if (combined.length < MIN_CHUNK_LENGTH) {
+      pending = combined;
+      continue;
+    }
+
+    pending = '';
+    chunks.push(...splitLongSentence(combined, maxLength));
+  }
+
+  if (pending) {
+    if (chunks.length > 0) {
+      chunks[chunks.length - 1] += ` ${pending}`;
+    } else {
+      chunks.push(pending);
+    }
+  }
+
+  return chunks;
+}
+
+function splitLongSentence(sentence: string, maxLength: number): string[] {
+  if (sentence.length <= maxLength) return [sentence];
+
+  const pieces = sentence
+    .split(/(?<=[,;:])\s+/)
+    .flatMap(clause => clause.length <= maxLength ? [clause] : clause.split(/\s+/));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + 1 + piece.length > maxLength) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
\ No newline at end of file
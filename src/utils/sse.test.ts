@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { readServerSentEvents } from './sse';
+
+async function readAll(chunks: string[]): Promise<string[]> {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+
+  const events: string[] = [];
+  for await (const data of readServerSentEvents(body)) {
+    events.push(data);
+  }
+  return events;
+}
+
+describe('readServerSentEvents', () => {
+  it('yields the data of each event', async () => {
+    expect(await readAll(['data: {"a":1}\n\ndata: [DONE]\n\n'])).toEqual(['{"a":1}', '[DONE]']);
+  });
+
+  it('joins multi-line data and skips events without data', async () => {
+    expect(await readAll([': keep-alive\n\nevent: message\ndata: one\ndata: two\n\n'])).toEqual(['one\ntwo']);
+  });
+
+  it('reassembles events split across chunks, including a final event without a blank line', async () => {
+    expect(await readAll(['da', 'ta: first\n', '\ndata: sec', 'ond'])).toEqual(['first', 'second']);
+  });
+
+  it('accepts CRLF and CR line endings', async () => {
+    expect(await readAll(['data: a\r\n\r\ndata: b\r\rdata: c\n\n'])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps a CRLF split between chunks as one line ending', async () => {
+    expect(await readAll(['data: x\r', '\ndata: y\r', '\n\r', '\ndata: z\r\n\r\n'])).toEqual(['x\ny', 'z']);
+  });
+});
\ No newline at end of file
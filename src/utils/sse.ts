@@ -0,0 +1,47 @@
+// Server-Sent Events parsing for upstream streaming APIs (e.g. OpenAI `stream: true`)
+
+// Yield the `data:` payload of each event in a text/event-stream body
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let trailingCarriageReturn = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Lines may end in \r\n, \n or \r; a chunk ending in \r waits for the next one,
+      // which may start with the \n of the same line ending
+      let text: string = (trailingCarriageReturn ? '\r' : '') + decoder.decode(value, { stream: true });
+      trailingCarriageReturn = text.endsWith('\r');
+      if (trailingCarriageReturn) text = text.slice(0, -1);
+      buffer += text.replace(/\r\n?/g, '\n');
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const data = parseEventData(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (data !== null) yield data;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    if (trailingCarriageReturn) buffer += '\n';
+    const data = parseEventData(buffer);
+    if (data !== null) yield data;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventData(rawEvent: string): string | null {
+  const dataLines = rawEvent
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart());
+
+  return dataLines.length > 0 ? dataLines.join('\n') : null;
+}
\ No newline at end of file
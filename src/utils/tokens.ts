@@ -0,0 +1,16 @@
+// Token estimation utilities for prompt budgeting
+// OpenAI tokenizers average ~4 chars/token for English but Vietnamese diacritics
+// split into more tokens, so we use a conservative 3 chars/token.
+const CHARS_PER_TOKEN = 3;
+
+// Fixed overhead OpenAI adds per chat message (role + separators)
+const TOKENS_PER_MESSAGE = 4;
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(content: string): number {
+  return estimateTokens(content) + TOKENS_PER_MESSAGE;
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+// Similarity helpers for memories: dense embeddings stored as D1 BLOBs (Float32,
+// little-endian) and plain word overlap for when no embedding is available
+
+export function encodeVector(vector: Float32Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(vector.length * 4);
+  const view = new DataView(buffer);
+  vector.forEach((value, index) => view.setFloat32(index * 4, value, true));
+  return buffer;
+}
+
+// D1 hands BLOB columns back as number[] (or ArrayBuffer/Uint8Array depending on runtime)
+export function decodeVector(value: unknown): Float32Array | null {
+  let bytes: Uint8Array;
+
+  if (value instanceof ArrayBuffer) {
+    bytes = new Uint8Array(value);
+  } else if (value instanceof Uint8Array) {
+    bytes = value;
+  } else if (Array.isArray(value)) {
+    bytes = Uint8Array.from(value as number[]);
+  } else {
+    return null;
+  }
+
+  if (bytes.byteLength === 0 || bytes.byteLength % 4 !== 0) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const vector = new Float32Array(bytes.byteLength / 4);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = view.getFloat32(i * 4, true);
+  }
+  return vector;
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Jaccard overlap of the lowercase word sets of two texts
+export function textSimilarity(a: string, b: string): number {
+  const tokensA = wordSet(a);
+  const tokensB = wordSet(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .normalize('NFC')
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 0)
+  );
+}
\ No newline at end of file
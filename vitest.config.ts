@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for pure modules; kept apart from vite.config.ts so the Pages build plugin isn't loaded
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+})
\ No newline at end of file